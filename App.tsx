@@ -1,18 +1,77 @@
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import ImageUploader from './components/ImageUploader';
 import ImageEditor from './components/ImageEditor';
-import { GithubIcon, LogoIcon } from './components/Icons';
+import BatchProcessor from './components/BatchProcessor';
+import ProviderSettings from './components/ProviderSettings';
+import ApiKeySettings from './components/ApiKeySettings';
+import UsagePanel from './components/UsagePanel';
+import RecentProjects from './components/RecentProjects';
+import Spinner from './components/Spinner';
+import { loadProject, saveProject } from './services/sessionStore';
+import { importProjectFile } from './services/projectFile';
+import { importImage } from './utils/imageImport';
+import { ProjectRecord } from './types';
+import { useProviderState } from './hooks/useProviderConfig';
+import { GithubIcon, LogoIcon, SettingsIcon } from './components/Icons';
+
+interface ActiveSession {
+  id: string;
+  original: File;
+  restored: ProjectRecord | null;
+}
 
 const App: React.FC = () => {
-  const [originalImage, setOriginalImage] = useState<File | null>(null);
+  const [session, setSession] = useState<ActiveSession | null>(null);
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // What is being opened, shown while it loads; null when nothing is.
+  const [pendingOpen, setPendingOpen] = useState<string | null>(null);
+  // Bumped by every attempt to open something, so only the latest one may replace the session.
+  const openTicketRef = useRef(0);
+  const providerState = useProviderState();
+
+  const openSession = async (label: string, load: () => Promise<ActiveSession>, fallbackError: string) => {
+    const ticket = ++openTicketRef.current;
+    setSessionError(null);
+    setPendingOpen(label);
+    try {
+      const next = await load();
+      if (ticket === openTicketRef.current) setSession(next);
+    } catch (err) {
+      if (ticket === openTicketRef.current) setSessionError(err instanceof Error ? err.message : fallbackError);
+    } finally {
+      if (ticket === openTicketRef.current) setPendingOpen(null);
+    }
+  };
+
+  const handleImageUpload = (file: File) => openSession(`Opening ${file.name}…`, async () => {
+    const original = await importImage(file);
+    return { id: crypto.randomUUID(), original, restored: null };
+  }, 'Failed to open the image.');
 
-  const handleImageUpload = (file: File) => {
-    setOriginalImage(file);
+  const handleBatchUpload = (files: File[]) => {
+    openTicketRef.current++;
+    setPendingOpen(null);
+    setSessionError(null);
+    setBatchFiles(files);
   };
 
+  const handleOpenProject = (id: string) => openSession('Opening the saved session…', async () => {
+    const project = await loadProject(id);
+    if (!project) throw new Error('That session no longer exists.');
+    return { id: project.id, original: project.original, restored: project };
+  }, 'Failed to open the saved session.');
+
+  const handleProjectImport = (file: File) => openSession(`Importing ${file.name}…`, async () => {
+    const project = await importProjectFile(file);
+    await saveProject(project);
+    return { id: project.id, original: project.original, restored: project };
+  }, 'Failed to import the project.');
+
   const handleReset = () => {
-    setOriginalImage(null);
+    setSession(null);
   };
 
   return (
@@ -27,17 +86,61 @@ const App: React.FC = () => {
                 <p className="text-sm text-gray-400">Powered by Gemini</p>
             </div>
         </div>
-        <a href="https://github.com/google/gemini-api" target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-white transition-colors duration-300">
-            <GithubIcon className="w-8 h-8" />
-        </a>
+        <div className="relative flex items-center gap-4">
+            <button onClick={() => setIsSettingsOpen(open => !open)} className="text-gray-400 hover:text-white transition-colors duration-300" title="Settings" aria-expanded={isSettingsOpen}>
+                <SettingsIcon className="w-8 h-8" />
+            </button>
+            <a href="https://github.com/google/gemini-api" target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-white transition-colors duration-300">
+                <GithubIcon className="w-8 h-8" />
+            </a>
+            {isSettingsOpen && (
+                <div className="absolute right-0 top-full mt-2 w-80 z-20 bg-gray-800 border border-gray-700 rounded-lg shadow-2xl p-4">
+                    <ProviderSettings />
+                    {providerState.config.kind === 'gemini' && (
+                        <div className="mt-4 pt-4 border-t border-gray-700">
+                            <ApiKeySettings />
+                        </div>
+                    )}
+                    <div className="mt-4 pt-4 border-t border-gray-700">
+                        <UsagePanel />
+                    </div>
+                </div>
+            )}
+        </div>
       </header>
 
       <main className="w-full max-w-6xl flex-grow">
+        {!providerState.isConfigured && (
+          <div className="mb-4 p-3 rounded-lg border border-yellow-600/60 bg-yellow-900/30 text-yellow-200 text-sm flex flex-col sm:flex-row sm:items-center justify-between gap-2" role="alert">
+            <span>No AI provider is configured. Masking and local tools still work, but generation, auto-mask and upscaling are disabled.</span>
+            <button onClick={() => setIsSettingsOpen(true)} className="self-start sm:self-auto bg-yellow-700/60 hover:bg-yellow-700 text-white py-1 px-3 rounded-md whitespace-nowrap">
+              Open settings
+            </button>
+          </div>
+        )}
         <div className="bg-gray-800/50 p-4 sm:p-6 rounded-2xl shadow-2xl backdrop-blur-sm border border-gray-700">
-          {!originalImage ? (
-            <ImageUploader onImageUpload={handleImageUpload} />
+          {batchFiles ? (
+            <BatchProcessor files={batchFiles} onBack={() => setBatchFiles(null)} />
+          ) : !session ? (
+            <>
+              <ImageUploader onImageUpload={handleImageUpload} onBatchUpload={handleBatchUpload} onProjectImport={handleProjectImport} />
+              {pendingOpen && (
+                <div className="flex items-center justify-center gap-2 text-gray-300 mt-4" role="status">
+                  <Spinner />
+                  <span>{pendingOpen}</span>
+                </div>
+              )}
+              {sessionError && <p className="text-red-400 text-center mt-4">{sessionError}</p>}
+              <RecentProjects onOpen={handleOpenProject} />
+            </>
           ) : (
-            <ImageEditor originalImage={originalImage} onReset={handleReset} />
+            <ImageEditor
+              key={session.id}
+              originalImage={session.original}
+              projectId={session.id}
+              restoredProject={session.restored}
+              onReset={handleReset}
+            />
           )}
         </div>
       </main>
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { setApiKey, forgetApiKey } from '../services/providerRegistry';
+import { validateGeminiKey } from '../services/providers/geminiProvider';
+import { useProviderState } from '../hooks/useProviderConfig';
+import Spinner from './Spinner';
+
+const SOURCE_LABELS = {
+  environment: 'Using the key from the build environment.',
+  session: 'Key saved for this browser session.',
+  local: 'Key remembered on this device.',
+};
+
+const ApiKeySettings: React.FC = () => {
+  const { config, apiKeySource } = useProviderState();
+  const [key, setKey] = useState('');
+  const [remember, setRemember] = useState(false);
+  const [isValidating, setIsValidating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = key.trim();
+    if (!trimmed) return;
+    setIsValidating(true);
+    setError(null);
+    try {
+      await validateGeminiKey(trimmed, config.model);
+      setApiKey(trimmed, remember);
+      setKey('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to validate the API key.');
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="flex flex-col gap-2 text-sm text-gray-300">
+      <label htmlFor="api-key" className="block text-gray-400">Gemini API key</label>
+      <p className={apiKeySource ? 'text-green-400' : 'text-yellow-400'}>
+        {apiKeySource ? SOURCE_LABELS[apiKeySource] : 'No key configured.'}
+      </p>
+      <input
+        id="api-key"
+        type="password"
+        autoComplete="off"
+        value={key}
+        onChange={(e) => setKey(e.target.value)}
+        placeholder="Paste a key to validate and save"
+        className="w-full p-2 bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-purple-500"
+        disabled={isValidating}
+      />
+      <label className="flex items-center gap-2 cursor-pointer text-gray-400">
+        <input
+          type="checkbox"
+          checked={remember}
+          onChange={(e) => setRemember(e.target.checked)}
+          className="accent-purple-500"
+          disabled={isValidating}
+        />
+        Remember on this device
+      </label>
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isValidating || !key.trim()}
+          className="flex-grow bg-purple-600 hover:bg-purple-700 text-white font-semibold py-2 px-3 rounded-md disabled:bg-gray-600 disabled:opacity-70 disabled:cursor-not-allowed flex items-center justify-center"
+        >
+          {isValidating ? <Spinner /> : 'Validate & Save'}
+        </button>
+        {(apiKeySource === 'session' || apiKeySource === 'local') && (
+          <button
+            type="button"
+            onClick={forgetApiKey}
+            disabled={isValidating}
+            className="bg-gray-700 hover:bg-red-700 text-gray-300 hover:text-white py-2 px-3 rounded-md border border-gray-600"
+          >
+            Forget key
+          </button>
+        )}
+      </div>
+      {error && <p className="text-red-400">{error}</p>}
+    </form>
+  );
+};
+
+export default ApiKeySettings;
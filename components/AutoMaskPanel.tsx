@@ -0,0 +1,138 @@
+import React from 'react';
+import Spinner from './Spinner';
+import { AutoMaskIcon } from './Icons';
+
+/** Where auto-masking runs: in the browser, or on the configured provider's model. */
+export type SegmentationEngine = 'local' | 'remote';
+export type AutoMaskTarget = 'subject' | 'background';
+/** How a selection by description merges into the layer's mask. */
+export type PromptMaskMode = 'add' | 'subtract' | 'replace';
+
+interface AutoMaskPanelProps {
+  engine: SegmentationEngine;
+  onEngineChange: (engine: SegmentationEngine) => void;
+  onMask: (target: AutoMaskTarget) => void;
+  // Whether clicks on the canvas currently pick an object.
+  isPicking: boolean;
+  onTogglePicking: () => void;
+  isRunning: boolean;
+  // The remote engine needs a configured provider.
+  remoteAvailable: boolean;
+  description: string;
+  onDescriptionChange: (description: string) => void;
+  promptMode: PromptMaskMode;
+  onPromptModeChange: (mode: PromptMaskMode) => void;
+  pointCounts: { include: number, exclude: number };
+  // Whether clicks on the canvas currently place include/exclude points.
+  isPlacingPoints: boolean;
+  onTogglePlacingPoints: () => void;
+  onClearPoints: () => void;
+  onSelect: () => void;
+  // True when selecting again would replace the previous selection rather than add to it.
+  canRefine: boolean;
+  disabled?: boolean;
+}
+
+const ENGINES: { engine: SegmentationEngine, label: string, title: string }[] = [
+  { engine: 'local', label: 'On device', title: 'Segment in the browser; works offline and nothing is uploaded' },
+  { engine: 'remote', label: 'AI model', title: 'Ask the configured provider to draw the mask' },
+];
+
+const PROMPT_MODES: PromptMaskMode[] = ['add', 'subtract', 'replace'];
+
+const AutoMaskPanel: React.FC<AutoMaskPanelProps> = ({
+  engine, onEngineChange, onMask, isPicking, onTogglePicking, isRunning, remoteAvailable,
+  description, onDescriptionChange, promptMode, onPromptModeChange, pointCounts,
+  isPlacingPoints, onTogglePlacingPoints, onClearPoints, onSelect, canRefine, disabled = false,
+}) => {
+  const unavailable = disabled || isRunning || (engine === 'remote' && !remoteAvailable);
+  const canSelect = !disabled && !isRunning && remoteAvailable && (description.trim() !== '' || pointCounts.include > 0);
+  const buttonClass = 'text-xs py-1 px-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="w-full bg-gray-900/50 p-3 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-400 flex items-center gap-2">
+          <AutoMaskIcon className="w-4 h-4" />
+          Auto Mask
+        </h3>
+        <div className="flex items-center rounded-md overflow-hidden border border-gray-600 text-xs">
+          {ENGINES.map(option => (
+            <button
+              key={option.engine}
+              onClick={() => onEngineChange(option.engine)}
+              disabled={disabled || isRunning || (option.engine === 'remote' && !remoteAvailable)}
+              className={`px-2 py-1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${engine === option.engine ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+              title={option.engine === 'remote' && !remoteAvailable ? 'Configure a provider to use the AI model' : option.title}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => onMask('subject')} disabled={unavailable} className={`${buttonClass} bg-gray-700 hover:bg-gray-600 text-gray-300`} title="Mask the main subject, replacing this layer's mask">
+          Subject
+        </button>
+        <button onClick={() => onMask('background')} disabled={unavailable} className={`${buttonClass} bg-gray-700 hover:bg-gray-600 text-gray-300`} title="Mask everything but the subject, replacing this layer's mask">
+          Background
+        </button>
+        <button
+          onClick={onTogglePicking}
+          disabled={disabled || engine !== 'local'}
+          className={`${buttonClass} ${isPicking ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+          title={engine === 'local' ? 'Click an object on the image to mask it; Shift adds, Alt subtracts' : 'Picking objects only works on device'}
+        >
+          Pick object
+        </button>
+        {isRunning && <Spinner />}
+      </div>
+      <div className="mt-3 pt-3 border-t border-gray-700 flex flex-col gap-2">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => onDescriptionChange(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && canSelect) onSelect(); }}
+            placeholder={remoteAvailable ? 'Describe what to select, e.g. "the shirt" or "all cars"' : 'Configure a provider to select by description'}
+            className="flex-grow min-w-0 p-2 text-sm bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+            disabled={disabled || !remoteAvailable}
+          />
+          <button onClick={onSelect} disabled={!canSelect} className="text-xs bg-purple-600 hover:bg-purple-700 text-white py-1 px-3 rounded-md disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap">
+            {canRefine ? 'Update' : 'Select'}
+          </button>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+          <div className="flex items-center rounded-md overflow-hidden border border-gray-600" title="How the selection merges with this layer's mask">
+            {PROMPT_MODES.map(mode => (
+              <button
+                key={mode}
+                onClick={() => onPromptModeChange(mode)}
+                disabled={disabled}
+                className={`px-2 py-1 capitalize transition-colors ${promptMode === mode ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={onTogglePlacingPoints}
+            disabled={disabled || !remoteAvailable}
+            className={`${buttonClass} ${isPlacingPoints ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+            title="Click the image to mark what belongs in the selection; Alt-click to mark what doesn't. Click a point again to remove it."
+          >
+            Points
+          </button>
+          {pointCounts.include + pointCounts.exclude > 0 && (
+            <>
+              <span>{pointCounts.include} in, {pointCounts.exclude} out</span>
+              <button onClick={onClearPoints} disabled={disabled} className="text-gray-400 hover:text-white underline disabled:opacity-50">Clear</button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AutoMaskPanel;
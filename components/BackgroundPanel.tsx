@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import Spinner from './Spinner';
+import { loadImageFromFile } from '../utils/imageUtils';
+import { BackgroundFill } from '../utils/backgroundUtils';
+
+/** How the cut-out's edge is cleaned up, in editor canvas pixels. */
+export interface EdgeSettings {
+  // Positive grows the subject, negative pulls the edge in.
+  shift: number;
+  feather: number;
+  // How much of the old background's colour to remove from edge pixels, 0-100.
+  decontaminate: number;
+}
+
+/** A ready background, or a prompt for the model to paint one. */
+export type BackgroundChoice = BackgroundFill | { kind: 'generate', prompt: string };
+
+type BackgroundKind = BackgroundChoice['kind'];
+
+interface BackgroundPanelProps {
+  // Masks the background on the active layer, which the cut-out is taken from.
+  onDetect: () => void;
+  onApply: (choice: BackgroundChoice, edge: EdgeSettings) => void;
+  isDetecting: boolean;
+  // Generating a background needs a configured provider.
+  remoteAvailable: boolean;
+  disabled?: boolean;
+}
+
+const KINDS: { kind: BackgroundKind, label: string }[] = [
+  { kind: 'transparent', label: 'None' },
+  { kind: 'color', label: 'Colour' },
+  { kind: 'gradient', label: 'Gradient' },
+  { kind: 'image', label: 'Image' },
+  { kind: 'generate', label: 'Generate' },
+];
+
+const BackgroundPanel: React.FC<BackgroundPanelProps> = ({ onDetect, onApply, isDetecting, remoteAvailable, disabled = false }) => {
+  const [kind, setKind] = useState<BackgroundKind>('transparent');
+  const [color, setColor] = useState('#ffffff');
+  const [gradient, setGradient] = useState({ from: '#f3f4f6', to: '#9ca3af', angle: 90 });
+  const [image, setImage] = useState<{ element: HTMLImageElement, name: string } | null>(null);
+  const [placement, setPlacement] = useState({ scale: 1, offsetX: 0, offsetY: 0 });
+  const [prompt, setPrompt] = useState('');
+  const [edge, setEdge] = useState<EdgeSettings>({ shift: 0, feather: 1, decontaminate: 75 });
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setImage({ element: await loadImageFromFile(file), name: file.name });
+      setPlacement({ scale: 1, offsetX: 0, offsetY: 0 });
+      setUploadError(null);
+    } catch {
+      setUploadError('That file could not be read as an image.');
+    }
+  };
+
+  const choice = (): BackgroundChoice | null => {
+    switch (kind) {
+      case 'transparent':
+        return { kind };
+      case 'color':
+        return { kind, color };
+      case 'gradient':
+        return { kind, ...gradient };
+      case 'image':
+        return image && { kind, image: image.element, ...placement };
+      case 'generate':
+        return prompt.trim() ? { kind, prompt: prompt.trim() } : null;
+    }
+  };
+
+  const ready = choice();
+  const canApply = !disabled && !isDetecting && !!ready && (kind !== 'generate' || remoteAvailable);
+
+  const slider = (label: string, value: number, min: number, max: number, step: number, unit: string, onChange: (value: number) => void, title?: string) => (
+    <label className="flex items-center gap-2" title={title}>
+      <span className="w-24 flex-shrink-0">{label}:</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="flex-grow accent-purple-500"
+        disabled={disabled}
+      />
+      <span className="w-12 text-right tabular-nums">{value}{unit}</span>
+    </label>
+  );
+
+  return (
+    <div className="w-full bg-gray-900/50 p-3 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-400">Background</h3>
+        <button
+          onClick={onDetect}
+          disabled={disabled || isDetecting}
+          className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 py-1 px-2 rounded-md disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          title="Mask the background on the active layer; touch it up with the brush before replacing it"
+        >
+          {isDetecting && <Spinner />}
+          Detect background
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mb-2">The active layer's mask marks what gets replaced.</p>
+
+      <div className="flex flex-col gap-1 text-xs text-gray-400">
+        {slider('Edge shift', edge.shift, -8, 8, 1, 'px', shift => setEdge({ ...edge, shift }), 'Grow the subject outwards or pull its edge in')}
+        {slider('Edge softness', edge.feather, 0, 8, 1, 'px', feather => setEdge({ ...edge, feather }))}
+        {slider('Decontaminate', edge.decontaminate, 0, 100, 5, '%', decontaminate => setEdge({ ...edge, decontaminate }), 'Remove the old background colour bleeding into the edge, so it leaves no halo')}
+      </div>
+
+      <div className="flex items-center rounded-md overflow-hidden border border-gray-600 text-xs mt-3 w-max">
+        {KINDS.map(option => (
+          <button
+            key={option.kind}
+            onClick={() => setKind(option.kind)}
+            disabled={disabled}
+            className={`px-2 py-1 transition-colors ${kind === option.kind ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-2 mt-2 text-xs text-gray-400">
+        {kind === 'transparent' && <p>Exports the subject alone as a PNG with transparency.</p>}
+        {kind === 'color' && (
+          <label className="flex items-center gap-2">
+            <span>Colour:</span>
+            <input type="color" value={color} onChange={(e) => setColor(e.target.value)} className="w-10 h-6 bg-transparent" disabled={disabled} />
+          </label>
+        )}
+        {kind === 'gradient' && (
+          <>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-2">
+                <span>From:</span>
+                <input type="color" value={gradient.from} onChange={(e) => setGradient({ ...gradient, from: e.target.value })} className="w-10 h-6 bg-transparent" disabled={disabled} />
+              </label>
+              <label className="flex items-center gap-2">
+                <span>To:</span>
+                <input type="color" value={gradient.to} onChange={(e) => setGradient({ ...gradient, to: e.target.value })} className="w-10 h-6 bg-transparent" disabled={disabled} />
+              </label>
+            </div>
+            {slider('Angle', gradient.angle, 0, 345, 15, '°', angle => setGradient({ ...gradient, angle }), '0° runs left to right, 90° top to bottom')}
+          </>
+        )}
+        {kind === 'image' && (
+          <>
+            <label className="flex items-center gap-2">
+              <span className="bg-gray-700 hover:bg-gray-600 text-gray-300 py-1 px-2 rounded-md cursor-pointer">Choose image…</span>
+              <span className="truncate">{image?.name ?? 'No image chosen'}</span>
+              <input type="file" accept="image/png, image/jpeg, image/webp" onChange={handleUpload} className="hidden" disabled={disabled} />
+            </label>
+            {uploadError && <p className="text-red-400">{uploadError}</p>}
+            {image && (
+              <>
+                {slider('Scale', Math.round(placement.scale * 100), 100, 300, 5, '%', scale => setPlacement({ ...placement, scale: scale / 100 }))}
+                {slider('Horizontal', Math.round(placement.offsetX * 100), -50, 50, 1, '%', offsetX => setPlacement({ ...placement, offsetX: offsetX / 100 }))}
+                {slider('Vertical', Math.round(placement.offsetY * 100), -50, 50, 1, '%', offsetY => setPlacement({ ...placement, offsetY: offsetY / 100 }))}
+              </>
+            )}
+          </>
+        )}
+        {kind === 'generate' && (
+          <input
+            type="text"
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && canApply && ready) onApply(ready, edge); }}
+            placeholder={remoteAvailable ? 'Describe the new background, e.g. "marble countertop, soft daylight"' : 'Configure a provider to generate backgrounds'}
+            className="w-full p-2 text-sm bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+            disabled={disabled || !remoteAvailable}
+          />
+        )}
+      </div>
+
+      <button
+        onClick={() => ready && onApply(ready, edge)}
+        disabled={!canApply}
+        className="w-full mt-3 text-sm bg-purple-600 hover:bg-purple-700 text-white py-1.5 px-3 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {kind === 'transparent' ? 'Remove background' : 'Replace background'}
+      </button>
+    </div>
+  );
+};
+
+export default BackgroundPanel;
@@ -0,0 +1,293 @@
+import React, { useEffect, useState } from 'react';
+import { BatchItem, BatchMaskSource, BatchStage, UpscaleMethod, WorkingResolution } from '../types';
+import { useBatchQueue } from '../hooks/useBatchQueue';
+import { useProviderState } from '../hooks/useProviderConfig';
+import { budgetWarning } from '../services/usageLedger';
+import { createZip } from '../utils/zip';
+import { downloadBlob } from '../utils/exportUtils';
+import { STYLES } from '../utils/editOptions';
+import Spinner from './Spinner';
+import { BackIcon, DownloadIcon, TrashIcon } from './Icons';
+
+interface BatchProcessorProps {
+  files: File[];
+  onBack: () => void;
+}
+
+const STAGE_LABELS: Record<BatchStage, string> = {
+  masking: 'Masking…',
+  editing: 'Editing…',
+  upscaling: 'Upscaling…',
+};
+
+type MaskChoice = 'subject' | 'background' | 'rect';
+
+const ItemThumbnail: React.FC<{ file: Blob, name: string }> = ({ file, name }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return url
+    ? <img src={url} alt={name} className="w-14 h-14 object-cover rounded-md flex-shrink-0" />
+    : <div className="w-14 h-14 rounded-md bg-gray-700 flex-shrink-0" />;
+};
+
+const resultName = (file: File, taken: Set<string>): string => {
+  const base = file.name.replace(/\.[^.]+$/, '') || 'image';
+  let name = `${base}-edited.png`;
+  for (let n = 2; taken.has(name); n++) name = `${base}-edited-${n}.png`;
+  taken.add(name);
+  return name;
+};
+
+/**
+ * Runs one prompt and mask strategy over many images: the job form, the
+ * queue with per-image progress, retries and a zip of everything finished.
+ */
+const BatchProcessor: React.FC<BatchProcessorProps> = ({ files, onBack }) => {
+  const [prompt, setPrompt] = useState('');
+  const [negativePrompt, setNegativePrompt] = useState('');
+  const [style, setStyle] = useState('Default');
+  const [maskChoice, setMaskChoice] = useState<MaskChoice>('background');
+  // The fixed rectangle in percent of each image.
+  const [rect, setRect] = useState({ x: 25, y: 25, width: 50, height: 50 });
+  const [resolution, setResolution] = useState<WorkingResolution>(1024);
+  const [upscaleFactor, setUpscaleFactor] = useState<number | null>(null);
+  const [upscaleMethod, setUpscaleMethod] = useState<UpscaleMethod>('local');
+  const [concurrency, setConcurrency] = useState(2);
+  const [isZipping, setIsZipping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { isConfigured } = useProviderState();
+  const queue = useBatchQueue(files, concurrency);
+
+  const counts = queue.items.reduce((acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }), { queued: 0, running: 0, done: 0, failed: 0 });
+  const rectValid = rect.width > 0 && rect.height > 0 && rect.x + rect.width <= 100 && rect.y + rect.height <= 100;
+  const canStart = isConfigured && !queue.isRunning && prompt.trim() !== '' && counts.queued > 0 && (maskChoice !== 'rect' || rectValid);
+
+  const handleStart = () => {
+    const maskSource: BatchMaskSource = maskChoice === 'rect'
+      ? { kind: 'rect', rect: { x: rect.x / 100, y: rect.y / 100, width: rect.width / 100, height: rect.height / 100 } }
+      : { kind: 'auto', target: maskChoice };
+    // One edit per image, plus its auto-mask and AI upscale where the job has them.
+    const perImage = 1 + (maskSource.kind === 'auto' ? 1 : 0) + (upscaleFactor && upscaleMethod === 'ai' ? 1 : 0);
+    const warning = budgetWarning(counts.queued * perImage);
+    if (warning && !window.confirm(warning)) return;
+    setError(null);
+    queue.start({ prompt: prompt.trim(), negativePrompt, style, maskSource, resolution, upscaleFactor, upscaleMethod });
+  };
+
+  const handleAddFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    queue.addFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  };
+
+  const handleDownloadAll = async () => {
+    setIsZipping(true);
+    setError(null);
+    try {
+      const taken = new Set<string>();
+      const finished = queue.items.filter((item): item is BatchItem & { result: Blob } => item.status === 'done' && !!item.result);
+      const entries = await Promise.all(finished.map(async item => ({
+        path: resultName(item.file, taken),
+        data: new Uint8Array(await item.result.arrayBuffer()),
+      })));
+      downloadBlob(createZip(entries), 'batch-results.zip');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to build the zip.');
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const handleDownloadOne = (item: BatchItem) => {
+    if (!item.result) return;
+    downloadBlob(item.result, resultName(item.file, new Set()));
+  };
+
+  const inputClass = 'w-full p-2 bg-gray-700 rounded-lg border border-gray-600 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors';
+  const locked = queue.isRunning;
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex items-center justify-between">
+        <button onClick={onBack} className="flex items-center gap-2 text-gray-300 hover:text-white transition-colors">
+          <BackIcon className="w-5 h-5" />
+          Back
+        </button>
+        <h2 className="text-xl font-semibold text-gray-300">Batch edit &middot; {queue.items.length} {queue.items.length === 1 ? 'image' : 'images'}</h2>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="flex flex-col gap-3 text-sm text-gray-400">
+          <h3 className="text-lg font-semibold text-gray-300">1. Define the job</h3>
+          <textarea
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder="e.g., 'Replace the background with plain white'"
+            className={`${inputClass} h-24`}
+            disabled={locked}
+          />
+          <label className="flex flex-col gap-1">
+            <span>Negative prompt <span className="text-gray-500">(what to avoid)</span></span>
+            <input type="text" value={negativePrompt} onChange={(e) => setNegativePrompt(e.target.value)} className={inputClass} disabled={locked} />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Style</span>
+            <select value={style} onChange={(e) => setStyle(e.target.value)} className={inputClass} disabled={locked}>
+              {STYLES.map(option => <option key={option}>{option}</option>)}
+            </select>
+          </label>
+
+          <fieldset className="flex flex-col gap-2" disabled={locked}>
+            <legend className="mb-1">Mask</legend>
+            <label className="flex items-center gap-2"><input type="radio" checked={maskChoice === 'background'} onChange={() => setMaskChoice('background')} className="accent-purple-500" />Auto-mask the background</label>
+            <label className="flex items-center gap-2"><input type="radio" checked={maskChoice === 'subject'} onChange={() => setMaskChoice('subject')} className="accent-purple-500" />Auto-mask the subject</label>
+            <label className="flex items-center gap-2"><input type="radio" checked={maskChoice === 'rect'} onChange={() => setMaskChoice('rect')} className="accent-purple-500" />Fixed rectangle</label>
+            {maskChoice === 'rect' && (
+              <div className="grid grid-cols-4 gap-2 pl-6">
+                {(['x', 'y', 'width', 'height'] as const).map(key => (
+                  <label key={key} className="flex flex-col gap-1 text-xs capitalize">
+                    <span>{key} %</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={rect[key]}
+                      onChange={(e) => setRect({ ...rect, [key]: Math.min(100, Math.max(0, e.target.valueAsNumber || 0)) })}
+                      className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200"
+                    />
+                  </label>
+                ))}
+                {!rectValid && <p className="col-span-4 text-xs text-red-400">The rectangle must have a size and fit inside the image.</p>}
+              </div>
+            )}
+          </fieldset>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2">
+              <span>Resolution:</span>
+              <select
+                value={resolution}
+                onChange={(e) => setResolution(e.target.value === 'original' ? 'original' : Number(e.target.value) as WorkingResolution)}
+                className="bg-gray-700 rounded-md border border-gray-600 p-2 text-sm"
+                disabled={locked}
+              >
+                <option value={512}>512px</option>
+                <option value={1024}>1024px</option>
+                <option value={2048}>2048px</option>
+                <option value="original">Original</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <span>Upscale:</span>
+              <select
+                value={upscaleFactor ?? ''}
+                onChange={(e) => setUpscaleFactor(e.target.value ? Number(e.target.value) : null)}
+                className="bg-gray-700 rounded-md border border-gray-600 p-2 text-sm"
+                disabled={locked}
+              >
+                <option value="">None</option>
+                <option value={2}>2x</option>
+                <option value={4}>4x</option>
+              </select>
+              <select
+                value={upscaleMethod}
+                onChange={(e) => setUpscaleMethod(e.target.value as UpscaleMethod)}
+                className="bg-gray-700 rounded-md border border-gray-600 p-2 text-sm"
+                disabled={locked || !upscaleFactor}
+                aria-label="Upscale method"
+              >
+                <option value="local">Local (Lanczos)</option>
+                <option value="ai">AI upscale</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2" title="How many images are processed at the same time">
+              <span>Parallel:</span>
+              <select value={concurrency} onChange={(e) => setConcurrency(Number(e.target.value))} className="bg-gray-700 rounded-md border border-gray-600 p-2 text-sm">
+                {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+          </div>
+
+          {queue.isRunning ? (
+            <button onClick={queue.cancel} className="w-full bg-gray-700 text-gray-300 py-2 px-4 rounded-lg hover:bg-gray-600 border border-gray-600 transition-all">
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={handleStart}
+              disabled={!canStart}
+              className="w-full bg-gradient-to-r from-purple-600 to-pink-600 text-white font-bold py-2 px-4 rounded-lg hover:from-purple-700 hover:to-pink-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              title={isConfigured ? undefined : 'Configure a provider in Settings first'}
+            >
+              Run on {counts.queued} {counts.queued === 1 ? 'image' : 'images'}
+            </button>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-lg font-semibold text-gray-300">2. Queue</h3>
+            <div className="flex items-center gap-2 text-sm">
+              <label className="bg-gray-700 hover:bg-gray-600 text-gray-300 py-1 px-3 rounded-md cursor-pointer">
+                Add images
+                <input type="file" multiple accept="image/png, image/jpeg, image/webp" onChange={handleAddFiles} className="hidden" />
+              </label>
+              {counts.failed > 0 && !queue.isRunning && (
+                <button onClick={() => queue.retry()} className="bg-gray-700 hover:bg-gray-600 text-gray-300 py-1 px-3 rounded-md">
+                  Retry {counts.failed} failed
+                </button>
+              )}
+              <button
+                onClick={handleDownloadAll}
+                disabled={counts.done === 0 || isZipping}
+                className="flex items-center gap-1 bg-green-600 hover:bg-green-700 text-white py-1 px-3 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <DownloadIcon className="w-4 h-4" />
+                Download all (.zip)
+              </button>
+            </div>
+          </div>
+          <p className="text-xs text-gray-400" role="status">
+            {counts.done} done &middot; {counts.running} running &middot; {counts.queued} queued &middot; {counts.failed} failed
+          </p>
+          {error && <p className="text-red-400 text-sm" role="alert">{error}</p>}
+          <ul className="flex flex-col gap-2 max-h-[32rem] overflow-y-auto">
+            {queue.items.map(item => (
+              <li key={item.id} className="flex items-center gap-3 p-2 rounded-md border border-gray-700 bg-gray-900/50">
+                <ItemThumbnail file={item.result ?? item.file} name={item.file.name} />
+                <div className="flex-grow min-w-0">
+                  <p className="text-sm text-gray-200 truncate">{item.file.name}</p>
+                  <p className={`text-xs truncate ${item.status === 'failed' ? 'text-red-400' : item.notice ? 'text-yellow-300' : 'text-gray-400'}`} title={item.error ?? item.notice}>
+                    {item.status === 'running' && (item.stage ? STAGE_LABELS[item.stage] : 'Starting…')}
+                    {item.status === 'queued' && 'Queued'}
+                    {item.status === 'done' && (item.notice ?? 'Done')}
+                    {item.status === 'failed' && (item.error ?? 'Failed')}
+                  </p>
+                </div>
+                {item.status === 'running' && <Spinner />}
+                {item.status === 'failed' && !queue.isRunning && (
+                  <button onClick={() => queue.retry(item.id)} className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 py-1 px-2 rounded-md">Retry</button>
+                )}
+                {item.status === 'done' && (
+                  <button onClick={() => handleDownloadOne(item)} className="p-1 text-gray-400 hover:text-white" title="Download">
+                    <DownloadIcon className="w-4 h-4" />
+                  </button>
+                )}
+                <button onClick={() => queue.removeItem(item.id)} className="p-1 text-gray-400 hover:text-red-400" title="Remove from the batch">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchProcessor;
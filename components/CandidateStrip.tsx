@@ -0,0 +1,58 @@
+import React from 'react';
+import { EditCandidate } from '../types';
+
+interface CandidateStripProps {
+  candidates: EditCandidate[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onDiscard: (id: string) => void;
+  onKeep: (id: string) => void;
+  disabled?: boolean;
+}
+
+const CandidateStrip: React.FC<CandidateStripProps> = ({ candidates, selectedId, onSelect, onDiscard, onKeep, disabled = false }) => {
+  if (candidates.length < 2) return null;
+
+  return (
+    <div className="w-full bg-gray-900/50 p-3 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-400">Variations ({candidates.length})</h3>
+        {selectedId && (
+          <button
+            onClick={() => onKeep(selectedId)}
+            disabled={disabled}
+            className="text-xs bg-purple-600 hover:bg-purple-700 text-white py-1 px-2 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Keep the selected variation and discard the others"
+          >
+            Keep selected
+          </button>
+        )}
+      </div>
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {candidates.map((candidate, index) => (
+          <div key={candidate.id} className="relative flex-shrink-0">
+            <button
+              onClick={() => onSelect(candidate.id)}
+              disabled={disabled}
+              className={`block w-20 h-20 rounded-md overflow-hidden border-2 transition-colors disabled:cursor-not-allowed ${candidate.id === selectedId ? 'border-purple-500' : 'border-transparent hover:border-gray-500'}`}
+              title={`Variation ${index + 1}`}
+            >
+              <img src={candidate.editedImage} alt={`Variation ${index + 1}`} className="w-full h-full object-cover" />
+            </button>
+            <button
+              onClick={() => onDiscard(candidate.id)}
+              disabled={disabled}
+              className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-gray-800 border border-gray-600 text-gray-300 text-xs leading-none hover:bg-red-600 hover:text-white disabled:hidden"
+              title="Discard"
+              aria-label={`Discard variation ${index + 1}`}
+            >
+              &times;
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CandidateStrip;
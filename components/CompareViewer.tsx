@@ -0,0 +1,327 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { useViewTransform, ViewTransform } from '../hooks/useViewTransform';
+import { createCanvas, get2dContext, loadImage } from '../utils/imageUtils';
+import { computeDifference } from '../utils/diffUtils';
+
+export interface CompareSource {
+  id: string;
+  label: string;
+  image: string | Blob;
+  // What the heatmap diffs instead of `image`: for results, the provider's
+  // output before masking, since compositing restores everything outside.
+  diffImage?: string | Blob;
+  // The source this one was edited from and the mask of that edit, so the
+  // heatmap can flag changes outside the mask when the two are compared.
+  parentId?: string | null;
+  mask?: Blob | HTMLCanvasElement | null;
+}
+
+type CompareMode = 'split' | 'hold' | 'side-by-side' | 'difference';
+
+interface CompareViewerProps {
+  sources: CompareSource[];
+  beforeId: string;
+  afterId: string;
+}
+
+const MODES: { mode: CompareMode, label: string, title: string }[] = [
+  { mode: 'split', label: 'Split', title: 'Drag the divider to wipe between the two' },
+  { mode: 'hold', label: 'Hold', title: 'Shows the after image; hold the button to flip to before' },
+  { mode: 'side-by-side', label: 'Side by side', title: 'Both at once, zoomed and panned together' },
+  { mode: 'difference', label: 'Difference', title: 'Heatmap of changed pixels' },
+];
+
+// The heatmap is computed at no more than this size on the longer side.
+const MAX_DIFF_DIMENSION = 1024;
+
+interface DiffStats {
+  changed: number;
+  changedOutsideMask: number | null;
+}
+
+const formatPercent = (ratio: number) => `${(ratio * 100).toFixed(ratio < 0.01 ? 2 : 1)}%`;
+
+const contentStyle = (transform: ViewTransform): React.CSSProperties => ({
+  transform: `translate(${transform.offsetX}px, ${transform.offsetY}px) scale(${transform.zoom})`,
+});
+
+/**
+ * Compares any two images from the edit history: a draggable split, a hold
+ * to flip, synced side-by-side panes and a difference heatmap. Every mode
+ * shares one zoom and pan.
+ */
+const CompareViewer: React.FC<CompareViewerProps> = ({ sources, beforeId: initialBeforeId, afterId: initialAfterId }) => {
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [beforeId, setBeforeId] = useState(initialBeforeId);
+  const [afterId, setAfterId] = useState(initialAfterId);
+  const [split, setSplit] = useState(50);
+  const [isHolding, setIsHolding] = useState(false);
+  const [aspectRatio, setAspectRatio] = useState<number | null>(null);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [diffStats, setDiffStats] = useState<DiffStats | null>(null);
+  const [diffError, setDiffError] = useState<string | null>(null);
+
+  const primaryPaneRef = useRef<HTMLDivElement>(null);
+  const secondaryPaneRef = useRef<HTMLDivElement>(null);
+  const heatmapCanvasRef = useRef<HTMLCanvasElement>(null);
+  const view = useViewTransform(primaryPaneRef);
+
+  useEffect(() => {
+    setBeforeId(initialBeforeId);
+    setAfterId(initialAfterId);
+  }, [initialBeforeId, initialAfterId]);
+
+  useEffect(() => {
+    const created: string[] = [];
+    const next: Record<string, string> = {};
+    const urlFor = (image: string | Blob) => {
+      if (typeof image === 'string') return image;
+      const url = URL.createObjectURL(image);
+      created.push(url);
+      return url;
+    };
+    sources.forEach(source => {
+      next[source.id] = urlFor(source.image);
+      if (source.diffImage) next[`${source.id}:diff`] = urlFor(source.diffImage);
+    });
+    setUrls(next);
+    return () => created.forEach(url => URL.revokeObjectURL(url));
+  }, [sources]);
+
+  const before = sources.find(s => s.id === beforeId) ?? sources[0];
+  const after = sources.find(s => s.id === afterId) ?? sources[sources.length - 1];
+  const beforeUrl = before ? urls[before.id] : undefined;
+  const afterUrl = after ? urls[after.id] : undefined;
+  // The mask only explains the difference when `after` was edited directly from `before`.
+  const mask = after && before && after.parentId === before.id ? after.mask ?? null : null;
+  // With a mask to check against, diff the provider's own output where there is one.
+  const diffRaw = !!mask && !!after && !!urls[`${after.id}:diff`];
+  const diffUrl = diffRaw ? urls[`${after!.id}:diff`] : afterUrl;
+
+  useEffect(() => {
+    if (mode !== 'difference' || !beforeUrl || !diffUrl) return;
+    let cancelled = false;
+    setDiffStats(null);
+    setDiffError(null);
+    (async () => {
+      const [beforeImage, afterImage] = await Promise.all([loadImage(beforeUrl), loadImage(diffUrl)]);
+      // An extended canvas doesn't line up with the image it grew from.
+      const aspectOf = (image: HTMLImageElement) => image.naturalWidth / image.naturalHeight;
+      if (Math.abs(aspectOf(beforeImage) - aspectOf(afterImage)) > 0.01) {
+        if (!cancelled) setDiffError('These images have different proportions, so they can’t be compared pixel for pixel.');
+        return;
+      }
+      const scale = Math.min(1, MAX_DIFF_DIMENSION / Math.max(afterImage.naturalWidth, afterImage.naturalHeight));
+      const width = Math.max(1, Math.round(afterImage.naturalWidth * scale));
+      const height = Math.max(1, Math.round(afterImage.naturalHeight * scale));
+      const pixelsOf = async (source: CanvasImageSource | Blob): Promise<Uint8ClampedArray> => {
+        const drawable = source instanceof Blob ? await loadImage(URL.createObjectURL(source)) : source;
+        const ctx = get2dContext(createCanvas(width, height));
+        ctx.drawImage(drawable, 0, 0, width, height);
+        if (source instanceof Blob && drawable instanceof HTMLImageElement) URL.revokeObjectURL(drawable.src);
+        return ctx.getImageData(0, 0, width, height).data;
+      };
+      const result = computeDifference(await pixelsOf(beforeImage), await pixelsOf(afterImage), mask ? await pixelsOf(mask) : undefined);
+      const canvas = heatmapCanvasRef.current;
+      if (cancelled || !canvas) return;
+      canvas.width = width;
+      canvas.height = height;
+      const heatmap = get2dContext(canvas).createImageData(width, height);
+      heatmap.data.set(result.heatmap);
+      get2dContext(canvas).putImageData(heatmap, 0, 0);
+      setDiffStats({ changed: result.changed, changedOutsideMask: result.changedOutsideMask });
+    })().catch(() => {
+      if (!cancelled) setDiffError('Could not compare these images.');
+    });
+    return () => { cancelled = true; };
+  }, [mode, beforeUrl, diffUrl, mask]);
+
+  // The second pane mirrors the first, so its wheel zooms around the same spot in the first.
+  useEffect(() => {
+    const pane = secondaryPaneRef.current;
+    const primary = primaryPaneRef.current;
+    if (!pane || !primary) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const offset = pane.getBoundingClientRect();
+      const target = primary.getBoundingClientRect();
+      const delta = e.ctrlKey ? e.deltaY * 10 : e.deltaY;
+      view.zoomBy(Math.pow(1.0015, -delta), { x: e.clientX - offset.left + target.left, y: e.clientY - offset.top + target.top });
+    };
+    pane.addEventListener('wheel', handleWheel, { passive: false });
+    return () => pane.removeEventListener('wheel', handleWheel);
+  }, [mode, view.zoomBy]);
+
+  if (!before || !after) return null;
+
+  const paneHandlers = {
+    onMouseDown: (e: React.MouseEvent) => { if (e.button === 0) view.startPan(e.clientX, e.clientY); },
+    onMouseMove: (e: React.MouseEvent) => view.movePan(e.clientX, e.clientY),
+    onMouseUp: view.endPan,
+    onMouseLeave: view.endPan,
+    onTouchStart: (e: React.TouchEvent) => {
+      if (e.touches.length > 1) view.startGesture(e.touches);
+      else view.startPan(e.touches[0].clientX, e.touches[0].clientY);
+    },
+    onTouchMove: (e: React.TouchEvent) => {
+      if (e.touches.length > 1) view.moveGesture(e.touches);
+      else view.movePan(e.touches[0].clientX, e.touches[0].clientY);
+    },
+    onTouchEnd: () => {
+      view.endGesture();
+      view.endPan();
+    },
+  };
+
+  const paneClass = `relative w-full overflow-hidden rounded-md bg-gray-900 touch-none select-none ${view.isPanning ? 'cursor-grabbing' : 'cursor-grab'}`;
+  const paneStyle: React.CSSProperties = { aspectRatio: aspectRatio ?? 1 };
+  const imageClass = 'absolute top-0 left-0 w-full h-full object-contain pointer-events-none';
+  const pixelated = view.transform.zoom > 2 ? 'pixelated' as const : 'auto' as const;
+
+  const layer = (url: string | undefined, alt: string, extra?: React.CSSProperties, onLoad?: React.ReactEventHandler<HTMLImageElement>) => url && (
+    <div className="absolute inset-0" style={extra}>
+      <div className="relative w-full h-full origin-top-left" style={contentStyle(view.transform)}>
+        <img src={url} alt={alt} className={imageClass} style={{ imageRendering: pixelated }} onLoad={onLoad} draggable={false} />
+      </div>
+    </div>
+  );
+
+  const trackAspect: React.ReactEventHandler<HTMLImageElement> = (e) => {
+    const { naturalWidth, naturalHeight } = e.currentTarget;
+    if (naturalWidth > 0 && naturalHeight > 0) setAspectRatio(naturalWidth / naturalHeight);
+  };
+
+  const caption = (text: string, side: 'left' | 'right') => (
+    <span className={`absolute top-2 ${side === 'left' ? 'left-2' : 'right-2'} z-10 text-xs bg-gray-900/80 text-gray-200 px-2 py-0.5 rounded pointer-events-none`}>{text}</span>
+  );
+
+  const startSplitDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const moveSplit = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pane = primaryPaneRef.current;
+    if (!pane || !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const rect = pane.getBoundingClientRect();
+    setSplit(Math.min(100, Math.max(0, (e.clientX - rect.left) / rect.width * 100)));
+  };
+
+  const sourceSelect = (label: string, value: string, onChange: (id: string) => void) => (
+    <label className="flex items-center gap-2">
+      <span>{label}:</span>
+      <select value={value} onChange={(e) => onChange(e.target.value)} className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200">
+        {sources.map(source => <option key={source.id} value={source.id}>{source.label}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="w-full flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+        <div className="flex items-center rounded-md overflow-hidden border border-gray-600">
+          {MODES.map(option => (
+            <button
+              key={option.mode}
+              onClick={() => setMode(option.mode)}
+              className={`px-2 py-1 transition-colors ${mode === option.mode ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+              title={option.title}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {sourceSelect('Before', before.id, setBeforeId)}
+        {sourceSelect('After', after.id, setAfterId)}
+        <div className="flex items-center gap-1 ml-auto">
+          <button onClick={() => view.zoomBy(1 / 1.5)} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600" title="Zoom out">&minus;</button>
+          <span className="w-12 text-center tabular-nums">{Math.round(view.transform.zoom * 100)}%</span>
+          <button onClick={() => view.zoomBy(1.5)} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600" title="Zoom in (mouse wheel or pinch)">+</button>
+          <button onClick={view.fit} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600" title="Fit to view">Fit</button>
+        </div>
+      </div>
+
+      {/* The first pane stays mounted across modes so the zoom hook keeps its wheel listener. */}
+      <div className={`grid gap-2 ${mode === 'side-by-side' ? 'grid-cols-2' : 'grid-cols-1'}`}>
+        <div ref={primaryPaneRef} className={paneClass} style={paneStyle} {...paneHandlers}>
+          {mode === 'side-by-side' && (
+            <>
+              {layer(beforeUrl, before.label)}
+              {caption(before.label, 'left')}
+            </>
+          )}
+          {mode === 'split' && (
+            <>
+              {layer(beforeUrl, before.label)}
+              {layer(afterUrl, after.label, { clipPath: `inset(0 0 0 ${split}%)` }, trackAspect)}
+              <div
+                className="absolute top-0 bottom-0 z-10 w-4 -ml-2 cursor-ew-resize flex justify-center"
+                style={{ left: `${split}%` }}
+                onPointerDown={startSplitDrag}
+                onPointerMove={moveSplit}
+                onMouseDown={(e) => e.stopPropagation()}
+                onTouchStart={(e) => e.stopPropagation()}
+              >
+                <div className="w-0.5 h-full bg-white shadow" />
+                <div className="absolute top-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white text-gray-900 text-xs flex items-center justify-center shadow">&harr;</div>
+              </div>
+              {caption(before.label, 'left')}
+              {caption(after.label, 'right')}
+            </>
+          )}
+          {mode === 'hold' && (
+            <>
+              {layer(beforeUrl, before.label)}
+              {layer(afterUrl, after.label, { visibility: isHolding ? 'hidden' : 'visible' }, trackAspect)}
+              {caption(isHolding ? before.label : after.label, 'left')}
+            </>
+          )}
+          {mode === 'difference' && (
+            <>
+              {layer(afterUrl, after.label, { filter: 'grayscale(1) brightness(0.5)' }, trackAspect)}
+              <div className="absolute inset-0 pointer-events-none">
+                <div className="relative w-full h-full origin-top-left" style={contentStyle(view.transform)}>
+                  <canvas ref={heatmapCanvasRef} className="absolute top-0 left-0 w-full h-full" style={{ imageRendering: pixelated }} />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+        {mode === 'side-by-side' && (
+          <div ref={secondaryPaneRef} className={paneClass} style={paneStyle} {...paneHandlers}>
+            {layer(afterUrl, after.label, undefined, trackAspect)}
+            {caption(after.label, 'left')}
+          </div>
+        )}
+      </div>
+
+      {mode === 'hold' && (
+        <button
+          onPointerDown={() => setIsHolding(true)}
+          onPointerUp={() => setIsHolding(false)}
+          onPointerLeave={() => setIsHolding(false)}
+          onPointerCancel={() => setIsHolding(false)}
+          className="text-sm bg-gray-700 hover:bg-gray-600 text-gray-300 py-1 px-3 rounded-md select-none self-center"
+        >
+          Hold to see {before.label}
+        </button>
+      )}
+      {mode === 'difference' && (
+        <p className="text-xs text-gray-400" role="status">
+          {diffError ?? (diffStats ? (
+            <>
+              {formatPercent(diffStats.changed)} of pixels changed.
+              {diffStats.changedOutsideMask !== null && (
+                diffStats.changedOutsideMask > 0
+                  ? <span className="text-fuchsia-400"> {formatPercent(diffStats.changedOutsideMask)} changed outside the mask (magenta){diffRaw && ' by the provider; the result keeps the original there'}.</span>
+                  : diffRaw ? ' The provider changed nothing outside the mask.' : ' Nothing changed outside the mask.'
+              )}
+            </>
+          ) : 'Comparing…')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CompareViewer;
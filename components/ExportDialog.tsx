@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { loadImageFromFile } from '../utils/imageUtils';
+import { downloadBlob, EXPORT_FORMATS, ExportFormat, exportFileName, renderExport } from '../utils/exportUtils';
+import { EditProvenance, readExif, rebuildExif } from '../utils/metadata';
+import Spinner from './Spinner';
+import { DownloadIcon } from './Icons';
+
+interface ExportDialogProps {
+  // The image to export, at its full resolution.
+  image: Blob;
+  // The upload the image came from: its name and EXIF carry over.
+  sourceFile: File;
+  provenance: EditProvenance | null;
+  // Added to the upload's name, e.g. "edited" or "edited-4x".
+  fileSuffix: string;
+  onClose: () => void;
+}
+
+const MAX_EXPORT_DIMENSION = 16384;
+
+const clampDimension = (value: number) => Math.min(MAX_EXPORT_DIMENSION, Math.max(1, Math.round(value) || 1));
+
+/** Format, quality, size and metadata choices for downloading a result. */
+const ExportDialog: React.FC<ExportDialogProps> = ({ image, sourceFile, provenance, fileSuffix, onClose }) => {
+  // The image's own size; null until it has been decoded.
+  const [size, setSize] = useState<{ width: number, height: number } | null>(null);
+  // Undefined while the upload is still being read.
+  const [exif, setExif] = useState<Uint8Array | null | undefined>(undefined);
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [quality, setQuality] = useState(90);
+  const [width, setWidth] = useState(0);
+  const [height, setHeight] = useState(0);
+  const [keepTransparency, setKeepTransparency] = useState(true);
+  const [background, setBackground] = useState('#ffffff');
+  const [keepExif, setKeepExif] = useState(false);
+  const [embedProvenance, setEmbedProvenance] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImageFromFile(image)
+      .then(img => {
+        if (cancelled) return;
+        setSize({ width: img.naturalWidth, height: img.naturalHeight });
+        setWidth(img.naturalWidth);
+        setHeight(img.naturalHeight);
+      })
+      .catch(() => !cancelled && setError('The image could not be loaded for export.'));
+    readExif(sourceFile).then(data => !cancelled && setExif(data));
+    return () => { cancelled = true; };
+  }, [image, sourceFile]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const info = EXPORT_FORMATS[format];
+  const aspect = size ? size.width / size.height : 1;
+
+  const changeWidth = (value: number) => {
+    setWidth(clampDimension(value));
+    setHeight(clampDimension(value / aspect));
+  };
+
+  const changeHeight = (value: number) => {
+    setHeight(clampDimension(value));
+    setWidth(clampDimension(value * aspect));
+  };
+
+  const handleExport = async () => {
+    if (!size) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const blob = await renderExport(
+        image,
+        { format, quality: quality / 100, width, height, background: keepTransparency && info.alpha ? null : background },
+        { exif: keepExif && exif ? rebuildExif(exif) : null, provenance: embedProvenance ? provenance : null }
+      );
+      downloadBlob(blob, exportFileName(sourceFile.name, fileSuffix, format));
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export the image.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const inputClass = 'w-full p-2 bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-purple-500';
+
+  return (
+    <div className="fixed inset-0 z-30 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-title"
+        className="w-full max-w-md bg-gray-800 border border-gray-700 rounded-lg shadow-2xl p-5 flex flex-col gap-4 text-sm text-gray-300"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 id="export-title" className="text-lg font-semibold text-gray-200">Export image</h2>
+
+        <div className="grid grid-cols-4 gap-2">
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setFormat(key)}
+              className={`py-2 rounded-md transition-colors ${format === key ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+            >
+              {EXPORT_FORMATS[key].label}
+            </button>
+          ))}
+        </div>
+
+        {info.lossy && (
+          <label className="flex items-center gap-2">
+            <span className="w-16 flex-shrink-0">Quality:</span>
+            <input type="range" min={1} max={100} value={quality} onChange={(e) => setQuality(Number(e.target.value))} className="flex-grow accent-purple-500" />
+            <span className="w-10 text-right tabular-nums">{quality}</span>
+          </label>
+        )}
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1">
+            <label htmlFor="export-width" className="block text-gray-400 mb-1">Width</label>
+            <input id="export-width" type="number" min={1} max={MAX_EXPORT_DIMENSION} value={width} onChange={(e) => changeWidth(Number(e.target.value))} disabled={!size} className={inputClass} />
+          </div>
+          <span className="pb-2 text-gray-500">×</span>
+          <div className="flex-1">
+            <label htmlFor="export-height" className="block text-gray-400 mb-1">Height</label>
+            <input id="export-height" type="number" min={1} max={MAX_EXPORT_DIMENSION} value={height} onChange={(e) => changeHeight(Number(e.target.value))} disabled={!size} className={inputClass} />
+          </div>
+          <button
+            onClick={() => size && changeWidth(size.width)}
+            disabled={!size}
+            className="py-2 px-3 bg-gray-700 hover:bg-gray-600 rounded-md disabled:opacity-50"
+            title="Back to the image's own size"
+          >
+            1:1
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2" title={info.alpha ? undefined : `${info.label} has no transparency`}>
+            <input type="checkbox" checked={keepTransparency && info.alpha} disabled={!info.alpha} onChange={(e) => setKeepTransparency(e.target.checked)} className="accent-purple-500" />
+            Keep transparency
+          </label>
+          {!(keepTransparency && info.alpha) && (
+            <label className="flex items-center gap-2">
+              Background
+              <input type="color" value={background} onChange={(e) => setBackground(e.target.value)} className="w-8 h-8 bg-transparent" />
+            </label>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={keepExif && !!exif} disabled={!exif || !info.metadata} onChange={(e) => setKeepExif(e.target.checked)} className="accent-purple-500" />
+            Keep the original's EXIF (camera, date, location)
+          </label>
+          {exif === null && <p className="text-xs text-gray-500 -mt-1 ml-6">The uploaded file has no EXIF data.</p>}
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={embedProvenance && !!provenance} disabled={!provenance || !info.metadata} onChange={(e) => setEmbedProvenance(e.target.checked)} className="accent-purple-500" />
+            Record the prompt, model and date (XMP)
+          </label>
+          {!info.metadata && <p className="text-xs text-gray-500">{info.label} files are saved without metadata.</p>}
+        </div>
+
+        <p className="text-xs text-gray-500 truncate">{exportFileName(sourceFile.name, fileSuffix, format)}</p>
+        {error && <p className="text-red-400" role="alert">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="py-2 px-4 bg-gray-700 hover:bg-gray-600 rounded-lg">Cancel</button>
+          <button
+            onClick={handleExport}
+            disabled={!size || isExporting}
+            className="py-2 px-4 bg-green-600 hover:bg-green-700 text-white font-bold rounded-lg disabled:bg-gray-600 disabled:opacity-70 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            {isExporting ? <Spinner /> : <DownloadIcon className="w-5 h-5" />}
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
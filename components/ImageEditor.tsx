@@ -1,44 +1,166 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { editImageWithMask, upscaleImage, generateBackgroundMask } from '../services/geminiService';
-import { fileToBase64 } from '../utils/imageUtils';
-import { Point } from '../types';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { editImageWithMask, outpaintImage } from '../services/geminiService';
+import { budgetWarning } from '../services/usageLedger';
+import { isCancelledError } from '../services/errors';
+import { saveProject } from '../services/sessionStore';
+import { exportProjectFile, PROJECT_FILE_EXTENSION } from '../services/projectFile';
+import { loadImage, loadImageFromFile, canvasToBlob, createCanvas, get2dContext } from '../utils/imageUtils';
+import { combineMasks, createSoftMask, hasPaint, parseHexColor, recolorOverlayPixels } from '../utils/maskUtils';
+import { applySelection, applySelectionMask, selectionModeFromEvent, SelectionMode } from '../utils/selectionUtils';
+import { WandColorSpace } from '../utils/magicWand';
+import { polygonPath, toPath2D } from '../utils/pathUtils';
+import { compositeWithMask, placeResult } from '../utils/compositeUtils';
+import { prepareEditRequest } from '../utils/requestUtils';
+import { CanvasExpansion, MAX_OUTPAINT_DIMENSION, NO_EXPANSION, expandedSize, hasExpansion, prepareOutpaintRequest } from '../utils/outpaintUtils';
+import { EditProvenance } from '../utils/metadata';
+import { downloadBlob } from '../utils/exportUtils';
+import { DEFAULT_FEATHER_PX, STYLES } from '../utils/editOptions';
+import { EditCandidate, EditSettings, GeneratedEdit, MaskLayer, PendingEdit, Point, ProjectRecord, SavedMaskLayer, UpscaleMethod, WorkingResolution } from '../types';
+import { useMaskHistory } from '../hooks/useMaskHistory';
+import { useMaskLayers, createMaskLayer } from '../hooks/useMaskLayers';
+import { useVersionHistory } from '../hooks/useVersionHistory';
+import { useProviderState } from '../hooks/useProviderConfig';
+import { useViewTransform } from '../hooks/useViewTransform';
+import { usePathEditor } from '../hooks/usePathEditor';
+import { useMagicWand } from '../hooks/useMagicWand';
+import { useAutoMask } from '../hooks/useAutoMask';
+import { useBackgroundReplacement } from '../hooks/useBackgroundReplacement';
+import { useResultUpscale } from '../hooks/useResultUpscale';
+import { useMaskRefinement } from '../hooks/useMaskRefinement';
+import { useObjectUrl } from '../hooks/useObjectUrl';
 import Spinner from './Spinner';
-import { BrushIcon, EraserIcon, ResetIcon, DownloadIcon, BackIcon, ExpandIcon, AutoMaskIcon, RectangleIcon, CircleIcon, FillIcon } from './Icons';
+import VersionHistory from './VersionHistory';
+import CandidateStrip from './CandidateStrip';
+import CompareViewer, { CompareSource } from './CompareViewer';
+import Minimap from './Minimap';
+import MaskLayerPanel from './MaskLayerPanel';
+import MaskRefinePanel from './MaskRefinePanel';
+import OutpaintPanel from './OutpaintPanel';
+import ExportDialog from './ExportDialog';
+import BackgroundPanel from './BackgroundPanel';
+import AutoMaskPanel, { SegmentationEngine } from './AutoMaskPanel';
+import PromptPointsOverlay from './PromptPointsOverlay';
+import PathOverlay from './PathOverlay';
+import { BrushIcon, EraserIcon, ResetIcon, DownloadIcon, BackIcon, ExpandIcon, RectangleIcon, CircleIcon, FillIcon, UndoIcon, RedoIcon, LayersIcon, LassoIcon, PolygonIcon, PenIcon } from './Icons';
 
 interface ImageEditorProps {
   originalImage: File;
+  projectId: string;
+  // Saved state to pick up from when resuming a session.
+  restoredProject?: ProjectRecord | null;
   onReset: () => void;
 }
 
-type Tool = 'brush' | 'eraser' | 'rectangle' | 'circle' | 'fill';
+// Work that can be in flight at the same time, each with its own controller.
+// `segmentation` runs on the device: cancelling it only discards the result.
+type RequestKind = 'edit' | 'mask' | 'segmentation' | 'upscale';
+type Tool = 'brush' | 'eraser' | 'rectangle' | 'circle' | 'fill' | 'lasso' | 'polygon' | 'pen' | 'object' | 'points';
+// Which pixels the magic wand compares: the image being masked, the upload, or the latest result.
+type WandSource = 'image' | 'original' | 'result';
+
+interface LayerStep {
+  layer: MaskLayer;
+  canvas: HTMLCanvasElement;
+}
+
+// One variation partway through the layer passes: the composited result and the unmasked provider output.
+interface Branch<Image = HTMLImageElement | HTMLCanvasElement> {
+  result: Image;
+  raw: Image;
+}
 
 const MAX_DIMENSION = 1024;
+const AUTOSAVE_DELAY_MS = 800;
+const THUMBNAIL_SIZE = 160;
+// Grab distance for path nodes, in screen pixels.
+const PATH_HANDLE_RADIUS = 6;
 
-const ImageEditor: React.FC<ImageEditorProps> = ({ originalImage, onReset }) => {
-  const [prompt, setPrompt] = useState('');
-  const [negativePrompt, setNegativePrompt] = useState('');
-  const [style, setStyle] = useState('Default');
-  const [editedImage, setEditedImage] = useState<string | null>(null);
+const ImageEditor: React.FC<ImageEditorProps> = ({ originalImage, projectId, restoredProject, onReset }) => {
+  const [negativePrompt, setNegativePrompt] = useState(restoredProject?.settings.negativePrompt ?? '');
+  const [style, setStyle] = useState(restoredProject?.settings.style ?? 'Default');
+  const [editedImage, setEditedImage] = useState<string | null>(restoredProject?.candidates[0]?.editedImage ?? null);
+  const [fullResImage, setFullResImage] = useState<Blob | null>(restoredProject?.candidates[0]?.fullResImage ?? null);
+  const [featherRadius, setFeatherRadius] = useState(DEFAULT_FEATHER_PX);
+  const [workingResolution, setWorkingResolution] = useState<WorkingResolution>(1024);
+  const [cropToMask, setCropToMask] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [brushSize, setBrushSize] = useState(40);
-  const [brushOpacity, setBrushOpacity] = useState(0.7);
+  // Display opacity of the mask overlay; painted alpha is the mask strength itself.
+  const [overlayOpacity, setOverlayOpacity] = useState(0.7);
+  // Default combine mode for selection tools; Shift/Alt override it per gesture.
+  const [selectionMode, setSelectionMode] = useState<SelectionMode>('add');
   const [activeTool, setActiveTool] = useState<Tool>('brush');
-  const [isMasking, setIsMasking] = useState(false);
+  const [wandTolerance, setWandTolerance] = useState(20);
+  const [wandColorSpace, setWandColorSpace] = useState<WandColorSpace>('rgb');
+  const [wandContiguous, setWandContiguous] = useState(true);
+  const [wandSource, setWandSource] = useState<WandSource>('image');
+  const [isWandRunning, setIsWandRunning] = useState(false);
+  // Natural size of the base image, which canvas extension is measured against.
+  const [sourceSize, setSourceSize] = useState<{ width: number, height: number } | null>(null);
+  const [expansion, setExpansion] = useState<CanvasExpansion>(NO_EXPANSION);
+  const [outpaintPrompt, setOutpaintPrompt] = useState('');
   
-  const [upscaleFactor, setUpscaleFactor] = useState(2);
-  const [isUpscaling, setIsUpscaling] = useState(false);
-  const [upscaledImage, setUpscaledImage] = useState<string | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [upscaledImage, setUpscaledImage] = useState<Blob | null>(restoredProject?.candidates[0]?.upscaled?.image ?? null);
+  const upscaledUrl = useObjectUrl(upscaledImage);
+  const [variationCount, setVariationCount] = useState(1);
+  const [candidates, setCandidates] = useState<EditCandidate[]>(restoredProject?.candidates ?? []);
+  const [selectedCandidateId, setSelectedCandidateId] = useState<string | null>(restoredProject?.candidates[0]?.id ?? null);
+  // Bumped whenever the painted mask changes, to trigger an autosave.
+  const [maskRevision, setMaskRevision] = useState(0);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  // Mask and settings behind the results shown, kept (and saved) for "use as new base".
+  const [lastEdit, setLastEdit] = useState<PendingEdit | null>(restoredProject?.lastEdit ?? null);
 
   const imageCanvasRef = useRef<HTMLCanvasElement>(null);
   const drawingCanvasRef = useRef<HTMLCanvasElement>(null);
+  const layerPreviewCanvasRef = useRef<HTMLCanvasElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const brushCursorRef = useRef<HTMLDivElement>(null);
+  // The decoded base image at its natural size, used to re-apply edits at full resolution.
+  const sourceImageRef = useRef<HTMLImageElement | null>(null);
+  // One controller per kind of request: starting a request only cancels an
+  // earlier one of the same kind, and Cancel stops all of them.
+  const requestControllersRef = useRef(new Map<RequestKind, AbortController>());
+  // Layers to start from: the saved ones, or a single layer holding the mask of a session saved before layers existed.
+  const [initialLayers] = useState<SavedMaskLayer[] | undefined>(() => {
+    if (!restoredProject) return undefined;
+    if (restoredProject.layers && restoredProject.layers.length > 0) return restoredProject.layers;
+    return [{ ...createMaskLayer(0, restoredProject.settings.prompt), mask: restoredProject.mask }];
+  });
+  // Saved overlays to paint back once the canvas has been sized for the restored image.
+  const pendingLayersRef = useRef<SavedMaskLayer[] | null>(initialLayers ?? null);
+  const createdAtRef = useRef(restoredProject?.createdAt ?? Date.now());
 
   const isDrawing = useRef(false);
   const lastPoint = useRef<Point | null>(null);
   const shapeStartPoint = useRef<Point | null>(null);
   const canvasSnapshot = useRef<ImageData | null>(null);
+  const lassoPoints = useRef<Point[]>([]);
+  // Combine mode of the shape or lasso being dragged, fixed when the gesture starts.
+  const gestureMode = useRef<SelectionMode>('add');
+  // Counts every change to the mask, so a selection by description can tell whether it is still the latest edit.
+  const maskChangeCount = useRef(0);
+
+  const maskLayers = useMaskLayers(
+    drawingCanvasRef,
+    layerPreviewCanvasRef,
+    initialLayers ? { layers: initialLayers, activeLayerId: restoredProject?.activeLayerId } : undefined
+  );
+  const activeLayer = maskLayers.activeLayer;
+  // The prompt box edits whichever layer is active.
+  const prompt = activeLayer.prompt;
+  const setPrompt = (value: string) => maskLayers.updateLayer(activeLayer.id, { prompt: value });
+  const maskHistory = useMaskHistory(drawingCanvasRef, activeLayer.id);
+  const view = useViewTransform(viewportRef);
+  const versionHistory = useVersionHistory(originalImage, restoredProject ?? undefined);
+  const baseImage = versionHistory.activeVersion.image;
+  const { config: providerConfig, isConfigured: isProviderConfigured } = useProviderState();
+  const selectMagicWand = useMagicWand();
 
-  const resizeImage = (img: HTMLImageElement): { width: number, height: number } => {
+  const resizeImage = (img: { width: number, height: number }): { width: number, height: number } => {
     const { width, height } = img;
     if (width > MAX_DIMENSION || height > MAX_DIMENSION) {
         if (width > height) {
@@ -51,9 +173,10 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ originalImage, onReset }) =>
   };
 
   const drawImageOnCanvas = useCallback(() => {
-    const img = new Image();
-    img.src = URL.createObjectURL(originalImage);
-    img.onload = () => {
+    loadImageFromFile(baseImage).then(img => {
+        sourceImageRef.current = img;
+        setSourceSize({ width: img.naturalWidth, height: img.naturalHeight });
+        setExpansion(NO_EXPANSION);
         const { width, height } = resizeImage(img);
         
         [imageCanvasRef, drawingCanvasRef].forEach(ref => {
@@ -67,14 +190,188 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ originalImage, onReset }) =>
         if (imageCtx) {
             imageCtx.drawImage(img, 0, 0, width, height);
         }
-    };
-    img.onerror = () => setError("Failed to load image.");
-  }, [originalImage]);
+        maskLayers.resizeLayers(width, height);
+        maskHistory.reset();
+        view.fit();
+
+        const pendingLayers = pendingLayersRef.current;
+        if (pendingLayers) {
+            return maskLayers.restoreLayerMasks(pendingLayers).finally(() => {
+                pendingLayersRef.current = null;
+            });
+        }
+    }).then(() => {
+        // The autosave skips while the image loads; run it again now that it has.
+        setMaskRevision(r => r + 1);
+    }).catch(() => setError("Failed to load image."));
+  }, [baseImage, maskHistory.reset, maskLayers.resizeLayers, maskLayers.restoreLayerMasks, view.fit]);
 
   useEffect(() => {
     drawImageOnCanvas();
   }, [drawImageOnCanvas]);
 
+  useEffect(() => () => requestControllersRef.current.forEach(controller => controller.abort()), []);
+
+  const markMaskChanged = () => {
+    maskChangeCount.current++;
+    setMaskRevision(r => r + 1);
+  };
+
+  const maskRefinement = useMaskRefinement({
+    drawingCanvasRef,
+    layerId: activeLayer.id,
+    color: activeLayer.color,
+    maskRevision,
+    recordHistory: maskHistory.record,
+    onMaskChanged: markMaskChanged,
+  });
+
+  const handleUndo = useCallback(() => {
+    maskHistory.undo();
+    markMaskChanged();
+  }, [maskHistory.undo]);
+
+  const handleRedo = useCallback(() => {
+    maskHistory.redo();
+    markMaskChanged();
+  }, [maskHistory.redo]);
+
+  /** Snapshot of the whole working session, or null until the canvas is ready. */
+  const buildProjectRecord = async (): Promise<ProjectRecord | null> => {
+    const imageCanvas = imageCanvasRef.current;
+    const drawingCanvas = drawingCanvasRef.current;
+    // Skip until the image (and any restored mask) is actually on the canvas.
+    if (!imageCanvas || !drawingCanvas || !sourceImageRef.current || pendingLayersRef.current) return null;
+    const flattened = maskLayers.flattenLayers() ?? drawingCanvas;
+
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(imageCanvas.width, imageCanvas.height));
+    const thumbnailCanvas = document.createElement('canvas');
+    thumbnailCanvas.width = Math.round(imageCanvas.width * scale);
+    thumbnailCanvas.height = Math.round(imageCanvas.height * scale);
+    thumbnailCanvas.getContext('2d')?.drawImage(imageCanvas, 0, 0, thumbnailCanvas.width, thumbnailCanvas.height);
+
+    const [mask, thumbnail, layers] = await Promise.all([
+        canvasToBlob(flattened),
+        canvasToBlob(thumbnailCanvas, 'image/jpeg', 0.8),
+        maskLayers.saveLayers(),
+    ]);
+    return {
+        id: projectId,
+        name: originalImage.name,
+        createdAt: createdAtRef.current,
+        updatedAt: Date.now(),
+        original: originalImage,
+        versions: versionHistory.versions,
+        activeVersionId: versionHistory.activeVersion.id,
+        mask,
+        layers,
+        activeLayerId: activeLayer.id,
+        settings: { prompt, negativePrompt, style },
+        candidates,
+        lastEdit: lastEdit ?? undefined,
+        thumbnail,
+    };
+  };
+
+  // Autosave the working session shortly after anything worth keeping changes.
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+        try {
+            const record = await buildProjectRecord();
+            if (record) {
+                await saveProject(record);
+            }
+        } catch (err) {
+            console.error("Failed to save session:", err);
+        }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projectId, originalImage, maskLayers.layers, activeLayer.id, negativePrompt, style, candidates, lastEdit, versionHistory.versions, versionHistory.activeVersion.id, maskRevision]);
+
+  const handleExportProject = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+        const record = await buildProjectRecord();
+        if (!record) {
+            setError("The image is still loading.");
+            return;
+        }
+        const archive = await exportProjectFile(record);
+        downloadBlob(archive, `${originalImage.name.replace(/\.[^.]+$/, '')}${PROJECT_FILE_EXTENSION}`);
+    } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to export the project.');
+    } finally {
+        setIsExporting(false);
+    }
+  };
+
+  const startRequest = (kind: RequestKind): AbortSignal => {
+    requestControllersRef.current.get(kind)?.abort();
+    const controller = new AbortController();
+    requestControllersRef.current.set(kind, controller);
+    return controller.signal;
+  };
+
+  const handleCancel = () => {
+    requestControllersRef.current.forEach(controller => controller.abort());
+    requestControllersRef.current.clear();
+  };
+
+  // Cancelling is the user's own choice, so it isn't reported as an error.
+  const reportError = (err: unknown, fallback: string) => {
+    if (isCancelledError(err)) return;
+    setError(err instanceof Error ? err.message : fallback);
+  };
+
+  const autoMask = useAutoMask({
+    imageCanvasRef,
+    drawingCanvasRef,
+    image: baseImage,
+    activeLayer,
+    getLayerCanvas: maskLayers.getLayerCanvas,
+    recordHistory: maskHistory.record,
+    onMaskChanged: markMaskChanged,
+    maskChangeCount,
+    startRequest,
+    setError,
+    reportError,
+  });
+
+  const upscaling = useResultUpscale({
+    editedImage,
+    fullResImage,
+    isEditing: isLoading,
+    startRequest,
+    setError,
+    reportError,
+    onUpscaled: result => {
+        setUpscaledImage(result.image);
+        setCandidates(prev => prev.map(c => c.id === selectedCandidateId ? { ...c, upscaled: result } : c));
+    },
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement | null;
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+        if (!(e.ctrlKey || e.metaKey)) return;
+
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+            e.preventDefault();
+            handleUndo();
+        } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+            e.preventDefault();
+            handleRedo();
+        }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // The bounding rect already reflects the zoom/pan transform, so this maps
+  // screen points to canvas pixels at any view scale.
   const getMousePos = (canvas: HTMLCanvasElement, e: MouseEvent | TouchEvent): Point => {
     const rect = canvas.getBoundingClientRect();
     const touch = 'touches' in e ? e.touches[0] : e;
@@ -84,6 +381,11 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ originalImage, onReset }) =>
     };
   };
 
+  const overlayColor = (alpha: number): string => {
+    const [r, g, b] = parseHexColor(activeLayer.color);
+    return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+  };
+
   const drawLine = (start: Point, end: Point) => {
     const ctx = drawingCanvasRef.current?.getContext('2d');
     if (!ctx) return;
@@ -92,7 +394,7 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ originalImage, onReset }) =>
     ctx.lineCap = 'round';
     ctx.lineWidth = brushSize;
     ctx.globalCompositeOperation = activeTool === 'eraser' ? 'destination-out' : 'source-over';
-    ctx.strokeStyle = `rgba(192, 132, 252, ${brushOpacity})`;
+    ctx.strokeStyle = overlayColor(1);
     
     ctx.beginPath();
     ctx.moveTo(start.x, start.y);
@@ -101,106 +403,178 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ originalImage, onReset }) =>
   };
   
   const drawShape = (start: Point, end: Point) => {
-    const ctx = drawingCanvasRef.current?.getContext('2d');
-    if (!ctx) return;
-
-    ctx.globalCompositeOperation = 'source-over';
-    ctx.fillStyle = `rgba(192, 132, 252, ${brushOpacity})`;
-    ctx.strokeStyle = `rgba(192, 132, 252, ${brushOpacity})`;
-    ctx.lineWidth = 2; // for outline if needed
+    const canvas = drawingCanvasRef.current;
+    if (!canvas) return;
 
     const width = end.x - start.x;
     const height = end.y - start.y;
+    const shape = new Path2D();
 
     if (activeTool === 'rectangle') {
-        ctx.fillRect(start.x, start.y, width, height);
+        shape.rect(start.x, start.y, width, height);
     } else if (activeTool === 'circle') {
         const radiusX = Math.abs(width) / 2;
         const radiusY = Math.abs(height) / 2;
         const centerX = start.x + width / 2;
         const centerY = start.y + height / 2;
-        
-        ctx.beginPath();
-        ctx.ellipse(centerX, centerY, radiusX, radiusY, 0, 0, 2 * Math.PI);
-        ctx.fill();
+        shape.ellipse(centerX, centerY, radiusX, radiusY, 0, 0, 2 * Math.PI);
     }
+    applySelection(canvas, shape, gestureMode.current, activeLayer.color);
   };
 
-  const floodFill = (startPos: Point) => {
-    const imageCanvas = imageCanvasRef.current;
-    const drawingCanvas = drawingCanvasRef.current;
-    if (!imageCanvas || !drawingCanvas) return;
+  const drawLassoOutline = (points: Point[]) => {
+    const ctx = drawingCanvasRef.current?.getContext('2d');
+    if (!ctx || points.length < 2) return;
+    ctx.save();
+    ctx.strokeStyle = 'white';
+    ctx.lineWidth = 1.5 * canvasPixelsPerScreenPixel();
+    ctx.setLineDash([6, 4].map(d => d * canvasPixelsPerScreenPixel()));
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+    ctx.stroke();
+    ctx.restore();
+  };
 
-    const imageCtx = imageCanvas.getContext('2d', { willReadFrequently: true });
-    const drawingCtx = drawingCanvas.getContext('2d');
-    if (!imageCtx || !drawingCtx) return;
+  const canvasPixelsPerScreenPixel = (): number => {
+    const canvas = drawingCanvasRef.current;
+    if (!canvas || canvas.clientWidth === 0) return 1;
+    return canvas.width / (canvas.clientWidth * view.transform.zoom);
+  };
 
-    const { width, height } = imageCanvas;
-    const startX = Math.floor(startPos.x);
-    const startY = Math.floor(startPos.y);
+  const pathEditor = usePathEditor((path, mode) => {
+    const canvas = drawingCanvasRef.current;
+    if (!canvas) return;
+    maskHistory.record();
+    applySelection(canvas, toPath2D(path), mode, activeLayer.color);
+    markMaskChanged();
+  });
 
-    const imageData = imageCtx.getImageData(0, 0, width, height);
-    const drawingImageData = drawingCtx.getImageData(0, 0, width, height);
-    
-    const pixelStack = [[startX, startY]];
-    const startIdx = (startY * width + startX) * 4;
-    const startR = imageData.data[startIdx];
-    const startG = imageData.data[startIdx + 1];
-    const startB = imageData.data[startIdx + 2];
-    
-    const fillColor = [192, 132, 252, Math.round(255 * brushOpacity)];
-    const tolerance = 30;
+  // An unfinished path only makes sense while its tool is selected.
+  useEffect(() => {
+    if (activeTool !== 'polygon' && activeTool !== 'pen') {
+        pathEditor.discard();
+    }
+  }, [activeTool, pathEditor.discard]);
 
-    const visited = new Uint8Array(width * height);
+  // The upload only lines up with the canvas while the base is still its size; outpainting changes that.
+  const [originalSize, setOriginalSize] = useState<{ width: number, height: number } | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    loadImageFromFile(originalImage)
+        .then(img => { if (!cancelled) setOriginalSize({ width: img.naturalWidth, height: img.naturalHeight }); })
+        .catch(() => { /* The editor reports an unreadable upload when it loads the base. */ });
+    return () => { cancelled = true; };
+  }, [originalImage]);
+  const canSampleOriginal = !!originalSize && !!sourceSize
+    && originalSize.width === sourceSize.width && originalSize.height === sourceSize.height;
 
-    while (pixelStack.length > 0) {
-        const [x, y] = pixelStack.pop()!;
-        
-        if (x < 0 || x >= width || y < 0 || y >= height) continue;
-        
-        const visitedIdx = y * width + x;
-        if (visited[visitedIdx]) continue;
-        visited[visitedIdx] = 1;
+  useEffect(() => {
+    if (!canSampleOriginal && wandSource === 'original') {
+        setWandSource('image');
+    }
+  }, [canSampleOriginal, wandSource]);
 
-        const currentIdx = visitedIdx * 4;
-        
-        // Skip if already masked
-        if (drawingImageData.data[currentIdx + 3] > 0) continue;
-
-        const r = imageData.data[currentIdx];
-        const g = imageData.data[currentIdx + 1];
-        const b = imageData.data[currentIdx + 2];
-
-        if (Math.abs(r - startR) <= tolerance && Math.abs(g - startG) <= tolerance && Math.abs(b - startB) <= tolerance) {
-            drawingImageData.data[currentIdx] = fillColor[0];
-            drawingImageData.data[currentIdx + 1] = fillColor[1];
-            drawingImageData.data[currentIdx + 2] = fillColor[2];
-            drawingImageData.data[currentIdx + 3] = fillColor[3];
-            
-            pixelStack.push([x + 1, y]);
-            pixelStack.push([x - 1, y]);
-            pixelStack.push([x, y + 1]);
-            pixelStack.push([x, y - 1]);
-        }
+  const readWandPixels = async (width: number, height: number): Promise<Uint8ClampedArray> => {
+    const imageCanvas = imageCanvasRef.current;
+    // With no result to sample, fall back to the image on the canvas.
+    if ((wandSource === 'image' || !editedImage) && wandSource !== 'original' && imageCanvas) {
+        const ctx = imageCanvas.getContext('2d', { willReadFrequently: true });
+        if (ctx) return ctx.getImageData(0, 0, width, height).data;
     }
-    
-    drawingCtx.putImageData(drawingImageData, 0, 0);
-};
+    const source = wandSource === 'result' && editedImage ? await loadImage(editedImage) : await loadImageFromFile(originalImage);
+    const canvas = createCanvas(width, height);
+    const ctx = get2dContext(canvas);
+    ctx.drawImage(source, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height).data;
+  };
+
+  const magicWandFill = async (startPos: Point, mode: SelectionMode) => {
+    const drawingCanvas = drawingCanvasRef.current;
+    if (!drawingCanvas) return;
+    const { width, height } = drawingCanvas;
+    const layerId = activeLayer.id;
+    const color = activeLayer.color;
+
+    setIsWandRunning(true);
+    try {
+        const pixels = await readWandPixels(width, height);
+        const selection = await selectMagicWand({
+            pixels,
+            width,
+            height,
+            x: startPos.x,
+            y: startPos.y,
+            options: { tolerance: wandTolerance, colorSpace: wandColorSpace, contiguous: wandContiguous },
+        });
+        // Drop the result if the layer was switched or the canvas resized while it ran.
+        if (maskLayers.getLayerCanvas(layerId) !== drawingCanvas || drawingCanvas.width !== width || drawingCanvas.height !== height) return;
+        maskHistory.record();
+        applySelectionMask(drawingCanvas, selection, mode, color);
+        markMaskChanged();
+    } catch (err) {
+        setError(err instanceof Error ? err.message : 'Magic wand selection failed.');
+    } finally {
+        setIsWandRunning(false);
+    }
+  };
+
+  const cancelStroke = () => {
+    if (isDrawing.current) {
+        maskHistory.cancel();
+    }
+    isDrawing.current = false;
+    lastPoint.current = null;
+    shapeStartPoint.current = null;
+    canvasSnapshot.current = null;
+    lassoPoints.current = [];
+  };
 
   const handleMouseDown = (e: React.MouseEvent | React.TouchEvent) => {
+    // Space-drag and middle-button drag pan the view; let the viewport handle them.
+    if (view.isSpaceHeld || ('button' in e && e.button !== 0)) return;
+    // Painting under a refinement preview would be hidden and then overwritten.
+    if (maskRefinement.operation) return;
+    if ('touches' in e && e.touches.length > 1) {
+        cancelStroke();
+        view.startGesture(e.touches);
+        return;
+    }
     const pos = getMousePos(drawingCanvasRef.current!, e.nativeEvent);
     
+    if (activeTool === 'polygon' || activeTool === 'pen') {
+        pathEditor.pointerDown(pos, activeTool, selectionModeFromEvent(e, selectionMode), PATH_HANDLE_RADIUS * canvasPixelsPerScreenPixel());
+        return;
+    }
+
+    if (activeTool === 'points') {
+        autoMask.togglePromptPoint(pos, !e.altKey, PATH_HANDLE_RADIUS * canvasPixelsPerScreenPixel() * 1.5);
+        return;
+    }
+
+    if (activeTool === 'object') {
+        if (!autoMask.isMasking && !isLoading && !upscaling.isUpscaling) {
+            void autoMask.pickObject(pos, selectionModeFromEvent(e, selectionMode));
+        }
+        return;
+    }
+
     if (activeTool === 'fill') {
-        floodFill(pos);
+        if (!isWandRunning) {
+            void magicWandFill(pos, selectionModeFromEvent(e, selectionMode));
+        }
         return;
     }
     
+    maskHistory.record();
     isDrawing.current = true;
     
     if (activeTool === 'brush' || activeTool === 'eraser') {
         lastPoint.current = pos;
-    } else if (activeTool === 'rectangle' || activeTool === 'circle') {
+    } else if (activeTool === 'rectangle' || activeTool === 'circle' || activeTool === 'lasso') {
         shapeStartPoint.current = pos;
+        lassoPoints.current = [pos];
+        gestureMode.current = selectionModeFromEvent(e, selectionMode);
         const ctx = drawingCanvasRef.current?.getContext('2d');
         if (ctx) {
             canvasSnapshot.current = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
@@ -209,6 +583,14 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ originalImage, onReset }) =>
   };
 
   const handleMouseMove = (e: React.MouseEvent | React.TouchEvent) => {
+    if ('touches' in e && e.touches.length > 1) {
+        view.moveGesture(e.touches);
+        return;
+    }
+    if (activeTool === 'polygon' || activeTool === 'pen') {
+        pathEditor.pointerMove(getMousePos(drawingCanvasRef.current!, e.nativeEvent));
+        return;
+    }
     if (!isDrawing.current) return;
     const currentPos = getMousePos(drawingCanvasRef.current!, e.nativeEvent);
 
@@ -225,16 +607,86 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ originalImage, onReset }) =>
                 drawShape(shapeStartPoint.current, currentPos);
             }
         }
+    } else if (activeTool === 'lasso') {
+        const ctx = drawingCanvasRef.current?.getContext('2d');
+        if (ctx && canvasSnapshot.current) {
+            lassoPoints.current.push(currentPos);
+            ctx.putImageData(canvasSnapshot.current, 0, 0);
+            drawLassoOutline(lassoPoints.current);
+        }
     }
   };
 
   const handleMouseUp = () => {
+    pathEditor.pointerUp();
+    if (isDrawing.current && activeTool === 'lasso') {
+        const canvas = drawingCanvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (canvas && ctx && canvasSnapshot.current) {
+            ctx.putImageData(canvasSnapshot.current, 0, 0);
+            if (lassoPoints.current.length >= 3) {
+                applySelection(canvas, toPath2D(polygonPath(lassoPoints.current)), gestureMode.current, activeLayer.color);
+            }
+        }
+        lassoPoints.current = [];
+    }
+    if (isDrawing.current) {
+        markMaskChanged();
+    }
     isDrawing.current = false;
     lastPoint.current = null;
     shapeStartPoint.current = null;
     canvasSnapshot.current = null;
   };
   
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (e.touches.length < 2) {
+        view.endGesture();
+    }
+    handleMouseUp();
+  };
+
+  const handleViewportMouseDown = (e: React.MouseEvent) => {
+    if (view.isSpaceHeld || e.button === 1) {
+        e.preventDefault();
+        view.startPan(e.clientX, e.clientY);
+    }
+  };
+
+  const updateBrushCursor = (e: React.MouseEvent) => {
+    const cursor = brushCursorRef.current;
+    const viewport = viewportRef.current;
+    const canvas = drawingCanvasRef.current;
+    if (!cursor || !viewport || !canvas) return;
+    const showOutline = (activeTool === 'brush' || activeTool === 'eraser') && !view.isSpaceHeld && !view.isPanning;
+    if (!showOutline || canvas.width === 0) {
+        cursor.style.display = 'none';
+        return;
+    }
+    const viewportRect = viewport.getBoundingClientRect();
+    // Brush size is in canvas pixels; convert to on-screen pixels at the current zoom.
+    const diameter = brushSize * canvas.getBoundingClientRect().width / canvas.width;
+    cursor.style.display = 'block';
+    cursor.style.width = `${diameter}px`;
+    cursor.style.height = `${diameter}px`;
+    cursor.style.left = `${e.clientX - viewportRect.left - diameter / 2}px`;
+    cursor.style.top = `${e.clientY - viewportRect.top - diameter / 2}px`;
+  };
+
+  const handleViewportMouseMove = (e: React.MouseEvent) => {
+    if (view.isPanning) {
+        view.movePan(e.clientX, e.clientY);
+    }
+    updateBrushCursor(e);
+  };
+
+  const handleViewportMouseLeave = () => {
+    view.endPan();
+    if (brushCursorRef.current) {
+        brushCursorRef.current.style.display = 'none';
+    }
+  };
+
   const clearDrawing = () => {
     const canvas = drawingCanvasRef.current;
     const ctx = canvas?.getContext('2d');
@@ -243,150 +695,381 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ originalImage, onReset }) =>
     }
   };
 
-  const handleAutoMask = async () => {
-    setIsMasking(true);
-    setError(null);
-    try {
-        const originalImageBase64 = await fileToBase64(originalImage);
-        const maskBase64 = await generateBackgroundMask(originalImageBase64, originalImage.type);
-
-        const maskImage = new Image();
-        maskImage.src = `data:image/png;base64,${maskBase64}`;
-        maskImage.onload = () => {
-            const canvas = drawingCanvasRef.current;
-            const ctx = canvas?.getContext('2d');
-            if (!canvas || !ctx) {
-                setError("Drawing canvas not available.");
-                setIsMasking(false);
-                return;
-            }
-
-            const tempCanvas = document.createElement('canvas');
-            tempCanvas.width = canvas.width;
-            tempCanvas.height = canvas.height;
-            const tempCtx = tempCanvas.getContext('2d');
-            if (!tempCtx) {
-                setError("Could not create temp canvas context.");
-                setIsMasking(false);
-                return;
-            }
-
-            tempCtx.drawImage(maskImage, 0, 0, tempCanvas.width, tempCanvas.height);
-            
-            const imageData = tempCtx.getImageData(0, 0, tempCanvas.width, tempCanvas.height);
-            const data = imageData.data;
-            for (let i = 0; i < data.length; i += 4) {
-                const isWhite = data[i] > 200 && data[i + 1] > 200 && data[i + 2] > 200;
-                if (isWhite) {
-                    data[i] = 192;
-                    data[i+1] = 132;
-                    data[i+2] = 252;
-                    data[i+3] = 255 * brushOpacity;
-                } else {
-                    data[i+3] = 0;
-                }
-            }
-            tempCtx.putImageData(imageData, 0, 0);
+  const handleClearMask = () => {
+    maskHistory.record();
+    clearDrawing();
+    markMaskChanged();
+  };
 
-            clearDrawing();
-            ctx.drawImage(tempCanvas, 0, 0);
-            
-            setIsMasking(false);
-        };
-        maskImage.onerror = () => {
-            setError("Failed to load the generated mask.");
-            setIsMasking(false);
-        }
-    } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to generate background mask.');
-        setIsMasking(false);
+  const handleSegmentationEngineChange = (engine: SegmentationEngine) => {
+    autoMask.setEngine(engine);
+    if (engine !== 'local' && activeTool === 'object') {
+        setActiveTool('brush');
     }
   };
 
   const handleSubmit = async () => {
-    setIsLoading(true);
-    setError(null);
-    setEditedImage(null);
-    setUpscaledImage(null);
-
     const imageCanvas = imageCanvasRef.current;
-    const drawingCanvas = drawingCanvasRef.current;
+    const sourceImage = sourceImageRef.current;
+    // Hidden layers and layers with nothing painted are left out of the pass.
+    const steps = maskLayers.layers
+        .filter(layer => layer.visible)
+        .map(layer => ({ layer, canvas: maskLayers.getLayerCanvas(layer.id) }))
+        .filter((step): step is LayerStep => !!step.canvas && hasPaint(step.canvas));
 
-    if (!imageCanvas || !drawingCanvas || !prompt.trim()) {
+    if (!imageCanvas || !sourceImage || steps.length === 0) {
       setError('Please draw a mask and enter a prompt.');
-      setIsLoading(false);
       return;
     }
-    
-    // Create mask
-    const maskCanvas = document.createElement('canvas');
-    maskCanvas.width = drawingCanvas.width;
-    maskCanvas.height = drawingCanvas.height;
-    const maskCtx = maskCanvas.getContext('2d');
-    if(!maskCtx) {
-        setError("Could not create mask context.");
-        setIsLoading(false);
-        return;
+    const unprompted = steps.find(step => !step.layer.prompt.trim());
+    if (unprompted) {
+      setError(`"${unprompted.layer.name}" has a mask but no prompt.`);
+      return;
     }
+    const warning = budgetWarning(variationCount * steps.length);
+    if (warning && !window.confirm(warning)) return;
 
-    maskCtx.fillStyle = 'black';
-    maskCtx.fillRect(0, 0, maskCanvas.width, maskCanvas.height);
-    maskCtx.drawImage(drawingCanvas, 0, 0);
+    await runEdit('An unknown error occurred.', async signal => {
+        const scale = sourceImage.naturalWidth / imageCanvas.width;
 
-    const imageData = maskCtx.getImageData(0, 0, maskCanvas.width, maskCanvas.height);
-    const data = imageData.data;
-    for (let i = 0; i < data.length; i += 4) {
-      if (data[i + 3] > 0) { // If pixel is not transparent
-        data[i] = 255;
-        data[i + 1] = 255;
-        data[i + 2] = 255;
-        data[i + 3] = 255;
-      }
-    }
-    maskCtx.putImageData(imageData, 0, 0);
+        const { naturalWidth: width, naturalHeight: height } = sourceImage;
 
-    try {
-        const originalImageBase64 = await fileToBase64(originalImage);
-        const maskImageBase64 = maskCanvas.toDataURL('image/png').split(',')[1];
-        
-        const resultBase64 = await editImageWithMask(prompt, negativePrompt, style, originalImageBase64, originalImage.type, maskImageBase64);
-        
-        setEditedImage(`data:image/png;base64,${resultBase64}`);
+        // Edits one layer of `branch.result` and composites each result back at
+        // full resolution, so everything outside that layer's mask stays
+        // identical. `raw` follows the same passes without the mask, to show
+        // what the provider changed where it shouldn't have.
+        const applyLayer = async (branch: Branch, step: LayerStep, count: number): Promise<Branch<HTMLCanvasElement>[]> => {
+            const request = prepareEditRequest(branch.result, step.canvas, { resolution: workingResolution, cropToMask });
+            const results = await editImageWithMask(step.layer.prompt, negativePrompt, style, request.imageBase64, request.mimeType, request.maskBase64, count, signal);
+            const next: Branch<HTMLCanvasElement>[] = [];
+            for (const resultBase64 of results) {
+                const resultImage = await loadImage(`data:image/png;base64,${resultBase64}`);
+                next.push({
+                    result: compositeWithMask(branch.result, width, height, resultImage, request.maskCanvas, featherRadius * scale, request.mapping.region),
+                    raw: placeResult(branch.raw, width, height, resultImage, request.mapping.region),
+                });
+            }
+            return next;
+        };
+
+        // Layers run in order, each on the previous layer's result, so every
+        // variation is one full pass through all of them.
+        const [firstStep, ...laterSteps] = steps;
+        let branches = await applyLayer({ result: sourceImage, raw: sourceImage }, firstStep, variationCount);
+        for (const step of laterSteps) {
+            const settled = await Promise.allSettled(branches.map(branch => applyLayer(branch, step, 1)));
+            const passed = settled.flatMap(outcome => outcome.status === 'fulfilled' ? outcome.value : []);
+            if (passed.length === 0) {
+                throw (settled[0] as PromiseRejectedResult).reason;
+            }
+            branches = passed;
+        }
 
+        const stepMasks = steps.map(step => ({ layer: step.layer, mask: createSoftMask(step.canvas) }));
+        const combinedPrompt = steps.length === 1
+            ? firstStep.layer.prompt
+            : steps.map(step => `${step.layer.name}: ${step.layer.prompt}`).join('; ');
+        return {
+            mask: combineMasks(stepMasks.map(step => step.mask)),
+            settings: { prompt: combinedPrompt, negativePrompt, style },
+            model: providerConfig.model,
+            layerIds: steps.map(step => step.layer.id),
+            layers: stepMasks,
+            preview: imageCanvas,
+            results: branches.map(branch => ({ image: branch.result, raw: branch.raw })),
+        };
+    });
+  };
+
+  /**
+   * Runs an edit whose results replace the current ones: `produce` does the
+   * work under the edit request's signal, and returns null if it was cut short.
+   */
+  const runEdit = async (fallbackError: string, produce: (signal: AbortSignal) => Promise<GeneratedEdit | null>) => {
+    setIsLoading(true);
+    setError(null);
+    clearResults();
+    const signal = startRequest('edit');
+    try {
+        const output = await produce(signal);
+        if (!output) return;
+        const edit = await savePendingEdit(output.mask, output.settings, output.model, output.layers);
+        const generated = await Promise.all(output.results.map(({ image, raw }) => createCandidate(image, output.preview, raw, {
+            mask: edit.mask,
+            model: output.model,
+            layerIds: output.layerIds,
+        })));
+        setCandidates(generated);
+        showCandidate(generated[0]);
+        setLastEdit(edit);
     } catch (err) {
-        setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        reportError(err, fallbackError);
     } finally {
         setIsLoading(false);
     }
   };
 
-  const handleUpscale = async () => {
-    if (!editedImage) {
-      setError("Generate an image before upscaling.");
+  const handleOutpaint = async () => {
+    const sourceImage = sourceImageRef.current;
+    if (!sourceImage || !hasExpansion(expansion) || !outpaintPrompt.trim()) {
+      setError('Choose how far to extend the canvas and describe what should fill it.');
       return;
     }
-    setIsUpscaling(true);
+    const output = expandedSize(sourceImage.naturalWidth, sourceImage.naturalHeight, expansion);
+    if (Math.max(output.width, output.height) > MAX_OUTPAINT_DIMENSION) {
+      setError(`The extended image can be at most ${MAX_OUTPAINT_DIMENSION}px on each side.`);
+      return;
+    }
+    const warning = budgetWarning(variationCount);
+    if (warning && !window.confirm(warning)) return;
+
+    await runEdit('An unknown error occurred while extending the image.', async signal => {
+        const request = prepareOutpaintRequest(sourceImage, expansion, workingResolution);
+        const results = await outpaintImage(outpaintPrompt, negativePrompt, style, request.imageBase64, request.mimeType, request.maskBase64, variationCount, signal);
+        const images = await Promise.all(results.map(resultBase64 => loadImage(`data:image/png;base64,${resultBase64}`)));
+        return {
+            mask: request.mask,
+            settings: { prompt: outpaintPrompt, negativePrompt, style },
+            model: providerConfig.model,
+            layerIds: [],
+            preview: resizeImage(output),
+            results: images.map(resultImage => ({
+                // No feather: the mask covers only the new area, so the original comes back pixel for pixel.
+                image: compositeWithMask(request.base, output.width, output.height, resultImage, request.mask),
+                raw: placeResult(request.base, output.width, output.height, resultImage),
+            })),
+        };
+    });
+  };
+
+  const handleReplaceBackground = useBackgroundReplacement({
+    drawingCanvasRef,
+    sourceImageRef,
+    layerId: activeLayer.id,
+    negativePrompt,
+    style,
+    workingResolution,
+    variationCount,
+    model: providerConfig.model,
+    previewSize: resizeImage,
+    setError,
+    runEdit,
+  });
+
+  const clearResults = () => {
+    setEditedImage(null);
+    setFullResImage(null);
+    setUpscaledImage(null);
+    upscaling.clearNotice();
+    setCandidates([]);
+    setSelectedCandidateId(null);
+    setLastEdit(null);
+  };
+
+  /**
+   * Turns a full-resolution result into a candidate with a working-size copy
+   * for display. `raw` is the provider's output before it was masked in.
+   */
+  const createCandidate = async (
+    fullRes: HTMLCanvasElement,
+    preview: { width: number, height: number },
+    raw: HTMLCanvasElement | null,
+    fields: Pick<EditCandidate, 'mask' | 'model' | 'layerIds'>
+  ): Promise<EditCandidate> => {
+    const working = createCanvas(preview.width, preview.height);
+    const workingCtx = get2dContext(working);
+    workingCtx.imageSmoothingQuality = 'high';
+    workingCtx.drawImage(fullRes, 0, 0, working.width, working.height);
+    return {
+        id: crypto.randomUUID(),
+        editedImage: working.toDataURL('image/png'),
+        fullResImage: await canvasToBlob(fullRes),
+        rawImage: raw ? await canvasToBlob(raw) : undefined,
+        ...fields,
+        createdAt: Date.now(),
+    };
+  };
+
+  /** Encodes the masks behind a set of results, so they survive reloads and can become a new version. */
+  const savePendingEdit = async (
+    mask: HTMLCanvasElement,
+    settings: EditSettings,
+    model?: string,
+    layers: { layer: MaskLayer, mask: HTMLCanvasElement }[] = []
+  ): Promise<PendingEdit> => ({
+    mask: await canvasToBlob(mask),
+    settings,
+    model,
+    layers: await Promise.all(layers.map(async ({ layer, mask }) => ({ ...layer, mask: await canvasToBlob(mask) }))),
+  });
+
+  const showCandidate = (candidate: EditCandidate | undefined) => {
+    setSelectedCandidateId(candidate?.id ?? null);
+    setEditedImage(candidate?.editedImage ?? null);
+    setFullResImage(candidate?.fullResImage ?? null);
+    setUpscaledImage(candidate?.upscaled?.image ?? null);
+    upscaling.clearNotice();
+  };
+
+  /** What produced the shown result, for the exported file's metadata. */
+  const exportProvenance = (): EditProvenance | null => {
+    const candidate = candidates.find(c => c.id === selectedCandidateId);
+    if (!candidate) return null;
+    // Sessions saved before the last edit was kept don't have it; fall back to the layers' prompts.
+    const prompt = lastEdit?.settings.prompt
+        ?? (candidate.layerIds ?? []).map(id => maskLayers.layers.find(layer => layer.id === id)?.prompt).filter(Boolean).join('; ');
+    return prompt ? { prompt, model: candidate.model, createdAt: candidate.createdAt ?? Date.now() } : null;
+  };
+
+  const handleSelectCandidate = (id: string) => {
+    showCandidate(candidates.find(c => c.id === id));
+  };
+
+  const handleDiscardCandidate = (id: string) => {
+    const remaining = candidates.filter(c => c.id !== id);
+    setCandidates(remaining);
+    if (id === selectedCandidateId) {
+        showCandidate(remaining[0]);
+    }
+    if (remaining.length === 0) {
+        setLastEdit(null);
+    }
+  };
+
+  const handleKeepCandidate = (id: string) => {
+    const kept = candidates.find(c => c.id === id);
+    if (!kept) return;
+    setCandidates([kept]);
+    showCandidate(kept);
+  };
+
+  const handleUseAsBase = () => {
+    if (!fullResImage || !lastEdit) return;
+    versionHistory.addVersion(fullResImage, lastEdit.mask, lastEdit.settings, lastEdit.model, lastEdit.layers);
+    clearResults();
     setError(null);
-    try {
-      const base64Data = editedImage.split(',')[1];
-      const resultBase64 = await upscaleImage(base64Data, upscaleFactor);
-      setUpscaledImage(`data:image/png;base64,${resultBase64}`);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An unknown error occurred during upscaling.');
-    } finally {
-      setIsUpscaling(false);
+  };
+
+  const handleSelectVersion = (id: string) => {
+    const version = versionHistory.selectVersion(id);
+    if (!version) return;
+    if (version.parentId) {
+        if (version.layers) {
+            // Give each layer that took part in this edit back the prompt it used.
+            version.layers.forEach(saved => {
+                if (maskLayers.layers.some(layer => layer.id === saved.id)) {
+                    maskLayers.updateLayer(saved.id, { prompt: saved.prompt });
+                }
+            });
+        } else {
+            setPrompt(version.prompt);
+        }
+        setNegativePrompt(version.negativePrompt);
+        setStyle(version.style);
     }
+    clearResults();
+    setError(null);
   };
   
+  const layerEditCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    versionHistory.versions.forEach(version => {
+        version.layers?.forEach(layer => { counts[layer.id] = (counts[layer.id] ?? 0) + 1; });
+    });
+    return counts;
+  }, [versionHistory.versions]);
+
+  // Every image in the history that can be compared: saved versions, the
+  // pending candidates (edited from the active version) and the upscale.
+  const compareSources = useMemo<CompareSource[]>(() => {
+    const sources: CompareSource[] = versionHistory.versions.map(version => ({
+        id: version.id,
+        label: versionHistory.getLabel(version),
+        image: version.image,
+        parentId: version.parentId,
+        mask: version.mask,
+    }));
+    candidates.forEach((candidate, index) => {
+        sources.push({
+            id: `candidate:${candidate.id}`,
+            label: candidates.length > 1 ? `Result ${index + 1}` : 'Result',
+            image: candidate.fullResImage,
+            diffImage: candidate.rawImage,
+            parentId: versionHistory.activeVersion.id,
+            mask: candidate.mask ?? null,
+        });
+        if (candidate.upscaled) {
+            sources.push({
+                id: `upscaled:${candidate.id}`,
+                label: `${sources[sources.length - 1].label} (${candidate.upscaled.factor}x)`,
+                image: candidate.upscaled.image,
+                parentId: `candidate:${candidate.id}`,
+            });
+        }
+    });
+    return sources;
+  }, [versionHistory.versions, versionHistory.getLabel, versionHistory.activeVersion.id, candidates]);
+
+  // Opens on the latest change: the shown result against the version it came
+  // from, or the active version against its parent when there is no result.
+  const compare = useMemo(() => {
+    const selected = candidates.find(c => c.id === selectedCandidateId);
+    if (selected) {
+        return {
+            beforeId: versionHistory.activeVersion.id,
+            afterId: selected.upscaled && upscaledImage ? `upscaled:${selected.id}` : `candidate:${selected.id}`,
+        };
+    }
+    const { parentId } = versionHistory.activeVersion;
+    return parentId ? { beforeId: parentId, afterId: versionHistory.activeVersion.id } : null;
+  }, [candidates, selectedCandidateId, upscaledImage, versionHistory.activeVersion]);
+
+  const handleRemoveLayer = (id: string) => {
+    maskRefinement.setOperation(null);
+    maskLayers.removeLayer(id);
+    maskHistory.reset(id);
+    markMaskChanged();
+  };
+
+  const handleSelectLayer = (id: string) => {
+    maskRefinement.setOperation(null);
+    maskLayers.selectLayer(id);
+  };
+
+  const handleAddLayer = () => {
+    maskRefinement.setOperation(null);
+    maskLayers.addLayer();
+  };
+
+  const handleUpdateLayer = (id: string, changes: Partial<Omit<MaskLayer, 'id'>>) => {
+    const { color } = changes;
+    const recoloured = !!color && color !== maskLayers.layers.find(layer => layer.id === id)?.color;
+    maskLayers.updateLayer(id, changes);
+    if (recoloured) {
+        // Undo would otherwise bring back pixels painted in the old colour.
+        maskHistory.rewrite(id, snapshot => recolorOverlayPixels(snapshot.data, color));
+        markMaskChanged();
+    }
+  };
+
   const cursorStyle = () => {
+    if (view.isPanning) return 'cursor-grabbing';
+    if (view.isSpaceHeld) return 'cursor-grab';
     switch (activeTool) {
       case 'brush':
       case 'eraser':
       case 'rectangle':
       case 'circle':
+      case 'lasso':
+      case 'polygon':
+      case 'pen':
         return 'cursor-crosshair';
       case 'fill':
-        return 'cursor-pointer'; // A custom bucket cursor would be better, but this is simple
+        return isWandRunning ? 'cursor-wait' : 'cursor-pointer';
+      case 'object':
+        return autoMask.isMasking ? 'cursor-wait' : 'cursor-pointer';
+      case 'points':
+        return 'cursor-crosshair';
       default:
         return 'cursor-default';
     }
@@ -398,20 +1081,93 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ originalImage, onReset }) =>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-start">
             <div className="w-full flex flex-col items-center gap-4">
                 <h2 className="text-xl font-semibold text-gray-300 self-start">1. Mask Your Image</h2>
-                <div className="relative w-full aspect-auto rounded-lg overflow-hidden border border-gray-700 shadow-lg">
-                    <canvas ref={imageCanvasRef} className="absolute top-0 left-0 w-full h-full" />
-                    <canvas 
-                        ref={drawingCanvasRef}
-                        className={`relative w-full h-full touch-none ${cursorStyle()}`}
-                        onMouseDown={handleMouseDown}
-                        onMouseMove={handleMouseMove}
-                        onMouseUp={handleMouseUp}
-                        onMouseLeave={handleMouseUp}
-                        onTouchStart={handleMouseDown}
-                        onTouchMove={handleMouseMove}
-                        onTouchEnd={handleMouseUp}
-                    />
+                <div
+                    ref={viewportRef}
+                    className="relative w-full aspect-auto rounded-lg overflow-hidden border border-gray-700 shadow-lg bg-gray-900"
+                    onMouseDown={handleViewportMouseDown}
+                    onMouseMove={handleViewportMouseMove}
+                    onMouseUp={view.endPan}
+                    onMouseLeave={handleViewportMouseLeave}
+                    onAuxClick={(e) => e.preventDefault()}
+                >
+                    <div
+                        className="relative w-full h-full origin-top-left"
+                        style={{ transform: `translate(${view.transform.offsetX}px, ${view.transform.offsetY}px) scale(${view.transform.zoom})` }}
+                    >
+                        <canvas
+                            ref={imageCanvasRef}
+                            className="absolute top-0 left-0 w-full h-full"
+                            style={{ imageRendering: view.transform.zoom > 2 ? 'pixelated' : 'auto' }}
+                        />
+                        <canvas
+                            ref={layerPreviewCanvasRef}
+                            className="absolute top-0 left-0 w-full h-full pointer-events-none"
+                            style={{ imageRendering: view.transform.zoom > 2 ? 'pixelated' : 'auto', opacity: overlayOpacity }}
+                        />
+                        <canvas 
+                            ref={drawingCanvasRef}
+                            className={`relative w-full h-full touch-none ${cursorStyle()}`}
+                            style={{ imageRendering: view.transform.zoom > 2 ? 'pixelated' : 'auto', opacity: activeLayer.visible && !maskRefinement.operation ? overlayOpacity : 0 }}
+                            onMouseDown={handleMouseDown}
+                            onMouseMove={handleMouseMove}
+                            onMouseUp={handleMouseUp}
+                            onMouseLeave={handleMouseUp}
+                            onTouchStart={handleMouseDown}
+                            onTouchMove={handleMouseMove}
+                            onTouchEnd={handleTouchEnd}
+                        />
+                        {pathEditor.current && drawingCanvasRef.current && (
+                            <PathOverlay
+                                path={pathEditor.current.path}
+                                width={drawingCanvasRef.current.width}
+                                height={drawingCanvasRef.current.height}
+                                handleRadius={PATH_HANDLE_RADIUS * canvasPixelsPerScreenPixel()}
+                                color={activeLayer.color}
+                            />
+                        )}
+                        {drawingCanvasRef.current && (
+                            <PromptPointsOverlay
+                                points={autoMask.promptPoints}
+                                width={drawingCanvasRef.current.width}
+                                height={drawingCanvasRef.current.height}
+                                radius={PATH_HANDLE_RADIUS * canvasPixelsPerScreenPixel()}
+                            />
+                        )}
+                        <canvas
+                            ref={maskRefinement.previewCanvasRef}
+                            className={`absolute top-0 left-0 w-full h-full pointer-events-none ${maskRefinement.operation ? '' : 'hidden'}`}
+                            style={{ imageRendering: view.transform.zoom > 2 ? 'pixelated' : 'auto', opacity: overlayOpacity }}
+                        />
+                    </div>
+                    <div ref={brushCursorRef} className="absolute hidden pointer-events-none rounded-full border border-white mix-blend-difference" />
+                    {pathEditor.current && (
+                        <div className="absolute top-2 left-2 z-10 flex items-center gap-1 bg-gray-900/80 rounded-md p-1 text-xs text-gray-300" onMouseDown={(e) => e.stopPropagation()}>
+                            {!pathEditor.current.path.closed && (
+                                <button onClick={pathEditor.closePath} disabled={pathEditor.current.path.nodes.length < 3} className="px-2 py-1 rounded hover:bg-gray-700 disabled:opacity-50" title="Close the path to adjust it before applying">Close path</button>
+                            )}
+                            <button onClick={pathEditor.commit} disabled={pathEditor.current.path.nodes.length < 3} className="px-2 py-1 rounded bg-purple-600 hover:bg-purple-700 text-white disabled:opacity-50" title="Apply to the mask (Enter)">Apply</button>
+                            <button onClick={pathEditor.discard} className="px-2 py-1 rounded hover:bg-gray-700" title="Discard the path (Esc)">Discard</button>
+                        </div>
+                    )}
+                    <div className="absolute top-2 right-2 z-10 flex items-center gap-1 bg-gray-900/80 rounded-md p-1 text-xs text-gray-300" onMouseDown={(e) => e.stopPropagation()}>
+                        <button onClick={() => view.zoomBy(1 / 1.5)} className="px-2 py-1 rounded hover:bg-gray-700" title="Zoom out">&minus;</button>
+                        <span className="w-12 text-center tabular-nums">{Math.round(view.transform.zoom * 100)}%</span>
+                        <button onClick={() => view.zoomBy(1.5)} className="px-2 py-1 rounded hover:bg-gray-700" title="Zoom in (mouse wheel or pinch)">+</button>
+                        <button onClick={view.fit} className="px-2 py-1 rounded hover:bg-gray-700" title="Fit to view">Fit</button>
+                        <button onClick={() => view.actualPixels(imageCanvasRef.current?.width ?? 0)} className="px-2 py-1 rounded hover:bg-gray-700" title="One image pixel per screen pixel">1:1</button>
+                    </div>
+                    {view.transform.zoom > 1 && (
+                        <Minimap
+                            source={imageCanvasRef.current}
+                            overlays={[layerPreviewCanvasRef.current, drawingCanvasRef.current]}
+                            transform={view.transform}
+                            viewportWidth={viewportRef.current?.clientWidth ?? 0}
+                            viewportHeight={viewportRef.current?.clientHeight ?? 0}
+                            onNavigate={view.centerOn}
+                        />
+                    )}
                 </div>
+                <p className="w-full text-xs text-gray-500 -mt-2">Scroll or pinch to zoom. Hold Space and drag, or drag with two fingers, to pan.</p>
                  <div className="w-full bg-gray-900/50 p-3 rounded-lg flex flex-wrap items-center justify-between gap-4">
                     <div className="flex items-center gap-4">
                         <button onClick={() => setActiveTool('brush')} className={`p-2 rounded-md transition-all duration-200 transform hover:scale-110 ${activeTool === 'brush' ? 'bg-purple-600 text-white shadow-md shadow-purple-500/30' : 'bg-gray-700 hover:bg-gray-600'}`} title="Brush">
@@ -426,17 +1182,29 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ originalImage, onReset }) =>
                         <button onClick={() => setActiveTool('circle')} className={`p-2 rounded-md transition-all duration-200 transform hover:scale-110 ${activeTool === 'circle' ? 'bg-purple-600 text-white shadow-md shadow-purple-500/30' : 'bg-gray-700 hover:bg-gray-600'}`} title="Circle Tool">
                             <CircleIcon className="w-5 h-5" />
                         </button>
-                        <button onClick={() => setActiveTool('fill')} className={`p-2 rounded-md transition-all duration-200 transform hover:scale-110 ${activeTool === 'fill' ? 'bg-purple-600 text-white shadow-md shadow-purple-500/30' : 'bg-gray-700 hover:bg-gray-600'}`} title="Fill Tool">
+                        <button onClick={() => setActiveTool('fill')} className={`p-2 rounded-md transition-all duration-200 transform hover:scale-110 ${activeTool === 'fill' ? 'bg-purple-600 text-white shadow-md shadow-purple-500/30' : 'bg-gray-700 hover:bg-gray-600'}`} title="Magic Wand (select similar colours)">
                             <FillIcon className="w-5 h-5" />
                         </button>
-                        <button 
-                            onClick={handleAutoMask}
-                            disabled={isMasking || isLoading}
-                            className="p-2 rounded-md bg-gray-700 hover:bg-gray-600 transition-all duration-200 transform hover:scale-110 disabled:opacity-50 disabled:cursor-not-allowed disabled:scale-100"
-                            title="Auto-mask background"
-                        >
-                            {isMasking ? <Spinner /> : <AutoMaskIcon className="w-5 h-5" />}
+                        <button onClick={() => setActiveTool('lasso')} className={`p-2 rounded-md transition-all duration-200 transform hover:scale-110 ${activeTool === 'lasso' ? 'bg-purple-600 text-white shadow-md shadow-purple-500/30' : 'bg-gray-700 hover:bg-gray-600'}`} title="Lasso (freehand selection)">
+                            <LassoIcon className="w-5 h-5" />
+                        </button>
+                        <button onClick={() => setActiveTool('polygon')} className={`p-2 rounded-md transition-all duration-200 transform hover:scale-110 ${activeTool === 'polygon' ? 'bg-purple-600 text-white shadow-md shadow-purple-500/30' : 'bg-gray-700 hover:bg-gray-600'}`} title="Polygon (click to place points)">
+                            <PolygonIcon className="w-5 h-5" />
                         </button>
+                        <button onClick={() => setActiveTool('pen')} className={`p-2 rounded-md transition-all duration-200 transform hover:scale-110 ${activeTool === 'pen' ? 'bg-purple-600 text-white shadow-md shadow-purple-500/30' : 'bg-gray-700 hover:bg-gray-600'}`} title="Pen (click for corners, drag for curves)">
+                            <PenIcon className="w-5 h-5" />
+                        </button>
+                    </div>
+                    <div className="flex items-center rounded-md overflow-hidden border border-gray-600 text-xs" title="How rectangle, circle, magic wand, lasso, polygon and pen selections combine with the mask. Hold Shift to add, Alt to subtract, Shift+Alt to intersect.">
+                        {(['add', 'subtract', 'intersect'] as SelectionMode[]).map(mode => (
+                            <button
+                                key={mode}
+                                onClick={() => setSelectionMode(mode)}
+                                className={`px-2 py-1 capitalize transition-colors ${selectionMode === mode ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+                            >
+                                {mode}
+                            </button>
+                        ))}
                     </div>
                     <div className="flex items-center gap-4 flex-grow sm:flex-grow-0">
                         <div className="flex items-center gap-2 text-sm text-gray-400">
@@ -451,27 +1219,142 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ originalImage, onReset }) =>
                                 disabled={activeTool !== 'brush' && activeTool !== 'eraser'}
                             />
                         </div>
-                         <div className="flex items-center gap-2 text-sm text-gray-400">
+                         <div className="flex items-center gap-2 text-sm text-gray-400" title="How strongly the mask overlay is shown; it doesn't change the mask">
                             <span>Opacity:</span>
                             <input
                                 type="range"
                                 min="0.1"
                                 max="1"
                                 step="0.1"
-                                value={brushOpacity}
-                                onChange={(e) => setBrushOpacity(Number(e.target.value))}
+                                value={overlayOpacity}
+                                onChange={(e) => setOverlayOpacity(Number(e.target.value))}
                                 className="w-24 accent-purple-500"
                             />
                         </div>
                     </div>
-                    <button onClick={clearDrawing} className="p-2 rounded-md bg-gray-700 hover:bg-gray-600 transition-all duration-200 transform hover:scale-110" title="Clear Mask">
-                        <ResetIcon className="w-5 h-5" />
-                    </button>
+                    <div className="flex items-center gap-2">
+                        <button onClick={handleUndo} disabled={!maskHistory.canUndo} className="p-2 rounded-md bg-gray-700 hover:bg-gray-600 transition-all duration-200 transform hover:scale-110 disabled:opacity-50 disabled:cursor-not-allowed disabled:scale-100" title="Undo (Ctrl+Z)">
+                            <UndoIcon className="w-5 h-5" />
+                        </button>
+                        <button onClick={handleRedo} disabled={!maskHistory.canRedo} className="p-2 rounded-md bg-gray-700 hover:bg-gray-600 transition-all duration-200 transform hover:scale-110 disabled:opacity-50 disabled:cursor-not-allowed disabled:scale-100" title="Redo (Ctrl+Shift+Z)">
+                            <RedoIcon className="w-5 h-5" />
+                        </button>
+                        <button onClick={handleClearMask} className="p-2 rounded-md bg-gray-700 hover:bg-gray-600 transition-all duration-200 transform hover:scale-110" title="Clear Mask">
+                            <ResetIcon className="w-5 h-5" />
+                        </button>
+                    </div>
+                    {activeTool === 'fill' && (
+                        <div className="w-full flex flex-wrap items-center gap-4 text-sm text-gray-400 border-t border-gray-700 pt-3">
+                            <label className="flex items-center gap-2" title="How different a colour can be from the clicked one and still be selected">
+                                <span>Tolerance:</span>
+                                <input
+                                    type="range"
+                                    min="0"
+                                    max="100"
+                                    value={wandTolerance}
+                                    onChange={(e) => setWandTolerance(Number(e.target.value))}
+                                    className="w-24 accent-purple-500"
+                                />
+                                <span className="w-6 text-right tabular-nums">{wandTolerance}</span>
+                            </label>
+                            <label className="flex items-center gap-2" title="Lab matches colours the way the eye sees them; HSV favours hue over brightness">
+                                <span>Compare:</span>
+                                <select value={wandColorSpace} onChange={(e) => setWandColorSpace(e.target.value as WandColorSpace)} className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200">
+                                    <option value="rgb">RGB</option>
+                                    <option value="lab">Lab</option>
+                                    <option value="hsv">HSV</option>
+                                </select>
+                            </label>
+                            <label className="flex items-center gap-2" title="Sample colours from">
+                                <span>Sample:</span>
+                                <select value={wandSource} onChange={(e) => setWandSource(e.target.value as WandSource)} className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200">
+                                    <option value="image">Current image</option>
+                                    <option value="original" disabled={!canSampleOriginal}>Original upload</option>
+                                    <option value="result" disabled={!editedImage}>Latest result</option>
+                                </select>
+                            </label>
+                            <label className="flex items-center gap-2 cursor-pointer" title="Off selects every similar colour in the image, not just the connected region">
+                                <input
+                                    type="checkbox"
+                                    checked={wandContiguous}
+                                    onChange={(e) => setWandContiguous(e.target.checked)}
+                                    className="accent-purple-500"
+                                />
+                                <span>Contiguous</span>
+                            </label>
+                            {isWandRunning && <Spinner />}
+                        </div>
+                    )}
                 </div>
+                <AutoMaskPanel
+                    engine={autoMask.engine}
+                    onEngineChange={handleSegmentationEngineChange}
+                    onMask={autoMask.maskTarget}
+                    isPicking={activeTool === 'object'}
+                    onTogglePicking={() => setActiveTool(activeTool === 'object' ? 'brush' : 'object')}
+                    isRunning={autoMask.isMasking}
+                    remoteAvailable={isProviderConfigured}
+                    description={autoMask.description}
+                    onDescriptionChange={autoMask.setDescription}
+                    promptMode={autoMask.promptMode}
+                    onPromptModeChange={autoMask.setPromptMode}
+                    pointCounts={{ include: autoMask.promptPoints.filter(p => p.include).length, exclude: autoMask.promptPoints.filter(p => !p.include).length }}
+                    isPlacingPoints={activeTool === 'points'}
+                    onTogglePlacingPoints={() => setActiveTool(activeTool === 'points' ? 'brush' : 'points')}
+                    onClearPoints={autoMask.clearPromptPoints}
+                    onSelect={autoMask.selectByPrompt}
+                    canRefine={autoMask.canRefine}
+                    disabled={isLoading || !!maskRefinement.operation}
+                />
+                <BackgroundPanel
+                    onDetect={() => autoMask.maskTarget('background')}
+                    onApply={handleReplaceBackground}
+                    isDetecting={autoMask.isMasking}
+                    remoteAvailable={isProviderConfigured}
+                    disabled={isLoading || upscaling.isUpscaling}
+                />
+                <OutpaintPanel
+                    imageSize={sourceSize}
+                    expansion={expansion}
+                    onExpansionChange={setExpansion}
+                    prompt={outpaintPrompt}
+                    onPromptChange={setOutpaintPrompt}
+                    onGenerate={handleOutpaint}
+                    disabled={isLoading || upscaling.isUpscaling}
+                />
+                <MaskRefinePanel
+                    operation={maskRefinement.operation}
+                    onChange={maskRefinement.setOperation}
+                    onApply={maskRefinement.apply}
+                    disabled={isLoading || autoMask.isMasking}
+                />
+                <MaskLayerPanel
+                    layers={maskLayers.layers}
+                    activeId={activeLayer.id}
+                    editCounts={layerEditCounts}
+                    onSelect={handleSelectLayer}
+                    onAdd={handleAddLayer}
+                    onRemove={handleRemoveLayer}
+                    onUpdate={handleUpdateLayer}
+                    disabled={isLoading}
+                />
+                <VersionHistory
+                    versions={versionHistory.versions}
+                    activeId={versionHistory.activeVersion.id}
+                    getLabel={versionHistory.getLabel}
+                    onSelect={handleSelectVersion}
+                    disabled={isLoading || upscaling.isUpscaling}
+                />
             </div>
 
              <div className="w-full flex flex-col gap-4">
                 <h2 className="text-xl font-semibold text-gray-300">2. Describe Your Edit</h2>
+                {maskLayers.layers.length > 1 && (
+                    <p className="text-sm text-gray-400 -mb-2 flex items-center gap-2">
+                        <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: activeLayer.color }} />
+                        Prompt for {activeLayer.name}
+                    </p>
+                )}
                 <textarea
                     value={prompt}
                     onChange={(e) => setPrompt(e.target.value)}
@@ -488,23 +1371,69 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ originalImage, onReset }) =>
                         className="w-full p-3 bg-gray-700 rounded-lg border border-gray-600 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors"
                         disabled={isLoading}
                     >
-                        <option>Default</option>
-                        <option>Photorealistic</option>
-                        <option>Cartoon</option>
-                        <option>Anime</option>
-                        <option>Pixel Art</option>
-                        <option>Watercolor</option>
-                        <option>Impressionism</option>
-                        <option>Pop Art</option>
-                        <option>Surrealism</option>
-                        <option>Minimalist</option>
-                        <option>Fantasy</option>
-                        <option>Cyberpunk</option>
-                        <option>Steampunk</option>
-                        <option>Art Deco</option>
+                        {STYLES.map(option => <option key={option}>{option}</option>)}
                     </select>
                 </div>
 
+                <div className="flex flex-wrap items-center gap-4 text-sm text-gray-400">
+                    <div className="flex items-center gap-2">
+                        <label htmlFor="working-resolution">Resolution:</label>
+                        <select
+                            id="working-resolution"
+                            value={workingResolution}
+                            onChange={(e) => setWorkingResolution(e.target.value === 'original' ? 'original' : Number(e.target.value) as WorkingResolution)}
+                            className="bg-gray-700 rounded-md border border-gray-600 p-2 text-sm focus:ring-2 focus:ring-purple-500"
+                            disabled={isLoading}
+                        >
+                            <option value={512}>512px</option>
+                            <option value={1024}>1024px</option>
+                            <option value={2048}>2048px</option>
+                            <option value="original">Original</option>
+                        </select>
+                    </div>
+                    <label className="flex items-center gap-2 cursor-pointer" title="Send only the masked area plus some context, so small edits on large photos keep their detail">
+                        <input
+                            type="checkbox"
+                            checked={cropToMask}
+                            onChange={(e) => setCropToMask(e.target.checked)}
+                            className="accent-purple-500"
+                            disabled={isLoading}
+                        />
+                        Crop to mask
+                    </label>
+                </div>
+
+                <div className="flex items-center gap-2 text-sm text-gray-400">
+                    <label htmlFor="variation-count">Variations:</label>
+                    <select
+                        id="variation-count"
+                        value={variationCount}
+                        onChange={(e) => setVariationCount(Number(e.target.value))}
+                        className="bg-gray-700 rounded-md border border-gray-600 p-2 text-sm focus:ring-2 focus:ring-purple-500"
+                        disabled={isLoading}
+                    >
+                        <option value={1}>1</option>
+                        <option value={2}>2</option>
+                        <option value={3}>3</option>
+                        <option value={4}>4</option>
+                    </select>
+                </div>
+
+                <div className="flex items-center gap-2 text-sm text-gray-400">
+                    <label htmlFor="feather-radius">Edge feather:</label>
+                    <input
+                        id="feather-radius"
+                        type="range"
+                        min="0"
+                        max="32"
+                        value={featherRadius}
+                        onChange={(e) => setFeatherRadius(Number(e.target.value))}
+                        className="flex-grow accent-purple-500"
+                        disabled={isLoading}
+                    />
+                    <span className="w-10 text-right">{featherRadius}px</span>
+                </div>
+
                 <div>
                     <label htmlFor="negative-prompt" className="block text-sm font-medium text-gray-400 mb-1">Negative Prompt <span className="text-gray-500">(what to avoid)</span></label>
                     <textarea
@@ -519,19 +1448,39 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ originalImage, onReset }) =>
 
                  <button 
                     onClick={handleSubmit} 
-                    disabled={isLoading || !prompt.trim()} 
+                    disabled={isLoading || !maskLayers.layers.some(layer => layer.visible && layer.prompt.trim()) || !isProviderConfigured} 
                     className="w-full bg-gradient-to-r from-purple-600 to-pink-600 text-white font-bold py-3 px-4 rounded-lg shadow-lg shadow-purple-500/30 hover:shadow-xl hover:shadow-pink-500/40 disabled:bg-none disabled:bg-gray-600 disabled:shadow-none disabled:opacity-70 disabled:cursor-not-allowed transition-all transform hover:scale-105 duration-300 flex items-center justify-center"
                 >
                     {isLoading ? <Spinner /> : 'Generate Image'}
                 </button>
-                {error && <p className="text-red-400 text-center">{error}</p>}
+                {(isLoading || upscaling.isUpscaling || autoMask.isMasking) && (
+                    <button
+                        onClick={handleCancel}
+                        className="w-full bg-gray-700 text-gray-300 py-2 px-4 rounded-lg hover:bg-gray-600 border border-gray-600 transition-all"
+                    >
+                        Cancel
+                    </button>
+                )}
+                {error && <p className="text-red-400 text-center" role="alert">{error}</p>}
                 
-                <h2 className="text-xl font-semibold text-gray-300 mt-4">3. Result</h2>
+                <div className="flex items-center justify-between mt-4">
+                    <h2 className="text-xl font-semibold text-gray-300">3. Result</h2>
+                    {compare && !isLoading && !upscaling.isUpscaling && (
+                        <button
+                            onClick={() => setIsCompareOpen(open => !open)}
+                            className={`text-sm py-1 px-3 rounded-md transition-colors ${isCompareOpen ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+                        >
+                            Compare
+                        </button>
+                    )}
+                </div>
                 <div className="w-full aspect-auto rounded-lg bg-gray-900/50 border border-gray-700 flex items-center justify-center min-h-[200px] p-2">
-                    {(isLoading || isUpscaling) && <Spinner large={true} />}
-                    {!isLoading && !isUpscaling && (
-                        upscaledImage ? (
-                            <img src={upscaledImage} alt="Upscaled result" className="max-w-full max-h-full object-contain rounded-md" />
+                    {(isLoading || upscaling.isUpscaling) && <Spinner large={true} />}
+                    {!isLoading && !upscaling.isUpscaling && (
+                        isCompareOpen && compare ? (
+                            <CompareViewer sources={compareSources} beforeId={compare.beforeId} afterId={compare.afterId} />
+                        ) : upscaledUrl ? (
+                            <img src={upscaledUrl} alt="Upscaled result" className="max-w-full max-h-full object-contain rounded-md" />
                         ) : editedImage ? (
                              <img src={editedImage} alt="Edited result" className="max-w-full max-h-full object-contain rounded-md" />
                         ) : (
@@ -540,6 +1489,15 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ originalImage, onReset }) =>
                     )}
                 </div>
                 
+                <CandidateStrip
+                    candidates={candidates}
+                    selectedId={selectedCandidateId}
+                    onSelect={handleSelectCandidate}
+                    onDiscard={handleDiscardCandidate}
+                    onKeep={handleKeepCandidate}
+                    disabled={isLoading || upscaling.isUpscaling}
+                />
+
                 {editedImage && !isLoading && (
                     <div className="w-full flex flex-col gap-4 mt-2">
                          <div className="w-full flex flex-col sm:flex-row items-center justify-center gap-4 p-3 bg-gray-900/50 rounded-lg">
@@ -547,44 +1505,100 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ originalImage, onReset }) =>
                                 <label htmlFor="upscale-factor">Upscale:</label>
                                 <select
                                     id="upscale-factor"
-                                    value={upscaleFactor}
-                                    onChange={(e) => setUpscaleFactor(Number(e.target.value))}
+                                    value={upscaling.factor}
+                                    onChange={(e) => upscaling.setFactor(Number(e.target.value))}
                                     className="bg-gray-700 rounded-md border border-gray-600 p-2 text-sm focus:ring-2 focus:ring-blue-500"
-                                    disabled={isUpscaling}
+                                    disabled={upscaling.isUpscaling || isLoading}
                                 >
                                     <option value={2}>2x</option>
                                     <option value={4}>4x</option>
                                 </select>
+                                <select
+                                    value={upscaling.method}
+                                    onChange={(e) => upscaling.setMethod(e.target.value as UpscaleMethod)}
+                                    className="bg-gray-700 rounded-md border border-gray-600 p-2 text-sm focus:ring-2 focus:ring-blue-500"
+                                    disabled={upscaling.isUpscaling || isLoading}
+                                    aria-label="Upscale method"
+                                >
+                                    <option value="local">Local (Lanczos)</option>
+                                    <option value="ai">AI upscale</option>
+                                </select>
                             </div>
+                            {upscaling.method === 'local' && (
+                                <div className="flex items-center gap-2 text-gray-300 text-sm">
+                                    <label htmlFor="upscale-sharpen">Sharpen</label>
+                                    <input
+                                        id="upscale-sharpen"
+                                        type="range"
+                                        min={0}
+                                        max={100}
+                                        value={upscaling.sharpen}
+                                        onChange={(e) => upscaling.setSharpen(Number(e.target.value))}
+                                        disabled={upscaling.isUpscaling || isLoading}
+                                        className="w-24 accent-blue-500"
+                                    />
+                                </div>
+                            )}
                             <button
-                                onClick={handleUpscale}
-                                disabled={isUpscaling}
+                                onClick={upscaling.upscale}
+                                disabled={upscaling.isUpscaling || isLoading || (upscaling.method === 'ai' && !isProviderConfigured)}
                                 className="w-full sm:w-auto flex-grow bg-blue-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-600 disabled:opacity-70 disabled:cursor-not-allowed shadow-md hover:shadow-lg transition-all flex items-center justify-center gap-2"
                             >
-                                {isUpscaling ? <Spinner /> : <><ExpandIcon className="w-5 h-5" /><span>Upscale Image</span></>}
+                                {upscaling.isUpscaling ? (
+                                    <><Spinner />{upscaling.progress !== null && <span>{Math.round(upscaling.progress * 100)}%</span>}</>
+                                ) : (
+                                    <><ExpandIcon className="w-5 h-5" /><span>Upscale Image</span></>
+                                )}
                             </button>
                         </div>
+                        {upscaling.notice && <p className="text-yellow-300 text-sm text-center">{upscaling.notice}</p>}
                         
-                        {!isUpscaling && (
-                             <a 
-                                href={upscaledImage || editedImage} 
-                                download={`edited-image-${upscaledImage ? `${upscaleFactor}x-upscaled` : 'final'}.png`}
+                        <button
+                            onClick={handleUseAsBase}
+                            disabled={upscaling.isUpscaling || !fullResImage || !lastEdit}
+                            className="w-full bg-purple-700 text-white font-bold py-2 px-4 rounded-lg hover:bg-purple-800 disabled:bg-gray-600 disabled:opacity-70 disabled:cursor-not-allowed shadow-md hover:shadow-lg transition-all flex items-center justify-center gap-2"
+                            title={lastEdit ? 'Continue editing from this result' : 'This result was restored from a session saved without its mask; generate it again to continue from it'}
+                        >
+                            <LayersIcon className="w-5 h-5" /><span>Use as New Base</span>
+                        </button>
+
+                        {!upscaling.isUpscaling && (
+                            <button
+                                onClick={() => setIsExportOpen(true)}
                                 className="w-full bg-green-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-green-700 transition-all shadow-md hover:shadow-lg flex items-center justify-center gap-2"
-                             >
+                            >
                                 <DownloadIcon className="w-5 h-5" />
                                 Download {upscaledImage ? 'Upscaled' : ''} Image
-                            </a>
+                            </button>
                         )}
                     </div>
                 )}
             </div>
         </div>
-        <div className="mt-8 flex justify-start">
+        <div className="mt-8 flex justify-between gap-4">
             <button onClick={onReset} className="bg-gray-700 text-gray-300 py-2 px-4 rounded-lg hover:bg-gray-600 border border-gray-600 hover:border-gray-500 transition-all flex items-center gap-2">
                 <BackIcon className="w-5 h-5" />
                 Start Over
             </button>
+            <button
+                onClick={handleExportProject}
+                disabled={isExporting}
+                className="bg-gray-700 text-gray-300 py-2 px-4 rounded-lg hover:bg-gray-600 border border-gray-600 hover:border-gray-500 transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Download the original, masks, results and edit history as one file"
+            >
+                {isExporting ? <Spinner /> : <DownloadIcon className="w-5 h-5" />}
+                Export Project
+            </button>
         </div>
+        {isExportOpen && fullResImage && (
+            <ExportDialog
+                image={upscaledImage ?? fullResImage}
+                sourceFile={originalImage}
+                provenance={exportProvenance()}
+                fileSuffix={upscaledImage ? `edited-${candidates.find(c => c.id === selectedCandidateId)?.upscaled?.factor ?? upscaling.factor}x` : 'edited'}
+                onClose={() => setIsExportOpen(false)}
+            />
+        )}
     </div>
   );
 };
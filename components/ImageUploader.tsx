@@ -1,18 +1,36 @@
 
 import React, { useState, useCallback } from 'react';
 import { UploadIcon } from './Icons';
+import { isProjectFile } from '../services/projectFile';
+import { IMPORT_ACCEPT } from '../utils/imageImport';
 
 interface ImageUploaderProps {
   onImageUpload: (file: File) => void;
+  // Several images at once start a batch instead of the editor.
+  onBatchUpload: (files: File[]) => void;
+  onProjectImport: (file: File) => void;
 }
 
-const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload }) => {
+const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, onBatchUpload, onProjectImport }) => {
   const [isDragging, setIsDragging] = useState(false);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      onImageUpload(e.target.files[0]);
+  const handleFiles = useCallback((fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (files.length === 0) return;
+    // A project file opens on its own; anything else dropped with it is ignored.
+    const project = files.find(isProjectFile);
+    if (project) {
+      onProjectImport(project);
+    } else if (files.length > 1) {
+      onBatchUpload(files);
+    } else {
+      onImageUpload(files[0]);
     }
+  }, [onImageUpload, onBatchUpload, onProjectImport]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(e.target.files);
+    e.target.value = '';
   };
 
   const handleDragEnter = useCallback((e: React.DragEvent<HTMLDivElement>) => {
@@ -36,10 +54,8 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload }) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      onImageUpload(e.dataTransfer.files[0]);
-    }
-  }, [onImageUpload]);
+    handleFiles(e.dataTransfer.files);
+  }, [handleFiles]);
 
   return (
     <div 
@@ -52,7 +68,8 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload }) => {
       <input
         type="file"
         id="image-upload"
-        accept="image/png, image/jpeg, image/webp"
+        accept={`${IMPORT_ACCEPT}, .zip, application/zip`}
+        multiple
         onChange={handleFileChange}
         className="absolute w-full h-full opacity-0 cursor-pointer"
       />
@@ -61,7 +78,8 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload }) => {
         <p className="text-xl font-semibold text-gray-300">
           <span className="text-purple-400">Click to upload</span> or drag and drop
         </p>
-        <p className="text-gray-500 mt-1">PNG, JPG, or WEBP</p>
+        <p className="text-gray-500 mt-1">PNG, JPG, WebP, AVIF, HEIC, GIF or TIFF — or an exported project (.zip)</p>
+        <p className="text-gray-500 text-sm mt-1">Select several images to edit them all in one batch</p>
       </label>
     </div>
   );
@@ -0,0 +1,87 @@
+import React from 'react';
+import { MaskLayer } from '../types';
+import { EyeIcon, EyeSlashIcon, TrashIcon } from './Icons';
+
+interface MaskLayerPanelProps {
+  layers: MaskLayer[];
+  activeId: string;
+  // How many saved versions each layer has contributed to, keyed by layer id.
+  editCounts: Record<string, number>;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+  onUpdate: (id: string, changes: Partial<Omit<MaskLayer, 'id'>>) => void;
+  disabled?: boolean;
+}
+
+const MaskLayerPanel: React.FC<MaskLayerPanelProps> = ({ layers, activeId, editCounts, onSelect, onAdd, onRemove, onUpdate, disabled = false }) => {
+  return (
+    <div className="w-full bg-gray-900/50 p-3 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-400">Mask Layers</h3>
+        <button
+          onClick={onAdd}
+          disabled={disabled}
+          className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 py-1 px-2 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          + Add layer
+        </button>
+      </div>
+      <ul className="flex flex-col gap-1">
+        {layers.map(layer => {
+          const isActive = layer.id === activeId;
+          const edits = editCounts[layer.id] ?? 0;
+          return (
+            <li
+              key={layer.id}
+              onClick={() => !disabled && onSelect(layer.id)}
+              className={`flex items-center gap-2 p-2 rounded-md border cursor-pointer transition-colors ${isActive ? 'border-purple-500 bg-purple-900/30' : 'border-gray-700 hover:border-gray-500'}`}
+            >
+              <label className="relative w-5 h-5 flex-shrink-0 rounded-full border border-gray-500 overflow-hidden cursor-pointer" style={{ backgroundColor: layer.color }} title="Overlay colour" onClick={(e) => e.stopPropagation()}>
+                <input
+                  type="color"
+                  value={layer.color}
+                  onChange={(e) => onUpdate(layer.id, { color: e.target.value })}
+                  className="absolute inset-0 opacity-0 cursor-pointer"
+                  disabled={disabled}
+                />
+              </label>
+              <div className="flex-grow min-w-0">
+                <input
+                  type="text"
+                  value={layer.name}
+                  onChange={(e) => onUpdate(layer.id, { name: e.target.value })}
+                  className="w-full bg-transparent text-sm text-gray-200 focus:outline-none focus:bg-gray-700 rounded px-1"
+                  aria-label="Layer name"
+                  disabled={disabled}
+                />
+                <p className="text-xs text-gray-500 truncate px-1" title={layer.prompt}>
+                  {layer.prompt || 'No prompt yet'}
+                  {edits > 0 && <span className="ml-1 text-gray-400">&middot; {edits} {edits === 1 ? 'edit' : 'edits'}</span>}
+                </p>
+              </div>
+              <button
+                onClick={(e) => { e.stopPropagation(); onUpdate(layer.id, { visible: !layer.visible }); }}
+                disabled={disabled}
+                className="p-1 rounded text-gray-400 hover:text-white disabled:opacity-50"
+                title={layer.visible ? 'Hide layer (hidden layers are skipped when generating)' : 'Show layer'}
+              >
+                {layer.visible ? <EyeIcon className="w-4 h-4" /> : <EyeSlashIcon className="w-4 h-4" />}
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onRemove(layer.id); }}
+                disabled={disabled || layers.length < 2}
+                className="p-1 rounded text-gray-400 hover:text-red-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                title="Delete layer"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default MaskLayerPanel;
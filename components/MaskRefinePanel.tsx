@@ -0,0 +1,88 @@
+import React from 'react';
+import { MaskOperation, MaskOperationKind } from '../utils/maskOps';
+
+interface MaskRefinePanelProps {
+  // The operation being previewed, if any.
+  operation: MaskOperation | null;
+  onChange: (operation: MaskOperation | null) => void;
+  onApply: () => void;
+  disabled?: boolean;
+}
+
+interface OperationOption {
+  kind: MaskOperationKind;
+  label: string;
+  title: string;
+  amount?: { label: string, min: number, max: number, step: number, initial: number, unit: string };
+}
+
+const OPERATIONS: OperationOption[] = [
+  { kind: 'grow', label: 'Grow', title: 'Expand the mask outward', amount: { label: 'By', min: 1, max: 50, step: 1, initial: 4, unit: 'px' } },
+  { kind: 'shrink', label: 'Shrink', title: 'Pull the mask edge inward', amount: { label: 'By', min: 1, max: 50, step: 1, initial: 4, unit: 'px' } },
+  { kind: 'feather', label: 'Feather', title: 'Soften the mask edge so edits blend in', amount: { label: 'Radius', min: 1, max: 64, step: 1, initial: 8, unit: 'px' } },
+  { kind: 'fillHoles', label: 'Fill holes', title: 'Fill unmasked gaps enclosed by the mask' },
+  { kind: 'removeIslands', label: 'Remove specks', title: 'Delete small stray bits of mask', amount: { label: 'Smaller than', min: 10, max: 5000, step: 10, initial: 200, unit: 'px²' } },
+  { kind: 'invert', label: 'Invert', title: 'Swap masked and unmasked areas' },
+];
+
+const MaskRefinePanel: React.FC<MaskRefinePanelProps> = ({ operation, onChange, onApply, disabled = false }) => {
+  const selected = OPERATIONS.find(o => o.kind === operation?.kind);
+
+  const choose = (option: OperationOption) => {
+    if (operation?.kind === option.kind) {
+      onChange(null);
+    } else {
+      onChange({ kind: option.kind, amount: option.amount?.initial ?? 0 });
+    }
+  };
+
+  return (
+    <div className="w-full bg-gray-900/50 p-3 rounded-lg">
+      <h3 className="text-sm font-semibold text-gray-400 mb-2">Refine Mask</h3>
+      <div className="flex flex-wrap gap-2">
+        {OPERATIONS.map(option => (
+          <button
+            key={option.kind}
+            onClick={() => choose(option)}
+            disabled={disabled}
+            className={`text-xs py-1 px-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${operation?.kind === option.kind ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+            title={option.title}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {operation && selected && (
+        <div className="flex flex-wrap items-center gap-3 mt-3 text-sm text-gray-400">
+          {selected.amount && (
+            <label className="flex items-center gap-2 flex-grow">
+              <span>{selected.amount.label}:</span>
+              <input
+                type="range"
+                min={selected.amount.min}
+                max={selected.amount.max}
+                step={selected.amount.step}
+                value={operation.amount}
+                onChange={(e) => onChange({ ...operation, amount: Number(e.target.value) })}
+                className="flex-grow accent-purple-500"
+                disabled={disabled}
+              />
+              <span className="w-16 text-right">{operation.amount}{selected.amount.unit}</span>
+            </label>
+          )}
+          <span className="text-xs text-gray-500">Previewing on the canvas</span>
+          <div className="flex gap-2 ml-auto">
+            <button onClick={() => onChange(null)} disabled={disabled} className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 py-1 px-3 rounded-md disabled:opacity-50">
+              Cancel
+            </button>
+            <button onClick={onApply} disabled={disabled} className="text-xs bg-purple-600 hover:bg-purple-700 text-white py-1 px-3 rounded-md disabled:opacity-50">
+              Apply
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MaskRefinePanel;
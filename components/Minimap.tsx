@@ -0,0 +1,62 @@
+import React, { useEffect, useRef } from 'react';
+import { ViewTransform } from '../hooks/useViewTransform';
+
+interface MinimapProps {
+  source: HTMLCanvasElement | null;
+  overlays: (HTMLCanvasElement | null)[];
+  transform: ViewTransform;
+  viewportWidth: number;
+  viewportHeight: number;
+  onNavigate: (normalizedX: number, normalizedY: number) => void;
+}
+
+const MINIMAP_WIDTH = 160;
+
+const Minimap: React.FC<MinimapProps> = ({ source, overlays, transform, viewportWidth, viewportHeight, onNavigate }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDragging = useRef(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !source || source.width === 0) return;
+    canvas.width = MINIMAP_WIDTH;
+    canvas.height = Math.round(MINIMAP_WIDTH * source.height / source.width);
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    overlays.forEach(overlay => {
+      if (overlay) ctx.drawImage(overlay, 0, 0, canvas.width, canvas.height);
+    });
+  }, [source, overlays, transform]);
+
+  if (viewportWidth === 0 || viewportHeight === 0) return null;
+
+  // Visible part of the content, as fractions of its full size.
+  const left = Math.max(0, -transform.offsetX / (viewportWidth * transform.zoom));
+  const top = Math.max(0, -transform.offsetY / (viewportHeight * transform.zoom));
+  const width = Math.min(1 - left, 1 / transform.zoom);
+  const height = Math.min(1 - top, 1 / transform.zoom);
+
+  const navigate = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onNavigate((e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height);
+  };
+
+  return (
+    <div
+      className="absolute bottom-2 right-2 z-10 rounded-md overflow-hidden border border-gray-500 shadow-lg bg-gray-900 cursor-pointer"
+      style={{ width: MINIMAP_WIDTH }}
+      onMouseDown={(e) => { e.stopPropagation(); isDragging.current = true; navigate(e); }}
+      onMouseMove={(e) => { if (isDragging.current) navigate(e); }}
+      onMouseUp={() => { isDragging.current = false; }}
+      onMouseLeave={() => { isDragging.current = false; }}
+    >
+      <canvas ref={canvasRef} className="block w-full" />
+      <div
+        className="absolute border-2 border-purple-400 bg-purple-400/10 pointer-events-none"
+        style={{ left: `${left * 100}%`, top: `${top * 100}%`, width: `${width * 100}%`, height: `${height * 100}%` }}
+      />
+    </div>
+  );
+};
+
+export default Minimap;
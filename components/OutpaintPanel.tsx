@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { ExpandIcon } from './Icons';
+import { CanvasExpansion, ExpansionAnchor, MAX_OUTPAINT_DIMENSION, NO_EXPANSION, expandedSize, expansionForAspect, hasExpansion } from '../utils/outpaintUtils';
+
+interface OutpaintPanelProps {
+  // Size of the image being extended, in original pixels.
+  imageSize: { width: number, height: number } | null;
+  expansion: CanvasExpansion;
+  onExpansionChange: (expansion: CanvasExpansion) => void;
+  prompt: string;
+  onPromptChange: (prompt: string) => void;
+  onGenerate: () => void;
+  disabled?: boolean;
+}
+
+const ASPECT_PRESETS: { label: string, aspect: number }[] = [
+  { label: '1:1', aspect: 1 },
+  { label: '4:3', aspect: 4 / 3 },
+  { label: '3:2', aspect: 3 / 2 },
+  { label: '16:9', aspect: 16 / 9 },
+  { label: '4:5', aspect: 4 / 5 },
+  { label: '2:3', aspect: 2 / 3 },
+  { label: '9:16', aspect: 9 / 16 },
+];
+
+const SIDES: (keyof CanvasExpansion)[] = ['top', 'right', 'bottom', 'left'];
+const ANCHORS: ExpansionAnchor[] = ['start', 'center', 'end'];
+
+const anchorLabel = (anchor: ExpansionAnchor, horizontal: boolean): string => {
+  if (anchor === 'center') return horizontal ? 'Centre' : 'Middle';
+  if (anchor === 'start') return horizontal ? 'Left' : 'Top';
+  return horizontal ? 'Right' : 'Bottom';
+};
+
+/**
+ * Extends the canvas beyond the image, either by a number of pixels per side
+ * or out to an aspect ratio, and describes what should fill the new area.
+ */
+const OutpaintPanel: React.FC<OutpaintPanelProps> = ({
+  imageSize, expansion, onExpansionChange, prompt, onPromptChange, onGenerate, disabled = false,
+}) => {
+  // The chosen aspect preset, or null while the sides are set by hand.
+  const [preset, setPreset] = useState<string | null>(null);
+  const [anchor, setAnchor] = useState<ExpansionAnchor>('center');
+
+  // A new base image starts unexpanded.
+  useEffect(() => {
+    setPreset(null);
+  }, [imageSize?.width, imageSize?.height]);
+
+  if (!imageSize) return null;
+
+  const output = expandedSize(imageSize.width, imageSize.height, expansion);
+  const tooLarge = Math.max(output.width, output.height) > MAX_OUTPAINT_DIMENSION;
+  const selectedPreset = ASPECT_PRESETS.find(p => p.label === preset);
+  const growsHorizontally = selectedPreset ? selectedPreset.aspect > imageSize.width / imageSize.height : expansion.left + expansion.right > 0;
+  const canGenerate = !disabled && hasExpansion(expansion) && !tooLarge && prompt.trim() !== '';
+
+  const choosePreset = (label: string | null, nextAnchor = anchor) => {
+    setPreset(label);
+    const chosen = ASPECT_PRESETS.find(p => p.label === label);
+    onExpansionChange(chosen ? expansionForAspect(imageSize.width, imageSize.height, chosen.aspect, nextAnchor) : NO_EXPANSION);
+  };
+
+  const chooseAnchor = (next: ExpansionAnchor) => {
+    setAnchor(next);
+    if (preset) choosePreset(preset, next);
+  };
+
+  const setSide = (side: keyof CanvasExpansion, value: number) => {
+    setPreset(null);
+    onExpansionChange({ ...expansion, [side]: Math.max(0, Math.round(Number.isFinite(value) ? value : 0)) });
+  };
+
+  const buttonClass = (active: boolean) =>
+    `px-2 py-1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${active ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`;
+
+  return (
+    <div className="w-full bg-gray-900/50 p-3 rounded-lg">
+      <h3 className="text-sm font-semibold text-gray-400 mb-2 flex items-center gap-2">
+        <ExpandIcon className="w-4 h-4" />
+        Extend Canvas
+      </h3>
+      <div className="flex gap-3">
+        <div className="flex-grow flex flex-col gap-2 text-xs text-gray-400">
+          <div className="flex flex-wrap gap-1">
+            <button onClick={() => choosePreset(null)} disabled={disabled} className={`${buttonClass(preset === null)} rounded-md`} title="Set each side by hand">
+              Custom
+            </button>
+            {ASPECT_PRESETS.map(option => (
+              <button key={option.label} onClick={() => choosePreset(option.label)} disabled={disabled} className={`${buttonClass(preset === option.label)} rounded-md`}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {preset ? (
+            <div className="flex items-center gap-2">
+              <span>Keep image:</span>
+              <div className="flex items-center rounded-md overflow-hidden border border-gray-600">
+                {ANCHORS.map(option => (
+                  <button key={option} onClick={() => chooseAnchor(option)} disabled={disabled} className={buttonClass(anchor === option)}>
+                    {anchorLabel(option, growsHorizontally)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+              {SIDES.map(side => (
+                <label key={side} className="flex items-center justify-between gap-2 capitalize">
+                  <span>{side}:</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={16}
+                    value={expansion[side]}
+                    onChange={(e) => setSide(side, e.target.valueAsNumber)}
+                    className="w-20 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200"
+                    disabled={disabled}
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+          <p className={tooLarge ? 'text-red-400' : undefined}>
+            {imageSize.width} × {imageSize.height} → {output.width} × {output.height}px
+            {tooLarge && ` (at most ${MAX_OUTPAINT_DIMENSION}px per side)`}
+          </p>
+        </div>
+        {/* Where the original sits in the extended canvas. */}
+        <div className="w-20 h-20 flex-shrink-0 flex items-center justify-center">
+          <div
+            className="relative bg-gray-700 border border-dashed border-gray-500"
+            style={output.width >= output.height
+              ? { width: '100%', aspectRatio: `${output.width} / ${output.height}` }
+              : { height: '100%', aspectRatio: `${output.width} / ${output.height}` }}
+          >
+            <div
+              className="absolute bg-purple-500/60 border border-purple-300"
+              style={{
+                left: `${expansion.left / output.width * 100}%`,
+                top: `${expansion.top / output.height * 100}%`,
+                width: `${imageSize.width / output.width * 100}%`,
+                height: `${imageSize.height / output.height * 100}%`,
+              }}
+            />
+          </div>
+        </div>
+      </div>
+      <div className="flex gap-2 mt-3">
+        <input
+          type="text"
+          value={prompt}
+          onChange={(e) => onPromptChange(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter' && canGenerate) onGenerate(); }}
+          placeholder='What the new area shows, e.g. "more of the beach and sky"'
+          className="flex-grow min-w-0 p-2 text-sm bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          disabled={disabled}
+        />
+        <button onClick={onGenerate} disabled={!canGenerate} className="text-xs bg-purple-600 hover:bg-purple-700 text-white py-1 px-3 rounded-md disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap">
+          Extend
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default OutpaintPanel;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { toSvgPathData, VectorPath } from '../utils/pathUtils';
+
+interface PathOverlayProps {
+  path: VectorPath;
+  // Canvas pixel size, which is the coordinate space of the path.
+  width: number;
+  height: number;
+  // Radius of node markers in canvas pixels, so they stay a constant size on screen.
+  handleRadius: number;
+  color: string;
+}
+
+/** Draws an editable path with its nodes and bezier handles over the mask canvas. */
+const PathOverlay: React.FC<PathOverlayProps> = ({ path, width, height, handleRadius, color }) => {
+  if (width === 0 || height === 0) return null;
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      className="absolute top-0 left-0 w-full h-full pointer-events-none overflow-visible"
+    >
+      <path
+        d={toSvgPathData(path)}
+        fill={path.closed ? color : 'none'}
+        fillOpacity={0.25}
+        stroke="white"
+        strokeWidth={1.5}
+        strokeDasharray="6 4"
+        vectorEffect="non-scaling-stroke"
+      />
+      {path.nodes.map((node, index) => (
+        <g key={index}>
+          {[node.handleIn, node.handleOut].map((handle, i) => handle && (
+            <g key={i}>
+              <line x1={node.point.x} y1={node.point.y} x2={handle.x} y2={handle.y} stroke="white" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+              <circle cx={handle.x} cy={handle.y} r={handleRadius * 0.7} fill={color} stroke="white" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+            </g>
+          ))}
+          <rect
+            x={node.point.x - handleRadius}
+            y={node.point.y - handleRadius}
+            width={handleRadius * 2}
+            height={handleRadius * 2}
+            // The first node of an open path is highlighted because clicking it closes the path.
+            fill={index === 0 && !path.closed && path.nodes.length >= 3 ? color : 'white'}
+            stroke="black"
+            strokeWidth={1}
+            vectorEffect="non-scaling-stroke"
+          />
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export default PathOverlay;
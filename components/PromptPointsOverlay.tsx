@@ -0,0 +1,40 @@
+import React from 'react';
+import { Point } from '../types';
+
+export interface PromptPoint {
+  point: Point;
+  include: boolean;
+}
+
+interface PromptPointsOverlayProps {
+  points: PromptPoint[];
+  // Canvas pixel size, which is the coordinate space of the points.
+  width: number;
+  height: number;
+  // Marker radius in canvas pixels, so markers stay a constant size on screen.
+  radius: number;
+}
+
+/** Include (green, +) and exclude (red, −) points for refining a selection by description. */
+const PromptPointsOverlay: React.FC<PromptPointsOverlayProps> = ({ points, width, height, radius }) => {
+  if (width === 0 || height === 0 || points.length === 0) return null;
+  const arm = radius * 0.5;
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      className="absolute top-0 left-0 w-full h-full pointer-events-none overflow-visible"
+    >
+      {points.map(({ point, include }, index) => (
+        <g key={index}>
+          <circle cx={point.x} cy={point.y} r={radius} fill={include ? '#22c55e' : '#ef4444'} stroke="white" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+          <line x1={point.x - arm} y1={point.y} x2={point.x + arm} y2={point.y} stroke="white" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+          {include && <line x1={point.x} y1={point.y - arm} x2={point.x} y2={point.y + arm} stroke="white" strokeWidth={2} vectorEffect="non-scaling-stroke" />}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export default PromptPointsOverlay;
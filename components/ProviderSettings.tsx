@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { DEFAULT_MODELS, setProviderConfig } from '../services/providerRegistry';
+import { ProviderKind } from '../services/providers/ImageEditProvider';
+import { useProviderConfig } from '../hooks/useProviderConfig';
+
+const PROVIDER_LABELS: Record<ProviderKind, string> = {
+  gemini: 'Google Gemini',
+  mock: 'Local mock (offline)',
+  http: 'Self-hosted (SD API)',
+};
+
+const ProviderSettings: React.FC = () => {
+  const config = useProviderConfig();
+  const [model, setModel] = useState(config.model);
+  const [endpoint, setEndpoint] = useState(config.endpoint ?? 'http://127.0.0.1:7860');
+
+  const handleKindChange = (kind: ProviderKind) => {
+    const nextModel = DEFAULT_MODELS[kind];
+    setModel(nextModel);
+    setProviderConfig({ kind, model: nextModel, endpoint: kind === 'http' ? endpoint : undefined });
+  };
+
+  const applyModel = () => {
+    const trimmed = model.trim() || DEFAULT_MODELS[config.kind];
+    setModel(trimmed);
+    setProviderConfig({ ...config, model: trimmed });
+  };
+
+  const applyEndpoint = () => {
+    setProviderConfig({ ...config, endpoint: endpoint.trim() });
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-sm text-gray-300">
+      <div>
+        <label htmlFor="provider-kind" className="block text-gray-400 mb-1">Provider</label>
+        <select
+          id="provider-kind"
+          value={config.kind}
+          onChange={(e) => handleKindChange(e.target.value as ProviderKind)}
+          className="w-full p-2 bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-purple-500"
+        >
+          {(Object.keys(PROVIDER_LABELS) as ProviderKind[]).map(kind => (
+            <option key={kind} value={kind}>{PROVIDER_LABELS[kind]}</option>
+          ))}
+        </select>
+      </div>
+      {config.kind !== 'mock' && (
+        <div>
+          <label htmlFor="provider-model" className="block text-gray-400 mb-1">Model</label>
+          <input
+            id="provider-model"
+            type="text"
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            onBlur={applyModel}
+            className="w-full p-2 bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-purple-500"
+          />
+        </div>
+      )}
+      {config.kind === 'http' && (
+        <div>
+          <label htmlFor="provider-endpoint" className="block text-gray-400 mb-1">Endpoint</label>
+          <input
+            id="provider-endpoint"
+            type="url"
+            value={endpoint}
+            onChange={(e) => setEndpoint(e.target.value)}
+            onBlur={applyEndpoint}
+            placeholder="http://127.0.0.1:7860"
+            className="w-full p-2 bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-purple-500"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSettings;
@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { ProjectSummary } from '../types';
+import { deleteProject, getLastProjectId, listProjects } from '../services/sessionStore';
+import { TrashIcon } from './Icons';
+
+interface RecentProjectsProps {
+  onOpen: (id: string) => void;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const ProjectThumbnail: React.FC<{ thumbnail: Blob | null, name: string }> = ({ thumbnail, name }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!thumbnail) return;
+    const objectUrl = URL.createObjectURL(thumbnail);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [thumbnail]);
+
+  return url
+    ? <img src={url} alt={name} className="w-14 h-14 object-cover rounded-md flex-shrink-0" />
+    : <div className="w-14 h-14 rounded-md bg-gray-700 flex-shrink-0" />;
+};
+
+const RecentProjects: React.FC<RecentProjectsProps> = ({ onOpen }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listProjects()
+      .then(setProjects)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load saved sessions.'));
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteProject(id);
+      setProjects(prev => prev.filter(p => p.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete the session.');
+    }
+  };
+
+  if (error) {
+    return <p className="text-red-400 text-center mt-4">{error}</p>;
+  }
+  if (projects.length === 0) return null;
+
+  const lastId = getLastProjectId();
+  const lastProject = projects.find(p => p.id === lastId) ?? projects[0];
+
+  return (
+    <div className="mt-6 flex flex-col gap-4">
+      <button
+        onClick={() => onOpen(lastProject.id)}
+        className="w-full bg-purple-700 text-white font-bold py-3 px-4 rounded-lg hover:bg-purple-800 transition-all shadow-md"
+      >
+        Resume last session ({lastProject.name})
+      </button>
+      <div>
+        <h3 className="text-sm font-semibold text-gray-400 mb-2">Recent projects</h3>
+        <ul className="flex flex-col gap-2">
+          {projects.map(project => (
+            <li key={project.id} className="flex items-center gap-3 p-2 bg-gray-900/50 rounded-lg border border-gray-700">
+              <ProjectThumbnail thumbnail={project.thumbnail} name={project.name} />
+              <div className="flex-grow min-w-0">
+                <p className="text-gray-200 truncate">{project.name}</p>
+                <p className="text-xs text-gray-500">Updated {formatDate(project.updatedAt)}</p>
+              </div>
+              <button onClick={() => onOpen(project.id)} className="text-sm bg-gray-700 hover:bg-gray-600 text-gray-200 py-1 px-3 rounded-md">
+                Open
+              </button>
+              <button onClick={() => handleDelete(project.id)} className="p-2 rounded-md text-gray-400 hover:text-white hover:bg-red-700" title="Delete project">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default RecentProjects;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { clearUsage, setUsageBudget, UsageTotals } from '../services/usageLedger';
+import { setSchedulerLimits } from '../services/requestScheduler';
+import { useSchedulerState, useUsage } from '../hooks/useUsage';
+
+const formatMegabytes = (bytes: number) => `${(bytes / 1_000_000).toFixed(1)} MB`;
+
+const Totals: React.FC<{ label: string, totals: UsageTotals }> = ({ label, totals }) => (
+  <div>
+    <p className="text-gray-400 mb-1">{label}</p>
+    <dl className="grid grid-cols-2 gap-x-2 text-xs">
+      <dt className="text-gray-500">Requests</dt>
+      <dd>{totals.requests}{totals.failures > 0 && <span className="text-red-400"> ({totals.failures} failed)</span>}</dd>
+      <dt className="text-gray-500">Images</dt>
+      <dd>{totals.outputImages}</dd>
+      <dt className="text-gray-500">Sent / received</dt>
+      <dd>{formatMegabytes(totals.inputBytes)} / {formatMegabytes(totals.outputBytes)}</dd>
+      <dt className="text-gray-500">Est. cost</dt>
+      <dd>{totals.estimatedCost.toFixed(2)}</dd>
+    </dl>
+  </div>
+);
+
+const inputClass = 'w-full p-1.5 bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-purple-500';
+
+/** Usage totals, the soft daily budget and the request scheduler's limits. */
+const UsagePanel: React.FC = () => {
+  const usage = useUsage();
+  const scheduler = useSchedulerState();
+  const [dailyLimit, setDailyLimit] = useState(usage.budget.dailyLimit?.toString() ?? '');
+  const [costPerImage, setCostPerImage] = useState(usage.budget.costPerImage.toString());
+  const [maxConcurrent, setMaxConcurrent] = useState(scheduler.limits.maxConcurrent.toString());
+  const [requestsPerMinute, setRequestsPerMinute] = useState(scheduler.limits.requestsPerMinute.toString());
+
+  const applyBudget = () => {
+    const limit = parseFloat(dailyLimit);
+    const cost = parseFloat(costPerImage);
+    const next = {
+      dailyLimit: Number.isFinite(limit) && limit > 0 ? limit : null,
+      costPerImage: Number.isFinite(cost) && cost >= 0 ? cost : usage.budget.costPerImage,
+    };
+    setDailyLimit(next.dailyLimit?.toString() ?? '');
+    setCostPerImage(next.costPerImage.toString());
+    setUsageBudget(next);
+  };
+
+  const applyLimits = () => {
+    const concurrent = parseInt(maxConcurrent, 10);
+    const perMinute = parseInt(requestsPerMinute, 10);
+    const next = {
+      maxConcurrent: concurrent >= 1 ? concurrent : scheduler.limits.maxConcurrent,
+      requestsPerMinute: perMinute >= 1 ? perMinute : scheduler.limits.requestsPerMinute,
+    };
+    setMaxConcurrent(next.maxConcurrent.toString());
+    setRequestsPerMinute(next.requestsPerMinute.toString());
+    setSchedulerLimits(next);
+  };
+
+  const overBudget = usage.budget.dailyLimit !== null && usage.today.estimatedCost > usage.budget.dailyLimit;
+
+  return (
+    <div className="flex flex-col gap-3 text-sm text-gray-300">
+      <div className="grid grid-cols-2 gap-3">
+        <Totals label="This session" totals={usage.session} />
+        <Totals label="Today" totals={usage.today} />
+      </div>
+      {overBudget && (
+        <p className="text-xs text-yellow-300">Today's estimated spend is over your daily budget.</p>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label htmlFor="usage-daily-limit" className="block text-gray-400 mb-1 text-xs">Daily budget</label>
+          <input id="usage-daily-limit" type="number" min={0} step="0.5" value={dailyLimit} placeholder="None" onChange={(e) => setDailyLimit(e.target.value)} onBlur={applyBudget} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="usage-cost" className="block text-gray-400 mb-1 text-xs">Cost per image</label>
+          <input id="usage-cost" title="Charged for the Gemini provider only; the mock and self-hosted providers are free" type="number" min={0} step="0.001" value={costPerImage} onChange={(e) => setCostPerImage(e.target.value)} onBlur={applyBudget} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="scheduler-concurrent" className="block text-gray-400 mb-1 text-xs">Parallel requests</label>
+          <input id="scheduler-concurrent" type="number" min={1} step={1} value={maxConcurrent} onChange={(e) => setMaxConcurrent(e.target.value)} onBlur={applyLimits} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="scheduler-per-minute" className="block text-gray-400 mb-1 text-xs">Requests / minute</label>
+          <input id="scheduler-per-minute" type="number" min={1} step={1} value={requestsPerMinute} onChange={(e) => setRequestsPerMinute(e.target.value)} onBlur={applyLimits} className={inputClass} />
+        </div>
+      </div>
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        <span>
+          {scheduler.active} running{scheduler.waiting > 0 && `, ${scheduler.waiting} waiting`}
+        </span>
+        <button onClick={clearUsage} disabled={usage.entries.length === 0} className="text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed">
+          Clear history
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { EditVersion } from '../types';
+
+interface VersionHistoryProps {
+  versions: EditVersion[];
+  activeId: string;
+  getLabel: (version: EditVersion) => string;
+  onSelect: (id: string) => void;
+  disabled?: boolean;
+}
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ versions, activeId, getLabel, onSelect, disabled = false }) => {
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    versions.forEach(v => {
+      urls[v.id] = URL.createObjectURL(v.image);
+    });
+    setThumbnails(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [versions]);
+
+  if (versions.length < 2) return null;
+
+  const byId = new Map<string, EditVersion>(versions.map(v => [v.id, v]));
+
+  return (
+    <div className="w-full bg-gray-900/50 p-3 rounded-lg">
+      <h3 className="text-sm font-semibold text-gray-400 mb-2">Versions</h3>
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {versions.map((version, index) => {
+          const parent = version.parentId ? byId.get(version.parentId) : undefined;
+          // Only call out the parent when it isn't simply the previous step.
+          const isBranch = parent !== undefined && versions[index - 1]?.id !== parent.id;
+          const isActive = version.id === activeId;
+          return (
+            <button
+              key={version.id}
+              onClick={() => onSelect(version.id)}
+              disabled={disabled}
+              className={`flex-shrink-0 w-24 flex flex-col items-center gap-1 p-1 rounded-md border transition-colors disabled:cursor-not-allowed ${isActive ? 'border-purple-500 bg-purple-900/30' : 'border-gray-700 hover:border-gray-500'}`}
+              title={version.prompt || 'Original upload'}
+            >
+              {thumbnails[version.id] && (
+                <img src={thumbnails[version.id]} alt={getLabel(version)} className="w-full h-16 object-cover rounded" />
+              )}
+              <span className="text-xs text-gray-300">{getLabel(version)}</span>
+              {isBranch && <span className="text-[10px] text-gray-500">from {getLabel(parent)}</span>}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistory;
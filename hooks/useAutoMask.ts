@@ -0,0 +1,231 @@
+import React, { useState, useRef } from 'react';
+import { generateBackgroundMask, generateObjectMask } from '../services/geminiService';
+import { budgetWarning } from '../services/usageLedger';
+import { fileToBase64, loadImage, createCanvas, get2dContext } from '../utils/imageUtils';
+import { readOverlayMask, readProviderMask, writeOverlayMask } from '../utils/maskUtils';
+import { invertMask } from '../utils/maskOps';
+import { applySelectionMask, SelectionMode } from '../utils/selectionUtils';
+import { SegmentationTarget } from '../utils/segmentation';
+import { MaskLayer, Point } from '../types';
+import { AutoMaskTarget, PromptMaskMode, SegmentationEngine } from '../components/AutoMaskPanel';
+import { PromptPoint } from '../components/PromptPointsOverlay';
+import { useSegmentation } from './useSegmentation';
+
+// On-device segmentation runs on a copy no larger than this; the cut is smoothed when scaled back up.
+const SEGMENTATION_MAX_DIMENSION = 256;
+
+interface AutoMaskOptions {
+  imageCanvasRef: React.RefObject<HTMLCanvasElement | null>;
+  drawingCanvasRef: React.RefObject<HTMLCanvasElement | null>;
+  // The image being masked, as sent to the provider.
+  image: Blob;
+  activeLayer: MaskLayer;
+  getLayerCanvas: (id: string) => HTMLCanvasElement | null;
+  recordHistory: () => void;
+  onMaskChanged: () => void;
+  // Counts every change to the mask, so a selection by description can tell whether it is still the latest edit.
+  maskChangeCount: React.RefObject<number>;
+  startRequest: (kind: 'mask' | 'segmentation') => AbortSignal;
+  setError: (error: string | null) => void;
+  reportError: (err: unknown, fallback: string) => void;
+}
+
+interface AutoMask {
+  engine: SegmentationEngine;
+  setEngine: (engine: SegmentationEngine) => void;
+  isMasking: boolean;
+  description: string;
+  setDescription: (description: string) => void;
+  promptMode: PromptMaskMode;
+  setPromptMode: (mode: PromptMaskMode) => void;
+  promptPoints: PromptPoint[];
+  clearPromptPoints: () => void;
+  // Whether "Update" can re-run the last selection by description.
+  canRefine: boolean;
+  maskTarget: (target: AutoMaskTarget) => Promise<boolean>;
+  pickObject: (pos: Point, mode: SelectionMode) => Promise<boolean>;
+  selectByPrompt: () => Promise<void>;
+  togglePromptPoint: (pos: Point, include: boolean, hitRadius: number) => void;
+}
+
+/**
+ * Masks computed rather than painted: the subject or background, an object
+ * picked on the canvas, or whatever a description and points select. Each
+ * runs on the device or through the provider and is written into the active
+ * layer.
+ */
+export const useAutoMask = ({
+  imageCanvasRef,
+  drawingCanvasRef,
+  image,
+  activeLayer,
+  getLayerCanvas,
+  recordHistory,
+  onMaskChanged,
+  maskChangeCount,
+  startRequest,
+  setError,
+  reportError,
+}: AutoMaskOptions): AutoMask => {
+  const [engine, setEngine] = useState<SegmentationEngine>('local');
+  const [isMasking, setIsMasking] = useState(false);
+  const [description, setDescription] = useState('');
+  const [promptMode, setPromptMode] = useState<PromptMaskMode>('add');
+  // Include/exclude points for selecting by description, in canvas pixels.
+  const [promptPoints, setPromptPoints] = useState<PromptPoint[]>([]);
+  // The layer as it was before the last selection by description, which "Update" re-applies onto.
+  const lastPromptSelection = useRef<{ layerId: string, changeCount: number, before: ImageData } | null>(null);
+  const segment = useSegmentation();
+
+  /** Runs a segmentation engine on the current image; 255 marks the subject (or the picked object). */
+  const segmentLocally = async (target: SegmentationTarget, seed?: Point): Promise<Uint8ClampedArray> => {
+    const imageCanvas = imageCanvasRef.current;
+    if (!imageCanvas) throw new Error('The image is not ready yet.');
+    const { width, height } = imageCanvas;
+    const scale = Math.min(1, SEGMENTATION_MAX_DIMENSION / Math.max(width, height));
+    const small = createCanvas(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)));
+    const smallCtx = get2dContext(small);
+    smallCtx.drawImage(imageCanvas, 0, 0, small.width, small.height);
+    const mask = await segment({
+        pixels: smallCtx.getImageData(0, 0, small.width, small.height).data,
+        width: small.width,
+        height: small.height,
+        target,
+        seed: seed && { x: seed.x * small.width / width, y: seed.y * small.height / height },
+    });
+    writeOverlayMask(small, mask, '#ffffff');
+    const full = createCanvas(width, height);
+    get2dContext(full).drawImage(small, 0, 0, width, height);
+    return readOverlayMask(full);
+  };
+
+  /** Scales a black and white mask from the provider to the canvas and reads white as masked. */
+  const decodeProviderMask = async (maskBase64: string): Promise<Uint8ClampedArray> => {
+    const canvas = drawingCanvasRef.current;
+    if (!canvas) throw new Error('Drawing canvas not available.');
+    const maskImage = await loadImage(`data:image/png;base64,${maskBase64}`);
+    return readProviderMask(maskImage, canvas.width, canvas.height);
+  };
+
+  /** Asks the provider for a background mask; 255 marks the background. */
+  const segmentRemotely = async (signal: AbortSignal): Promise<Uint8ClampedArray> => {
+    const imageBase64 = await fileToBase64(image);
+    return decodeProviderMask(await generateBackgroundMask(imageBase64, image.type, signal));
+  };
+
+  /** Asks the provider to select what the description and points say; 255 marks the selection. */
+  const selectRemotely = async (signal: AbortSignal): Promise<Uint8ClampedArray> => {
+    const canvas = drawingCanvasRef.current;
+    if (!canvas) throw new Error('Drawing canvas not available.');
+    const points = promptPoints.map(({ point, include }) => ({ x: point.x / canvas.width, y: point.y / canvas.height, include }));
+    const imageBase64 = await fileToBase64(image);
+    return decodeProviderMask(await generateObjectMask(imageBase64, image.type, description, points, signal));
+  };
+
+  /**
+   * Runs `compute` and writes its mask into the active layer, replacing the
+   * layer's mask or combining with it per `mode`. The result is dropped if it
+   * was cancelled, or the layer switched or canvas resized in the meantime.
+   */
+  const applyComputedMask = async (
+    compute: (signal: AbortSignal) => Promise<Uint8ClampedArray>,
+    // Whether `compute` calls the provider or segments on the device.
+    computedBy: SegmentationEngine,
+    mode: SelectionMode | 'replace',
+    fallbackError: string,
+    // Layer contents to restore before applying, instead of applying onto the current mask.
+    base?: ImageData
+  ): Promise<boolean> => {
+    const canvas = drawingCanvasRef.current;
+    if (!canvas) return false;
+    const { width, height } = canvas;
+    const layerId = activeLayer.id;
+    const color = activeLayer.color;
+    if (computedBy === 'remote') {
+        const warning = budgetWarning(1);
+        if (warning && !window.confirm(warning)) return false;
+    }
+
+    setIsMasking(true);
+    setError(null);
+    const signal = startRequest(computedBy === 'remote' ? 'mask' : 'segmentation');
+    try {
+        const mask = await compute(signal);
+        if (signal.aborted) return false;
+        if (getLayerCanvas(layerId) !== canvas || canvas.width !== width || canvas.height !== height) return false;
+        recordHistory();
+        if (base) {
+            get2dContext(canvas).putImageData(base, 0, 0);
+        }
+        if (mode === 'replace') {
+            writeOverlayMask(canvas, mask, color);
+        } else {
+            applySelectionMask(canvas, mask, mode, color);
+        }
+        onMaskChanged();
+        return true;
+    } catch (err) {
+        reportError(err, fallbackError);
+        return false;
+    } finally {
+        setIsMasking(false);
+    }
+  };
+
+  const maskTarget = (target: AutoMaskTarget) => applyComputedMask(async signal => {
+    if (engine === 'remote') {
+        const background = await segmentRemotely(signal);
+        return target === 'background' ? background : invertMask(background);
+    }
+    const subject = await segmentLocally('subject');
+    return target === 'subject' ? subject : invertMask(subject);
+  }, engine, 'replace', `Failed to mask the ${target}.`);
+
+  const pickObject = (pos: Point, mode: SelectionMode) =>
+    applyComputedMask(() => segmentLocally('object', pos), 'local', mode, 'Failed to select that object.');
+
+  // Nothing may have touched the layer since the last selection for it to be re-run.
+  const canRefine = !!lastPromptSelection.current
+    && lastPromptSelection.current.layerId === activeLayer.id
+    && lastPromptSelection.current.changeCount === maskChangeCount.current;
+
+  const selectByPrompt = async () => {
+    const canvas = drawingCanvasRef.current;
+    if (!canvas) return;
+    const layerId = activeLayer.id;
+    const before = canRefine
+        ? lastPromptSelection.current!.before
+        : get2dContext(canvas).getImageData(0, 0, canvas.width, canvas.height);
+    const applied = await applyComputedMask(selectRemotely, 'remote', promptMode, 'Failed to select that.', canRefine ? before : undefined);
+    if (applied) {
+        lastPromptSelection.current = { layerId, changeCount: maskChangeCount.current, before };
+    }
+  };
+
+  /** Removes the point near `pos`, or adds one there if there is none. */
+  const togglePromptPoint = (pos: Point, include: boolean, hitRadius: number) => {
+    const hit = promptPoints.findIndex(({ point }) => Math.hypot(point.x - pos.x, point.y - pos.y) <= hitRadius);
+    if (hit >= 0) {
+        setPromptPoints(promptPoints.filter((_, i) => i !== hit));
+    } else {
+        setPromptPoints([...promptPoints, { point: pos, include }]);
+    }
+  };
+
+  return {
+    engine,
+    setEngine,
+    isMasking,
+    description,
+    setDescription,
+    promptMode,
+    setPromptMode,
+    promptPoints,
+    clearPromptPoints: () => setPromptPoints([]),
+    canRefine,
+    maskTarget,
+    pickObject,
+    selectByPrompt,
+    togglePromptPoint,
+  };
+};
@@ -0,0 +1,123 @@
+import React from 'react';
+import { editImageWithMask } from '../services/geminiService';
+import { budgetWarning } from '../services/usageLedger';
+import { loadImage, createCanvas, get2dContext } from '../utils/imageUtils';
+import { createSoftMask, hasPaint } from '../utils/maskUtils';
+import { placeResult } from '../utils/compositeUtils';
+import { prepareEditRequest } from '../utils/requestUtils';
+import { BackgroundFill, composeOverBackground } from '../utils/backgroundUtils';
+import { GeneratedEdit, WorkingResolution } from '../types';
+import { BackgroundChoice, EdgeSettings } from '../components/BackgroundPanel';
+import { useMatte } from './useMatte';
+
+interface BackgroundReplacementOptions {
+  // The active layer's mask, which marks the background.
+  drawingCanvasRef: React.RefObject<HTMLCanvasElement | null>;
+  sourceImageRef: React.RefObject<HTMLImageElement | null>;
+  layerId: string;
+  negativePrompt: string;
+  style: string;
+  workingResolution: WorkingResolution;
+  variationCount: number;
+  model: string;
+  // Working size of a result shown in the editor.
+  previewSize: (size: { width: number, height: number }) => { width: number, height: number };
+  setError: (error: string | null) => void;
+  // Runs an edit that replaces the current results with what `produce` returns.
+  runEdit: (fallbackError: string, produce: (signal: AbortSignal) => Promise<GeneratedEdit | null>) => Promise<void>;
+}
+
+/**
+ * Cuts the subject out of the full-resolution image, treating the active
+ * layer's mask as the background, and puts it over the chosen background.
+ * A generated background is inpainted into the masked area first; the
+ * subject is then laid over it so its own pixels come through unchanged.
+ */
+export const useBackgroundReplacement = ({
+  drawingCanvasRef,
+  sourceImageRef,
+  layerId,
+  negativePrompt,
+  style,
+  workingResolution,
+  variationCount,
+  model,
+  previewSize,
+  setError,
+  runEdit,
+}: BackgroundReplacementOptions) => {
+  const refineCutout = useMatte();
+
+  return async (choice: BackgroundChoice, edge: EdgeSettings) => {
+    const drawingCanvas = drawingCanvasRef.current;
+    const sourceImage = sourceImageRef.current;
+    if (!drawingCanvas || !sourceImage || !hasPaint(drawingCanvas)) {
+      setError('Mask the background first, with "Detect background" or the brush.');
+      return;
+    }
+    if (choice.kind === 'generate') {
+      const warning = budgetWarning(variationCount);
+      if (warning && !window.confirm(warning)) return;
+    }
+
+    await runEdit('An unknown error occurred while replacing the background.', async signal => {
+        const { naturalWidth: width, naturalHeight: height } = sourceImage;
+        const scale = width / drawingCanvas.width;
+        const backgroundMask = createSoftMask(drawingCanvas);
+
+        const full = createCanvas(width, height);
+        const fullCtx = get2dContext(full);
+        fullCtx.imageSmoothingQuality = 'high';
+        fullCtx.drawImage(backgroundMask, 0, 0, width, height);
+        const maskPixels = fullCtx.getImageData(0, 0, width, height).data;
+        const alpha = new Uint8ClampedArray(width * height);
+        for (let i = 0; i < alpha.length; i++) alpha[i] = 255 - maskPixels[i * 4];
+        fullCtx.clearRect(0, 0, width, height);
+        fullCtx.drawImage(sourceImage, 0, 0);
+
+        const cutoutPixels = await refineCutout({
+            pixels: fullCtx.getImageData(0, 0, width, height).data,
+            alpha,
+            width,
+            height,
+            edgeShift: edge.shift * scale,
+            feather: edge.feather * scale,
+            decontaminate: edge.decontaminate / 100,
+        });
+        if (signal.aborted) return null;
+        const cutout = createCanvas(width, height);
+        const cutoutCtx = get2dContext(cutout);
+        const cutoutData = cutoutCtx.createImageData(width, height);
+        cutoutData.data.set(cutoutPixels);
+        cutoutCtx.putImageData(cutoutData, 0, 0);
+
+        let fills: BackgroundFill[];
+        if (choice.kind === 'generate') {
+            const request = prepareEditRequest(sourceImage, drawingCanvas, { resolution: workingResolution, cropToMask: false });
+            const results = await editImageWithMask(choice.prompt, negativePrompt, style, request.imageBase64, request.mimeType, request.maskBase64, variationCount, signal);
+            fills = await Promise.all(results.map(async resultBase64 => ({
+                kind: 'image' as const,
+                image: await loadImage(`data:image/png;base64,${resultBase64}`),
+                scale: 1,
+                offsetX: 0,
+                offsetY: 0,
+            })));
+        } else {
+            fills = [choice];
+        }
+
+        return {
+            mask: backgroundMask,
+            settings: { prompt: choice.kind === 'generate' ? `Background: ${choice.prompt}` : 'Replace background', negativePrompt, style },
+            model: choice.kind === 'generate' ? model : undefined,
+            layerIds: [layerId],
+            preview: previewSize({ width, height }),
+            results: fills.map(fill => ({
+                image: composeOverBackground(cutout, fill),
+                // Generated fills are the provider's whole image; colours and uploads have no provider output.
+                raw: fill.kind === 'image' && choice.kind === 'generate' ? placeResult(sourceImage, width, height, fill.image) : null,
+            })),
+        };
+    });
+  };
+};
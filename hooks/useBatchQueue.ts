@@ -0,0 +1,100 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { BatchItem, BatchJob } from '../types';
+import { processBatchItem } from '../services/batchService';
+import { isCancelledError } from '../services/errors';
+import { useUpscaler } from './useUpscaler';
+
+interface BatchQueue {
+  items: BatchItem[];
+  isRunning: boolean;
+  addFiles: (files: File[]) => void;
+  removeItem: (id: string) => void;
+  /** Starts working through the queued items with `job`. */
+  start: (job: BatchJob) => void;
+  /** Stops the run; items in progress go back to the queue. */
+  cancel: () => void;
+  /** Queues failed items (or just `id`) again and resumes the last job. */
+  retry: (id?: string) => void;
+}
+
+const toItem = (file: File): BatchItem => ({ id: crypto.randomUUID(), file, status: 'queued' });
+
+/**
+ * A queue of images run through one batch job, at most `concurrency` at a
+ * time. Each item records its own stage, result or error, so failures don't
+ * stop the rest of the batch.
+ */
+export const useBatchQueue = (initialFiles: File[], concurrency: number): BatchQueue => {
+  const [items, setItems] = useState<BatchItem[]>(() => initialFiles.map(toItem));
+  const [isRunning, setIsRunning] = useState(false);
+  const jobRef = useRef<BatchJob | null>(null);
+  const controllers = useRef(new Map<string, AbortController>());
+  const upscaleLocally = useUpscaler();
+
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  }, []);
+
+  const run = useCallback(async (item: BatchItem, job: BatchJob) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+    try {
+      const { image, notice } = await processBatchItem(item.file, job, controller.signal, stage => updateItem(item.id, { stage }), upscaleLocally);
+      updateItem(item.id, { status: 'done', stage: undefined, result: image, notice: notice ?? undefined });
+    } catch (err) {
+      if (isCancelledError(err) || controller.signal.aborted) {
+        updateItem(item.id, { status: 'queued', stage: undefined });
+      } else {
+        updateItem(item.id, { status: 'failed', stage: undefined, error: err instanceof Error ? err.message : 'This image could not be processed.' });
+      }
+    } finally {
+      controllers.current.delete(item.id);
+    }
+  }, [updateItem, upscaleLocally]);
+
+  // Fills free slots from the queue whenever an item finishes or the run starts.
+  useEffect(() => {
+    const job = jobRef.current;
+    if (!isRunning || !job) return;
+    const running = items.filter(item => item.status === 'running').length;
+    const next = items.filter(item => item.status === 'queued').slice(0, Math.max(0, concurrency - running));
+    if (running === 0 && next.length === 0) {
+      setIsRunning(false);
+      return;
+    }
+    if (next.length === 0) return;
+    const starting = new Set(next.map(item => item.id));
+    setItems(prev => prev.map(item => starting.has(item.id) ? { ...item, status: 'running', error: undefined } : item));
+    next.forEach(item => run(item, job));
+  }, [items, isRunning, concurrency, run]);
+
+  useEffect(() => () => controllers.current.forEach(controller => controller.abort()), []);
+
+  const addFiles = useCallback((files: File[]) => {
+    setItems(prev => [...prev, ...files.map(toItem)]);
+  }, []);
+
+  const removeItem = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+    setItems(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  const start = useCallback((job: BatchJob) => {
+    jobRef.current = job;
+    setIsRunning(true);
+  }, []);
+
+  const cancel = useCallback(() => {
+    setIsRunning(false);
+    controllers.current.forEach(controller => controller.abort());
+  }, []);
+
+  const retry = useCallback((id?: string) => {
+    setItems(prev => prev.map(item =>
+      item.status === 'failed' && (id === undefined || item.id === id) ? { ...item, status: 'queued', error: undefined } : item
+    ));
+    if (jobRef.current) setIsRunning(true);
+  }, []);
+
+  return { items, isRunning, addFiles, removeItem, start, cancel, retry };
+};
@@ -0,0 +1,10 @@
+import { magicWandSelect, MagicWandRequest } from '../utils/magicWand';
+import { useWorkerTask } from './useWorkerTask';
+
+/** Magic wand selection off the main thread, so filling a large region doesn't freeze the editor. */
+export const useMagicWand = () => useWorkerTask<MagicWandRequest, Uint8ClampedArray>({
+  createWorker: () => new Worker(new URL('../utils/magicWand.worker.ts', import.meta.url), { type: 'module' }),
+  runInline: magicWandSelect,
+  transferables: request => [request.pixels.buffer],
+  failureMessage: 'Magic wand selection failed.',
+});
@@ -0,0 +1,170 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+
+const MAX_HISTORY_ENTRIES = 50;
+// Full-canvas snapshots at 1024x1024 cost 4MB each, so cap by bytes as well as count.
+const MAX_HISTORY_BYTES = 128 * 1024 * 1024;
+
+interface MaskHistory {
+  canUndo: boolean;
+  canRedo: boolean;
+  record: () => void;
+  undo: () => void;
+  redo: () => void;
+  cancel: () => void;
+  // Clears the history for one key, or for every key when none is given.
+  reset: (key?: string) => void;
+  // Changes every undo and redo snapshot of one key in place, to follow a change made to the whole canvas.
+  rewrite: (key: string, change: (snapshot: ImageData) => void) => void;
+}
+
+interface Snapshot {
+  data: ImageData;
+  // When it was pushed, across every key, so the budget can evict oldest first.
+  order: number;
+}
+
+interface HistoryStacks {
+  undo: Snapshot[];
+  redo: Snapshot[];
+}
+
+const stackBytes = (stack: Snapshot[]): number =>
+  stack.reduce((sum, snapshot) => sum + snapshot.data.data.byteLength, 0);
+
+/**
+ * Bounded undo/redo stack for a mask canvas. Call `record()` immediately
+ * before any operation that mutates the canvas. `key` selects an
+ * independent history, so one canvas can host several layers in turn.
+ */
+export const useMaskHistory = (canvasRef: React.RefObject<HTMLCanvasElement | null>, key = 'default'): MaskHistory => {
+  const histories = useRef(new Map<string, HistoryStacks>());
+  const nextOrder = useRef(0);
+  const keyRef = useRef(key);
+  keyRef.current = key;
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+
+  const stacks = (): HistoryStacks => {
+    let entry = histories.current.get(keyRef.current);
+    if (!entry) {
+      entry = { undo: [], redo: [] };
+      histories.current.set(keyRef.current, entry);
+    }
+    return entry;
+  };
+
+  const syncFlags = () => {
+    const { undo, redo } = stacks();
+    setCanUndo(undo.length > 0);
+    setCanRedo(redo.length > 0);
+  };
+
+  useEffect(syncFlags, [key]);
+
+  const capture = (): Snapshot | null => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || canvas.width === 0 || canvas.height === 0) return null;
+    return { data: ctx.getImageData(0, 0, canvas.width, canvas.height), order: nextOrder.current++ };
+  };
+
+  const restore = ({ data: snapshot }: Snapshot) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    if (canvas.width !== snapshot.width || canvas.height !== snapshot.height) {
+      canvas.width = snapshot.width;
+      canvas.height = snapshot.height;
+    }
+    ctx.putImageData(snapshot, 0, 0);
+  };
+
+  // The byte budget is shared by every key, so many layers can't multiply it.
+  const totalBytes = (): number => {
+    let sum = 0;
+    histories.current.forEach(({ undo, redo }) => { sum += stackBytes(undo) + stackBytes(redo); });
+    return sum;
+  };
+
+  /**
+   * Drops the oldest snapshot of any key, undo or redo, but never the last
+   * undo step of `keep`. Returns false when nothing else is left to drop.
+   */
+  const evictOldest = (keep: Snapshot[]): boolean => {
+    let oldest: Snapshot[] | null = null;
+    for (const { undo, redo } of histories.current.values()) {
+      for (const stack of [undo, redo]) {
+        if (stack.length === 0 || (stack === keep && stack.length === 1)) continue;
+        if (!oldest || stack[0].order < oldest[0].order) oldest = stack;
+      }
+    }
+    if (!oldest) return false;
+    oldest.shift();
+    return true;
+  };
+
+  const trim = (stack: Snapshot[]) => {
+    while (stack.length > MAX_HISTORY_ENTRIES) {
+      stack.shift();
+    }
+    while (totalBytes() > MAX_HISTORY_BYTES && evictOldest(stack)) {
+      // Keep evicting until the history fits the budget.
+    }
+  };
+
+  const record = useCallback(() => {
+    const snapshot = capture();
+    if (!snapshot) return;
+    const entry = stacks();
+    entry.undo.push(snapshot);
+    entry.redo = [];
+    trim(entry.undo);
+    syncFlags();
+  }, [canvasRef]);
+
+  const undo = useCallback(() => {
+    const current = capture();
+    const entry = stacks();
+    if (!current || entry.undo.length === 0) return;
+    const previous = entry.undo.pop()!;
+    entry.redo.push(current);
+    restore(previous);
+    syncFlags();
+  }, [canvasRef]);
+
+  const redo = useCallback(() => {
+    const current = capture();
+    const entry = stacks();
+    if (!current || entry.redo.length === 0) return;
+    const next = entry.redo.pop()!;
+    entry.undo.push(current);
+    trim(entry.undo);
+    restore(next);
+    syncFlags();
+  }, [canvasRef]);
+
+  /** Abandons the operation started after the last `record()`, leaving redo untouched. */
+  const cancel = useCallback(() => {
+    const previous = stacks().undo.pop();
+    if (!previous) return;
+    restore(previous);
+    syncFlags();
+  }, [canvasRef]);
+
+  const reset = useCallback((resetKey?: string) => {
+    if (resetKey === undefined) {
+      histories.current.clear();
+    } else {
+      histories.current.delete(resetKey);
+    }
+    syncFlags();
+  }, []);
+
+  const rewrite = useCallback((rewriteKey: string, change: (snapshot: ImageData) => void) => {
+    const entry = histories.current.get(rewriteKey);
+    if (!entry) return;
+    [...entry.undo, ...entry.redo].forEach(snapshot => change(snapshot.data));
+  }, []);
+
+  return { canUndo, canRedo, record, undo, redo, cancel, reset, rewrite };
+};
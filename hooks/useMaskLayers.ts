@@ -0,0 +1,204 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { MaskLayer, SavedMaskLayer } from '../types';
+import { canvasToBlob, createCanvas, get2dContext, loadImageFromFile } from '../utils/imageUtils';
+import { hardenOverlay, hasPaint, recolorOverlay } from '../utils/maskUtils';
+
+export const LAYER_COLORS = ['#c084fc', '#f472b6', '#38bdf8', '#4ade80', '#facc15', '#fb923c'];
+
+interface MaskLayers {
+  layers: MaskLayer[];
+  activeLayer: MaskLayer;
+  addLayer: () => MaskLayer;
+  removeLayer: (id: string) => void;
+  updateLayer: (id: string, changes: Partial<Omit<MaskLayer, 'id'>>) => void;
+  selectLayer: (id: string) => void;
+  getLayerCanvas: (id: string) => HTMLCanvasElement | null;
+  resizeLayers: (width: number, height: number) => void;
+  restoreLayerMasks: (saved: SavedMaskLayer[]) => Promise<void>;
+  saveLayers: () => Promise<SavedMaskLayer[]>;
+  flattenLayers: () => HTMLCanvasElement | null;
+}
+
+interface InitialLayers {
+  layers: MaskLayer[];
+  activeLayerId?: string;
+}
+
+export const createMaskLayer = (index: number, prompt = ''): MaskLayer => ({
+  id: crypto.randomUUID(),
+  name: `Layer ${index + 1}`,
+  color: LAYER_COLORS[index % LAYER_COLORS.length],
+  visible: true,
+  prompt,
+});
+
+const toMaskLayer = ({ id, name, color, visible, prompt }: MaskLayer): MaskLayer => ({ id, name, color, visible, prompt });
+
+/**
+ * Named mask layers sharing one on-screen drawing canvas. The active layer is
+ * painted directly on `drawingCanvasRef`; the others live on offscreen
+ * canvases and are shown, when visible, on `previewCanvasRef` underneath it.
+ */
+export const useMaskLayers = (
+  drawingCanvasRef: React.RefObject<HTMLCanvasElement | null>,
+  previewCanvasRef: React.RefObject<HTMLCanvasElement | null>,
+  initial?: InitialLayers
+): MaskLayers => {
+  const [layers, setLayers] = useState<MaskLayer[]>(() =>
+    initial && initial.layers.length > 0 ? initial.layers.map(toMaskLayer) : [createMaskLayer(0)]
+  );
+  const [activeId, setActiveId] = useState<string>(() =>
+    initial?.activeLayerId && layers.some(l => l.id === initial.activeLayerId) ? initial.activeLayerId : layers[0].id
+  );
+  const activeIdRef = useRef(activeId);
+  const layersRef = useRef(layers);
+  layersRef.current = layers;
+  const nextIndex = useRef(layers.length);
+  // Offscreen pixels of every layer except the active one.
+  const surfaces = useRef(new Map<string, HTMLCanvasElement>());
+
+  const activeLayer = layers.find(l => l.id === activeId) ?? layers[0];
+
+  const getLayerCanvas = useCallback((id: string): HTMLCanvasElement | null =>
+    id === activeIdRef.current ? drawingCanvasRef.current : surfaces.current.get(id) ?? null
+  , [drawingCanvasRef]);
+
+  const ensureSurface = (id: string): HTMLCanvasElement => {
+    const drawing = drawingCanvasRef.current;
+    let surface = surfaces.current.get(id);
+    if (!surface) {
+      surface = createCanvas(drawing?.width ?? 0, drawing?.height ?? 0);
+      surfaces.current.set(id, surface);
+    }
+    return surface;
+  };
+
+  const redrawPreview = useCallback(() => {
+    const preview = previewCanvasRef.current;
+    const drawing = drawingCanvasRef.current;
+    if (!preview || !drawing) return;
+    if (preview.width !== drawing.width || preview.height !== drawing.height) {
+      preview.width = drawing.width;
+      preview.height = drawing.height;
+    }
+    const ctx = get2dContext(preview);
+    ctx.clearRect(0, 0, preview.width, preview.height);
+    layersRef.current.forEach(layer => {
+      const surface = surfaces.current.get(layer.id);
+      if (layer.id !== activeIdRef.current && layer.visible && surface) {
+        ctx.drawImage(surface, 0, 0);
+      }
+    });
+  }, [drawingCanvasRef, previewCanvasRef]);
+
+  useEffect(redrawPreview, [layers, activeId, redrawPreview]);
+
+  const selectLayer = useCallback((id: string) => {
+    const previousId = activeIdRef.current;
+    const drawing = drawingCanvasRef.current;
+    if (id === previousId || !drawing) return;
+
+    const stash = ensureSurface(previousId);
+    stash.width = drawing.width;
+    stash.height = drawing.height;
+    get2dContext(stash).drawImage(drawing, 0, 0);
+
+    const drawingCtx = get2dContext(drawing);
+    drawingCtx.clearRect(0, 0, drawing.width, drawing.height);
+    const incoming = surfaces.current.get(id);
+    if (incoming) {
+      drawingCtx.drawImage(incoming, 0, 0, drawing.width, drawing.height);
+      surfaces.current.delete(id);
+    }
+
+    activeIdRef.current = id;
+    setActiveId(id);
+  }, [drawingCanvasRef]);
+
+  const addLayer = useCallback((): MaskLayer => {
+    const layer = createMaskLayer(nextIndex.current++);
+    setLayers(prev => [...prev, layer]);
+    selectLayer(layer.id);
+    return layer;
+  }, [selectLayer]);
+
+  const removeLayer = useCallback((id: string) => {
+    const current = layersRef.current;
+    if (current.length <= 1) return;
+    const index = current.findIndex(l => l.id === id);
+    if (index < 0) return;
+    const remaining = current.filter(l => l.id !== id);
+    if (id === activeIdRef.current) {
+      selectLayer(remaining[Math.max(0, index - 1)].id);
+    }
+    surfaces.current.delete(id);
+    setLayers(remaining);
+  }, [selectLayer]);
+
+  const updateLayer = useCallback((id: string, changes: Partial<Omit<MaskLayer, 'id'>>) => {
+    const layer = layersRef.current.find(l => l.id === id);
+    const canvas = getLayerCanvas(id);
+    if (layer && canvas && changes.color && changes.color !== layer.color) {
+      recolorOverlay(canvas, changes.color);
+    }
+    setLayers(prev => prev.map(l => l.id === id ? { ...l, ...changes } : l));
+  }, [getLayerCanvas]);
+
+  /** Matches every offscreen layer to a freshly sized drawing canvas; their contents are cleared. */
+  const resizeLayers = useCallback((width: number, height: number) => {
+    surfaces.current.forEach(surface => {
+      surface.width = width;
+      surface.height = height;
+    });
+    redrawPreview();
+  }, [redrawPreview]);
+
+  const restoreLayerMasks = useCallback(async (saved: SavedMaskLayer[]) => {
+    for (const layer of saved) {
+      if (!layer.mask) continue;
+      const canvas = getLayerCanvas(layer.id) ?? ensureSurface(layer.id);
+      const image = await loadImageFromFile(layer.mask);
+      get2dContext(canvas).drawImage(image, 0, 0, canvas.width, canvas.height);
+      if (!layer.soft) {
+        hardenOverlay(canvas);
+      }
+    }
+    redrawPreview();
+  }, [getLayerCanvas, redrawPreview]);
+
+  const saveLayers = useCallback(async (): Promise<SavedMaskLayer[]> => {
+    const saved: SavedMaskLayer[] = [];
+    for (const layer of layersRef.current) {
+      const canvas = getLayerCanvas(layer.id);
+      saved.push({ ...layer, mask: canvas && hasPaint(canvas) ? await canvasToBlob(canvas) : null, soft: true });
+    }
+    return saved;
+  }, [getLayerCanvas]);
+
+  /** Every layer's overlay drawn onto one canvas, in layer order. */
+  const flattenLayers = useCallback((): HTMLCanvasElement | null => {
+    const drawing = drawingCanvasRef.current;
+    if (!drawing) return null;
+    const flat = createCanvas(drawing.width, drawing.height);
+    const ctx = get2dContext(flat);
+    layersRef.current.forEach(layer => {
+      const canvas = getLayerCanvas(layer.id);
+      if (canvas) ctx.drawImage(canvas, 0, 0, flat.width, flat.height);
+    });
+    return flat;
+  }, [drawingCanvasRef, getLayerCanvas]);
+
+  return {
+    layers,
+    activeLayer,
+    addLayer,
+    removeLayer,
+    updateLayer,
+    selectLayer,
+    getLayerCanvas,
+    resizeLayers,
+    restoreLayerMasks,
+    saveLayers,
+    flattenLayers,
+  };
+};
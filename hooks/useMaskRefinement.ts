@@ -0,0 +1,64 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { applyMaskOperation, MaskOperation } from '../utils/maskOps';
+import { readOverlayMask, writeOverlayMask } from '../utils/maskUtils';
+
+const MASK_PREVIEW_DELAY_MS = 120;
+
+interface MaskRefinementOptions {
+  drawingCanvasRef: React.RefObject<HTMLCanvasElement | null>;
+  layerId: string;
+  color: string;
+  // Bumped on every mask change, so the preview follows the mask.
+  maskRevision: number;
+  recordHistory: () => void;
+  onMaskChanged: () => void;
+}
+
+interface MaskRefinement {
+  operation: MaskOperation | null;
+  setOperation: (operation: MaskOperation | null) => void;
+  // Shows the refined mask in place of the layer while an operation is pending.
+  previewCanvasRef: React.RefObject<HTMLCanvasElement | null>;
+  apply: () => void;
+}
+
+/**
+ * A refinement of the active layer's mask (grow, shrink, feather and so on)
+ * previewed over the canvas until it is applied or dismissed.
+ */
+export const useMaskRefinement = ({
+  drawingCanvasRef,
+  layerId,
+  color,
+  maskRevision,
+  recordHistory,
+  onMaskChanged,
+}: MaskRefinementOptions): MaskRefinement => {
+  const [operation, setOperation] = useState<MaskOperation | null>(null);
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Recompute the refinement preview shortly after its settings or the mask change.
+  useEffect(() => {
+    const preview = previewCanvasRef.current;
+    const drawing = drawingCanvasRef.current;
+    if (!preview || !drawing || !operation) return;
+    const timer = setTimeout(() => {
+        preview.width = drawing.width;
+        preview.height = drawing.height;
+        const refined = applyMaskOperation(readOverlayMask(drawing), drawing.width, drawing.height, operation);
+        writeOverlayMask(preview, refined, color);
+    }, MASK_PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [operation, layerId, color, maskRevision]);
+
+  const apply = () => {
+    const drawing = drawingCanvasRef.current;
+    if (!drawing || !operation) return;
+    recordHistory();
+    writeOverlayMask(drawing, applyMaskOperation(readOverlayMask(drawing), drawing.width, drawing.height, operation), color);
+    setOperation(null);
+    onMaskChanged();
+  };
+
+  return { operation, setOperation, previewCanvasRef, apply };
+};
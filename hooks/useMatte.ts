@@ -0,0 +1,10 @@
+import { refineMatte, MatteRequest } from '../utils/matte';
+import { useWorkerTask } from './useWorkerTask';
+
+/** Edge refinement and colour decontamination for cut-outs, run off the main thread. */
+export const useMatte = () => useWorkerTask<MatteRequest, Uint8ClampedArray>({
+  createWorker: () => new Worker(new URL('../utils/matte.worker.ts', import.meta.url), { type: 'module' }),
+  runInline: refineMatte,
+  transferables: request => [request.pixels.buffer, request.alpha.buffer],
+  failureMessage: 'Refining the cut-out failed.',
+});
@@ -0,0 +1,141 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { Point } from '../types';
+import { SelectionMode } from '../utils/selectionUtils';
+import { findPathHandle, moveHandle, PathHit, toPath2D, translatePath, VectorPath } from '../utils/pathUtils';
+
+export type PathTool = 'polygon' | 'pen';
+
+interface EditablePath {
+  path: VectorPath;
+  mode: SelectionMode;
+}
+
+interface PathEditor {
+  current: EditablePath | null;
+  pointerDown: (pos: Point, tool: PathTool, mode: SelectionMode, hitRadius: number) => void;
+  pointerMove: (pos: Point) => void;
+  pointerUp: () => void;
+  closePath: () => void;
+  commit: () => void;
+  discard: () => void;
+}
+
+type Drag =
+  | { kind: 'handle', hit: PathHit, mirror: boolean }
+  | { kind: 'move', last: Point };
+
+let hitTestContext: CanvasRenderingContext2D | null = null;
+const isInsidePath = (path: VectorPath, point: Point): boolean => {
+  hitTestContext ??= document.createElement('canvas').getContext('2d');
+  return !!hitTestContext && hitTestContext.isPointInPath(toPath2D(path), point.x, point.y);
+};
+
+/**
+ * Click-to-place polygon and pen (bezier) paths that stay editable until
+ * committed. While open, clicks add nodes and clicking the first node closes
+ * the path; once closed, nodes and handles can be dragged, or the whole path
+ * moved by dragging inside it. Enter commits, Escape discards, Backspace
+ * removes the last node of an open path.
+ */
+export const usePathEditor = (onCommit: (path: VectorPath, mode: SelectionMode) => void): PathEditor => {
+  const [current, setCurrent] = useState<EditablePath | null>(null);
+  const currentRef = useRef(current);
+  currentRef.current = current;
+  const drag = useRef<Drag | null>(null);
+  const onCommitRef = useRef(onCommit);
+  onCommitRef.current = onCommit;
+
+  const update = (path: VectorPath) => setCurrent(prev => prev ? { ...prev, path } : prev);
+
+  const pointerDown = useCallback((pos: Point, tool: PathTool, mode: SelectionMode, hitRadius: number) => {
+    const editing = currentRef.current;
+    if (!editing) {
+      setCurrent({ path: { nodes: [{ point: pos }], closed: false }, mode });
+      drag.current = tool === 'pen' ? { kind: 'handle', hit: { index: 0, handle: 'handleOut' }, mirror: true } : null;
+      return;
+    }
+
+    const { path } = editing;
+    const hit = findPathHandle(path, pos, hitRadius);
+    if (hit) {
+      if (!path.closed && hit.index === 0 && hit.handle === 'point' && path.nodes.length >= 3) {
+        update({ ...path, closed: true });
+        return;
+      }
+      drag.current = { kind: 'handle', hit, mirror: false };
+      return;
+    }
+
+    if (!path.closed) {
+      update({ ...path, nodes: [...path.nodes, { point: pos }] });
+      // With the pen, dragging out from a new node pulls symmetric curve handles.
+      drag.current = tool === 'pen' ? { kind: 'handle', hit: { index: path.nodes.length, handle: 'handleOut' }, mirror: true } : null;
+    } else if (isInsidePath(path, pos)) {
+      drag.current = { kind: 'move', last: pos };
+    }
+  }, []);
+
+  const pointerMove = useCallback((pos: Point) => {
+    const active = drag.current;
+    const editing = currentRef.current;
+    if (!active || !editing) return;
+    if (active.kind === 'move') {
+      update(translatePath(editing.path, pos.x - active.last.x, pos.y - active.last.y));
+      drag.current = { kind: 'move', last: pos };
+    } else {
+      update(moveHandle(editing.path, active.hit, pos, active.mirror));
+    }
+  }, []);
+
+  const pointerUp = useCallback(() => {
+    drag.current = null;
+  }, []);
+
+  const closePath = useCallback(() => {
+    const editing = currentRef.current;
+    if (editing && editing.path.nodes.length >= 3) {
+      update({ ...editing.path, closed: true });
+    }
+  }, []);
+
+  const discard = useCallback(() => {
+    drag.current = null;
+    setCurrent(null);
+  }, []);
+
+  const commit = useCallback(() => {
+    const editing = currentRef.current;
+    if (!editing || editing.path.nodes.length < 3) return;
+    onCommitRef.current({ ...editing.path, closed: true }, editing.mode);
+    discard();
+  }, [discard]);
+
+  const hasPath = current !== null;
+  useEffect(() => {
+    if (!hasPath) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        commit();
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        discard();
+      } else if (e.key === 'Backspace' || e.key === 'Delete') {
+        const editing = currentRef.current;
+        if (!editing || editing.path.closed) return;
+        e.preventDefault();
+        if (editing.path.nodes.length <= 1) {
+          discard();
+        } else {
+          update({ ...editing.path, nodes: editing.path.nodes.slice(0, -1) });
+        }
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [hasPath, commit, discard]);
+
+  return { current, pointerDown, pointerMove, pointerUp, closePath, commit, discard };
+};
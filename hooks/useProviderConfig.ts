@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { getProviderConfig, getProviderState, subscribeToProviderConfig, ProviderState } from '../services/providerRegistry';
+import { ProviderConfig } from '../services/providers/ImageEditProvider';
+
+export const useProviderConfig = (): ProviderConfig =>
+  useSyncExternalStore(subscribeToProviderConfig, getProviderConfig);
+
+export const useProviderState = (): ProviderState =>
+  useSyncExternalStore(subscribeToProviderConfig, getProviderState);
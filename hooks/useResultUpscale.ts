@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { budgetWarning } from '../services/usageLedger';
+import { DEFAULT_UPSCALE_SHARPEN, upscaleSource } from '../services/upscaleService';
+import { loadImage, loadImageFromFile } from '../utils/imageUtils';
+import { EditCandidate, UpscaleMethod } from '../types';
+import { useUpscaler } from './useUpscaler';
+
+type UpscaledResult = NonNullable<EditCandidate['upscaled']>;
+
+interface ResultUpscaleOptions {
+  // The shown result: its working-size data URL and full-resolution image.
+  editedImage: string | null;
+  fullResImage: Blob | null;
+  // Set while an edit is running, whose results are about to replace the shown one.
+  isEditing: boolean;
+  startRequest: (kind: 'upscale') => AbortSignal;
+  setError: (error: string | null) => void;
+  reportError: (err: unknown, fallback: string) => void;
+  onUpscaled: (result: UpscaledResult) => void;
+}
+
+interface ResultUpscale {
+  factor: number;
+  setFactor: (factor: number) => void;
+  method: UpscaleMethod;
+  setMethod: (method: UpscaleMethod) => void;
+  // Unsharp-mask strength for local upscales, 0-100.
+  sharpen: number;
+  setSharpen: (sharpen: number) => void;
+  isUpscaling: boolean;
+  // Fraction of tiles done during a local upscale.
+  progress: number | null;
+  // Set when the upscaled result isn't the size the factor asked for.
+  notice: string | null;
+  clearNotice: () => void;
+  upscale: () => Promise<void>;
+}
+
+/**
+ * Upscaling of the shown result, on the device from the full-resolution
+ * image or by the provider from the working-size one.
+ */
+export const useResultUpscale = ({
+  editedImage,
+  fullResImage,
+  isEditing,
+  startRequest,
+  setError,
+  reportError,
+  onUpscaled,
+}: ResultUpscaleOptions): ResultUpscale => {
+  const [factor, setFactor] = useState(2);
+  const [method, setMethod] = useState<UpscaleMethod>('local');
+  const [sharpen, setSharpen] = useState(DEFAULT_UPSCALE_SHARPEN);
+  const [isUpscaling, setIsUpscaling] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const upscaleLocally = useUpscaler();
+
+  const upscale = async () => {
+    // The result is about to be replaced, and an upscale of it would be attached to the wrong candidate.
+    if (isEditing || isUpscaling) return;
+    if (!editedImage) {
+      setError("Generate an image before upscaling.");
+      return;
+    }
+    if (method === 'ai') {
+      const warning = budgetWarning(1);
+      if (warning && !window.confirm(warning)) return;
+    }
+    setIsUpscaling(true);
+    setError(null);
+    setNotice(null);
+    const signal = startRequest('upscale');
+    try {
+      // The local upscaler works from the full-resolution result; the model
+      // gets the working-size preview, as it always has.
+      const source = method === 'local' && fullResImage ? await loadImageFromFile(fullResImage) : await loadImage(editedImage);
+      const upscaled = await upscaleSource(source, { factor, method, sharpen, upscaleLocally, signal, onProgress: setProgress });
+      setNotice(upscaled.notice);
+      onUpscaled({ image: upscaled.image, factor: upscaled.factor, method });
+    } catch (err) {
+      reportError(err, 'An unknown error occurred during upscaling.');
+    } finally {
+      setIsUpscaling(false);
+      setProgress(null);
+    }
+  };
+
+  return {
+    factor,
+    setFactor,
+    method,
+    setMethod,
+    sharpen,
+    setSharpen,
+    isUpscaling,
+    progress,
+    notice,
+    clearNotice: () => setNotice(null),
+    upscale,
+  };
+};
@@ -0,0 +1,10 @@
+import { segmentForeground, SegmentationRequest } from '../utils/segmentation';
+import { useWorkerTask } from './useWorkerTask';
+
+/** On-device subject and object segmentation, run off the main thread. */
+export const useSegmentation = () => useWorkerTask<SegmentationRequest, Uint8ClampedArray>({
+  createWorker: () => new Worker(new URL('../utils/segmentation.worker.ts', import.meta.url), { type: 'module' }),
+  runInline: segmentForeground,
+  transferables: request => [request.pixels.buffer],
+  failureMessage: 'Segmentation failed.',
+});
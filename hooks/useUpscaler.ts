@@ -0,0 +1,55 @@
+import { useCallback } from 'react';
+import { planTiles, sourcePatchFor, upscaleTile, upscaledSize, UpscaleTileRequest } from '../utils/upscale';
+import { createCanvas, get2dContext, getSourceSize } from '../utils/imageUtils';
+import { CancelledError } from '../services/errors';
+import { useWorkerTask } from './useWorkerTask';
+
+/**
+ * Local Lanczos upscaling, run tile by tile in a Web Worker and assembled on
+ * a canvas. `onProgress` gets the fraction of tiles done; aborting `signal`
+ * stops after the tile in progress.
+ */
+export const useUpscaler = () => {
+  const runTile = useWorkerTask<UpscaleTileRequest, Uint8ClampedArray>({
+    createWorker: () => new Worker(new URL('../utils/upscale.worker.ts', import.meta.url), { type: 'module' }),
+    runInline: upscaleTile,
+    transferables: request => [request.pixels.buffer],
+    failureMessage: 'Upscaling failed.',
+  });
+
+  return useCallback(async (
+    source: HTMLImageElement | HTMLCanvasElement,
+    factor: number,
+    sharpen: number,
+    signal?: AbortSignal,
+    onProgress?: (fraction: number) => void
+  ): Promise<HTMLCanvasElement> => {
+    const { width: sourceWidth, height: sourceHeight } = getSourceSize(source);
+    const { width: outputWidth, height: outputHeight } = upscaledSize(sourceWidth, sourceHeight, factor);
+    const sourceCtx = get2dContext(createCanvas(sourceWidth, sourceHeight));
+    sourceCtx.drawImage(source, 0, 0);
+    const output = createCanvas(outputWidth, outputHeight);
+    const outputCtx = get2dContext(output);
+
+    const tiles = planTiles(outputWidth, outputHeight);
+    for (const [index, tile] of tiles.entries()) {
+      if (signal?.aborted) throw new CancelledError();
+      const patch = sourcePatchFor(tile, sourceWidth, sourceHeight, outputWidth, outputHeight);
+      const pixels = await runTile({
+        pixels: sourceCtx.getImageData(patch.x, patch.y, patch.width, patch.height).data,
+        patch,
+        sourceWidth,
+        sourceHeight,
+        outputWidth,
+        outputHeight,
+        tile,
+        sharpen,
+      });
+      const tileData = outputCtx.createImageData(tile.width, tile.height);
+      tileData.data.set(pixels);
+      outputCtx.putImageData(tileData, tile.x, tile.y);
+      onProgress?.((index + 1) / tiles.length);
+    }
+    return output;
+  }, [runTile]);
+};
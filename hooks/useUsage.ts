@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { getUsageState, subscribeToUsage, UsageState } from '../services/usageLedger';
+import { getSchedulerState, subscribeToScheduler, SchedulerState } from '../services/requestScheduler';
+
+export const useUsage = (): UsageState =>
+  useSyncExternalStore(subscribeToUsage, getUsageState);
+
+export const useSchedulerState = (): SchedulerState =>
+  useSyncExternalStore(subscribeToScheduler, getSchedulerState);
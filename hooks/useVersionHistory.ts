@@ -0,0 +1,73 @@
+import { useState, useCallback, useMemo } from 'react';
+import { EditSettings, EditVersion, SavedMaskLayer } from '../types';
+
+interface VersionHistory {
+  versions: EditVersion[];
+  activeVersion: EditVersion;
+  addVersion: (image: Blob, mask: Blob | null, settings: EditSettings, model?: string, layers?: SavedMaskLayer[]) => EditVersion;
+  selectVersion: (id: string) => EditVersion | undefined;
+  getLabel: (version: EditVersion) => string;
+}
+
+const createOriginalVersion = (image: Blob): EditVersion => ({
+  id: crypto.randomUUID(),
+  parentId: null,
+  image,
+  mask: null,
+  prompt: '',
+  negativePrompt: '',
+  style: 'Default',
+  createdAt: Date.now(),
+});
+
+interface InitialVersions {
+  versions: EditVersion[];
+  activeVersionId: string;
+}
+
+/**
+ * Tracks the chain of edits starting from the uploaded image. New versions are
+ * children of the active one, so stepping back and editing again branches.
+ */
+export const useVersionHistory = (original: Blob, initial?: InitialVersions): VersionHistory => {
+  const [versions, setVersions] = useState<EditVersion[]>(() =>
+    initial && initial.versions.length > 0 ? initial.versions : [createOriginalVersion(original)]
+  );
+  const [activeId, setActiveId] = useState<string>(() => initial?.activeVersionId ?? versions[0].id);
+
+  const activeVersion = versions.find(v => v.id === activeId) ?? versions[0];
+
+  const addVersion = useCallback((image: Blob, mask: Blob | null, settings: EditSettings, model?: string, layers?: SavedMaskLayer[]): EditVersion => {
+    const version: EditVersion = {
+      id: crypto.randomUUID(),
+      parentId: activeVersion.id,
+      image,
+      mask,
+      ...settings,
+      model,
+      layers,
+      createdAt: Date.now(),
+    };
+    setVersions(prev => [...prev, version]);
+    setActiveId(version.id);
+    return version;
+  }, [activeVersion.id]);
+
+  const selectVersion = useCallback((id: string): EditVersion | undefined => {
+    const version = versions.find(v => v.id === id);
+    if (version) {
+      setActiveId(id);
+    }
+    return version;
+  }, [versions]);
+
+  const labels = useMemo(() => {
+    const map = new Map<string, string>();
+    versions.forEach((v, index) => map.set(v.id, index === 0 ? 'Original' : `Edit ${index}`));
+    return map;
+  }, [versions]);
+
+  const getLabel = useCallback((version: EditVersion) => labels.get(version.id) ?? '', [labels]);
+
+  return { versions, activeVersion, addVersion, selectVersion, getLabel };
+};
@@ -0,0 +1,230 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Point } from '../types';
+
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 32;
+const WHEEL_ZOOM_STEP = 1.0015;
+
+export interface ViewTransform {
+  zoom: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+interface ViewTransformControls {
+  transform: ViewTransform;
+  isPanning: boolean;
+  isSpaceHeld: boolean;
+  zoomBy: (factor: number, center?: Point) => void;
+  zoomTo: (zoom: number, center?: Point) => void;
+  fit: () => void;
+  actualPixels: (canvasWidth: number) => void;
+  centerOn: (normalizedX: number, normalizedY: number) => void;
+  startPan: (clientX: number, clientY: number) => void;
+  movePan: (clientX: number, clientY: number) => void;
+  endPan: () => void;
+  startGesture: (touches: React.TouchList) => void;
+  moveGesture: (touches: React.TouchList) => void;
+  endGesture: () => void;
+}
+
+const IDENTITY: ViewTransform = { zoom: 1, offsetX: 0, offsetY: 0 };
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+const touchCenter = (touches: React.TouchList): Point => ({
+  x: (touches[0].clientX + touches[1].clientX) / 2,
+  y: (touches[0].clientY + touches[1].clientY) / 2,
+});
+
+const touchDistance = (touches: React.TouchList): number =>
+  Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+
+/**
+ * Zoom and pan state for content laid out to fill `viewportRef` at zoom 1.
+ * The content is drawn with `translate(offset) scale(zoom)` from its top-left
+ * corner; `getBoundingClientRect` on the transformed content therefore still
+ * maps screen points to canvas pixels.
+ */
+export const useViewTransform = (viewportRef: React.RefObject<HTMLElement | null>): ViewTransformControls => {
+  const [transform, setTransform] = useState<ViewTransform>(IDENTITY);
+  const [isPanning, setIsPanning] = useState(false);
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const panOrigin = useRef<Point | null>(null);
+  const gesture = useRef<{ center: Point, distance: number } | null>(null);
+
+  // Keeps the content covering the viewport, or centred when it is smaller.
+  const constrain = useCallback((next: ViewTransform): ViewTransform => {
+    const viewport = viewportRef.current;
+    if (!viewport) return next;
+    const width = viewport.clientWidth;
+    const height = viewport.clientHeight;
+    const clampAxis = (offset: number, size: number) => {
+      const scaled = size * next.zoom;
+      if (scaled <= size) return (size - scaled) / 2;
+      return Math.min(0, Math.max(size - scaled, offset));
+    };
+    return { zoom: next.zoom, offsetX: clampAxis(next.offsetX, width), offsetY: clampAxis(next.offsetY, height) };
+  }, [viewportRef]);
+
+  const toViewportPoint = useCallback((client: Point): Point => {
+    const rect = viewportRef.current?.getBoundingClientRect();
+    return rect ? { x: client.x - rect.left, y: client.y - rect.top } : client;
+  }, [viewportRef]);
+
+  const viewportCenter = useCallback((): Point => {
+    const rect = viewportRef.current?.getBoundingClientRect();
+    return rect ? { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 } : { x: 0, y: 0 };
+  }, [viewportRef]);
+
+  const zoomTo = useCallback((zoom: number, center?: Point) => {
+    const anchor = toViewportPoint(center ?? viewportCenter());
+    setTransform(prev => {
+      const nextZoom = clampZoom(zoom);
+      const ratio = nextZoom / prev.zoom;
+      return constrain({
+        zoom: nextZoom,
+        offsetX: anchor.x - (anchor.x - prev.offsetX) * ratio,
+        offsetY: anchor.y - (anchor.y - prev.offsetY) * ratio,
+      });
+    });
+  }, [constrain, toViewportPoint, viewportCenter]);
+
+  const zoomBy = useCallback((factor: number, center?: Point) => {
+    const anchor = toViewportPoint(center ?? viewportCenter());
+    setTransform(prev => {
+      const nextZoom = clampZoom(prev.zoom * factor);
+      const ratio = nextZoom / prev.zoom;
+      return constrain({
+        zoom: nextZoom,
+        offsetX: anchor.x - (anchor.x - prev.offsetX) * ratio,
+        offsetY: anchor.y - (anchor.y - prev.offsetY) * ratio,
+      });
+    });
+  }, [constrain, toViewportPoint, viewportCenter]);
+
+  const fit = useCallback(() => setTransform(IDENTITY), []);
+
+  /** One canvas pixel per device pixel. */
+  const actualPixels = useCallback((canvasWidth: number) => {
+    const viewport = viewportRef.current;
+    if (!viewport || viewport.clientWidth === 0) return;
+    zoomTo(canvasWidth / (viewport.clientWidth * window.devicePixelRatio));
+  }, [viewportRef, zoomTo]);
+
+  const centerOn = useCallback((normalizedX: number, normalizedY: number) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const width = viewport.clientWidth;
+    const height = viewport.clientHeight;
+    setTransform(prev => constrain({
+      zoom: prev.zoom,
+      offsetX: width / 2 - normalizedX * width * prev.zoom,
+      offsetY: height / 2 - normalizedY * height * prev.zoom,
+    }));
+  }, [constrain, viewportRef]);
+
+  const startPan = useCallback((clientX: number, clientY: number) => {
+    panOrigin.current = { x: clientX, y: clientY };
+    setIsPanning(true);
+  }, []);
+
+  const movePan = useCallback((clientX: number, clientY: number) => {
+    const origin = panOrigin.current;
+    if (!origin) return;
+    const dx = clientX - origin.x;
+    const dy = clientY - origin.y;
+    panOrigin.current = { x: clientX, y: clientY };
+    setTransform(prev => constrain({ zoom: prev.zoom, offsetX: prev.offsetX + dx, offsetY: prev.offsetY + dy }));
+  }, [constrain]);
+
+  const endPan = useCallback(() => {
+    panOrigin.current = null;
+    setIsPanning(false);
+  }, []);
+
+  const startGesture = useCallback((touches: React.TouchList) => {
+    if (touches.length < 2) return;
+    gesture.current = { center: touchCenter(touches), distance: touchDistance(touches) };
+  }, []);
+
+  // Two-finger pinch zooms around the midpoint while the midpoint's movement pans.
+  const moveGesture = useCallback((touches: React.TouchList) => {
+    const previous = gesture.current;
+    if (!previous || touches.length < 2) return;
+    const center = touchCenter(touches);
+    const distance = touchDistance(touches);
+    gesture.current = { center, distance };
+
+    const anchor = toViewportPoint(center);
+    setTransform(prev => {
+      const nextZoom = clampZoom(prev.zoom * (previous.distance > 0 ? distance / previous.distance : 1));
+      const ratio = nextZoom / prev.zoom;
+      return constrain({
+        zoom: nextZoom,
+        offsetX: anchor.x - (anchor.x - prev.offsetX) * ratio + (center.x - previous.center.x),
+        offsetY: anchor.y - (anchor.y - prev.offsetY) * ratio + (center.y - previous.center.y),
+      });
+    });
+  }, [constrain, toViewportPoint]);
+
+  const endGesture = useCallback(() => {
+    gesture.current = null;
+  }, []);
+
+  // React registers wheel listeners as passive, so preventDefault needs a native listener.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      // Trackpad pinch arrives as ctrl+wheel with small deltas; scale it up to feel the same.
+      const delta = e.ctrlKey ? e.deltaY * 10 : e.deltaY;
+      zoomBy(Math.pow(WHEEL_ZOOM_STEP, -delta), { x: e.clientX, y: e.clientY });
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [viewportRef, zoomBy]);
+
+  useEffect(() => {
+    // Space types into fields and presses buttons, checkboxes and the like; leave it to them.
+    const usesSpace = (target: EventTarget | null) =>
+      target instanceof HTMLElement
+        && (target.isContentEditable || !!target.closest('input, textarea, select, button, a[href], summary, [role="button"]'));
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || usesSpace(e.target)) return;
+      e.preventDefault();
+      setIsSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return;
+      setIsSpaceHeld(false);
+    };
+    const handleBlur = () => setIsSpaceHeld(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  return {
+    transform,
+    isPanning,
+    isSpaceHeld,
+    zoomBy,
+    zoomTo,
+    fit,
+    actualPixels,
+    centerOn,
+    startPan,
+    movePan,
+    endPan,
+    startGesture,
+    moveGesture,
+    endGesture,
+  };
+};
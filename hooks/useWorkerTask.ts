@@ -0,0 +1,74 @@
+import { useRef, useCallback, useEffect } from 'react';
+import { WorkerReply } from '../utils/workerTask';
+
+interface PendingJob<Result> {
+  resolve: (result: Result) => void;
+  reject: (err: Error) => void;
+}
+
+interface WorkerTaskOptions<Request, Result> {
+  createWorker: () => Worker;
+  // Same computation on the main thread, for browsers without Worker support.
+  runInline: (request: Request) => Result;
+  // Buffers handed to the worker instead of copied; callers mustn't reuse them.
+  transferables: (request: Request) => Transferable[];
+  failureMessage: string;
+}
+
+/**
+ * Runs CPU-heavy jobs in a Web Worker so they don't block painting. The
+ * worker is started on first use, replaced if it crashes, and stopped on
+ * unmount, which rejects any job still running.
+ */
+export const useWorkerTask = <Request, Result>(options: WorkerTaskOptions<Request, Result>): ((request: Request) => Promise<Result>) => {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const workerRef = useRef<Worker | null>(null);
+  const pending = useRef(new Map<number, PendingJob<Result>>());
+  const nextId = useRef(0);
+
+  const failAll = (message: string) => {
+    pending.current.forEach(job => job.reject(new Error(message)));
+    pending.current.clear();
+  };
+
+  useEffect(() => () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    failAll(optionsRef.current.failureMessage);
+  }, []);
+
+  const getWorker = (): Worker => {
+    if (workerRef.current) return workerRef.current;
+    const worker = optionsRef.current.createWorker();
+    worker.addEventListener('message', (e: MessageEvent<WorkerReply<Result>>) => {
+      const job = pending.current.get(e.data.id);
+      if (!job) return;
+      pending.current.delete(e.data.id);
+      if (e.data.result !== undefined) {
+        job.resolve(e.data.result);
+      } else {
+        job.reject(new Error(e.data.error ?? optionsRef.current.failureMessage));
+      }
+    });
+    worker.addEventListener('error', () => {
+      worker.terminate();
+      if (workerRef.current === worker) workerRef.current = null;
+      failAll(optionsRef.current.failureMessage);
+    });
+    workerRef.current = worker;
+    return worker;
+  };
+
+  return useCallback((request: Request): Promise<Result> => {
+    const { runInline, transferables } = optionsRef.current;
+    if (typeof Worker === 'undefined') {
+      return Promise.resolve().then(() => runInline(request));
+    }
+    const id = nextId.current++;
+    return new Promise((resolve, reject) => {
+      pending.current.set(id, { resolve, reject });
+      getWorker().postMessage({ id, request }, transferables(request));
+    });
+  }, []);
+};
@@ -0,0 +1,44 @@
+const STORAGE_KEY = 'ai-image-editor.gemini-api-key';
+
+export type ApiKeySource = 'environment' | 'session' | 'local';
+
+export interface StoredApiKey {
+  key: string;
+  source: ApiKeySource;
+}
+
+const read = (storage: Storage): string | null => {
+  try {
+    return storage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Resolves the Gemini key: a key entered in the app wins over one baked into
+ * the build, and a session key wins over one remembered on this device.
+ */
+export const resolveApiKey = (): StoredApiKey | null => {
+  const sessionKey = read(sessionStorage);
+  if (sessionKey) return { key: sessionKey, source: 'session' };
+  const localKey = read(localStorage);
+  if (localKey) return { key: localKey, source: 'local' };
+  const envKey = process.env.API_KEY;
+  if (envKey) return { key: envKey, source: 'environment' };
+  return null;
+};
+
+export const storeApiKey = (key: string, remember: boolean) => {
+  clearStoredApiKey();
+  (remember ? localStorage : sessionStorage).setItem(STORAGE_KEY, key);
+};
+
+export const clearStoredApiKey = () => {
+  try {
+    sessionStorage.removeItem(STORAGE_KEY);
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage may be disabled; there is nothing to forget in that case.
+  }
+};
@@ -0,0 +1,73 @@
+import { editImageWithMask, generateBackgroundMask } from './geminiService';
+import { DEFAULT_UPSCALE_SHARPEN, LocalUpscaler, upscaleSource } from './upscaleService';
+import { BatchJob, BatchStage } from '../types';
+import { canvasToBlob, createCanvas, fileToBase64, get2dContext, loadImage, loadImageFromFile } from '../utils/imageUtils';
+import { hasPaint, readProviderMask, writeOverlayMask } from '../utils/maskUtils';
+import { invertMask } from '../utils/maskOps';
+import { prepareEditRequest } from '../utils/requestUtils';
+import { importImage } from '../utils/imageImport';
+import { compositeWithMask } from '../utils/compositeUtils';
+import { DEFAULT_FEATHER_PX } from '../utils/editOptions';
+
+// Masks are drawn at no more than this size, like the editor's canvas.
+const MASK_MAX_DIMENSION = 1024;
+
+/** Paints the job's mask for `source` as an overlay at mask size. */
+const buildMaskOverlay = async (file: File, source: HTMLImageElement, job: BatchJob, signal: AbortSignal): Promise<HTMLCanvasElement> => {
+  const scale = Math.min(1, MASK_MAX_DIMENSION / Math.max(source.naturalWidth, source.naturalHeight));
+  const overlay = createCanvas(Math.max(1, Math.round(source.naturalWidth * scale)), Math.max(1, Math.round(source.naturalHeight * scale)));
+  const { maskSource } = job;
+
+  if (maskSource.kind === 'rect') {
+    const ctx = get2dContext(overlay);
+    ctx.fillStyle = 'white';
+    ctx.fillRect(maskSource.rect.x * overlay.width, maskSource.rect.y * overlay.height, maskSource.rect.width * overlay.width, maskSource.rect.height * overlay.height);
+  } else {
+    const maskBase64 = await generateBackgroundMask(await fileToBase64(file), file.type, signal);
+    const background = readProviderMask(await loadImage(`data:image/png;base64,${maskBase64}`), overlay.width, overlay.height);
+    writeOverlayMask(overlay, maskSource.target === 'background' ? background : invertMask(background), '#ffffff');
+  }
+
+  if (!hasPaint(overlay)) {
+    throw new Error(maskSource.kind === 'rect' ? 'The mask rectangle is empty.' : `No ${maskSource.target} was found to mask.`);
+  }
+  return overlay;
+};
+
+/**
+ * Runs one image through a batch job: mask, edit, composite back at full
+ * resolution and optionally upscale the way the editor does. Resolves to
+ * the finished PNG, with a notice if its upscaled size is off.
+ */
+export const processBatchItem = async (
+  upload: File,
+  job: BatchJob,
+  signal: AbortSignal,
+  onStage: (stage: BatchStage) => void,
+  upscaleLocally: LocalUpscaler
+): Promise<{ image: Blob, notice: string | null }> => {
+  onStage('masking');
+  const file = await importImage(upload);
+  const source = await loadImageFromFile(file);
+  const overlay = await buildMaskOverlay(file, source, job, signal);
+
+  onStage('editing');
+  const request = prepareEditRequest(source, overlay, { resolution: job.resolution, cropToMask: false });
+  const [resultBase64] = await editImageWithMask(job.prompt, job.negativePrompt, job.style, request.imageBase64, request.mimeType, request.maskBase64, 1, signal);
+  const resultImage = await loadImage(`data:image/png;base64,${resultBase64}`);
+  const featherPx = DEFAULT_FEATHER_PX * source.naturalWidth / overlay.width;
+  const composited = compositeWithMask(source, source.naturalWidth, source.naturalHeight, resultImage, request.maskCanvas, featherPx, request.mapping.region);
+
+  if (!job.upscaleFactor) {
+    return { image: await canvasToBlob(composited), notice: null };
+  }
+  onStage('upscaling');
+  const upscaled = await upscaleSource(composited, {
+    factor: job.upscaleFactor,
+    method: job.upscaleMethod,
+    sharpen: DEFAULT_UPSCALE_SHARPEN,
+    upscaleLocally,
+    signal,
+  });
+  return { image: upscaled.image, notice: upscaled.notice };
+};
@@ -0,0 +1,100 @@
+export type ImageServiceErrorCode =
+  | 'safety'
+  | 'rate-limit'
+  | 'network'
+  | 'empty-response'
+  | 'invalid-key'
+  | 'timeout'
+  | 'cancelled'
+  | 'unknown';
+
+/**
+ * Base class for every failure surfaced by the image services. `message` is
+ * written for the user and says what to do next; `retryable` marks failures
+ * that may succeed if the same request is sent again.
+ */
+export class ImageServiceError extends Error {
+  readonly code: ImageServiceErrorCode;
+  readonly retryable: boolean;
+
+  constructor(code: ImageServiceErrorCode, message: string, options: { retryable?: boolean, cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ImageServiceError';
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+export class SafetyBlockError extends ImageServiceError {
+  constructor(reason?: string, cause?: unknown) {
+    super('safety', `The request was blocked by the provider's safety filters${reason ? ` (${reason})` : ''}. Try rephrasing the prompt or masking a different area.`, { cause });
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class RateLimitError extends ImageServiceError {
+  constructor(cause?: unknown) {
+    super('rate-limit', 'The provider rate limit or quota was reached. Wait a minute and try again, or check your plan limits.', { retryable: true, cause });
+    this.name = 'RateLimitError';
+  }
+}
+
+export class NetworkError extends ImageServiceError {
+  constructor(detail?: string, cause?: unknown) {
+    super('network', `Could not reach the provider${detail ? ` (${detail})` : ''}. Check your connection and try again.`, { retryable: true, cause });
+    this.name = 'NetworkError';
+  }
+}
+
+export class EmptyResponseError extends ImageServiceError {
+  constructor(what = 'image', cause?: unknown) {
+    super('empty-response', `The provider returned no ${what}. Try again, or adjust the prompt or mask.`, { retryable: true, cause });
+    this.name = 'EmptyResponseError';
+  }
+}
+
+export class InvalidApiKeyError extends ImageServiceError {
+  constructor(cause?: unknown) {
+    super('invalid-key', 'The API key was rejected. Open Settings and enter a valid key.', { cause });
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+// Not retried automatically: a request that ran out the clock once will
+// usually do so again, and each attempt can hold the user for minutes.
+export class TimeoutError extends ImageServiceError {
+  constructor(timeoutMs: number) {
+    super('timeout', `The request timed out after ${Math.round(timeoutMs / 1000)}s. Try again, or use a lower working resolution.`);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class CancelledError extends ImageServiceError {
+  constructor() {
+    super('cancelled', 'The request was cancelled.');
+    this.name = 'CancelledError';
+  }
+}
+
+export const isCancelledError = (error: unknown): boolean =>
+  error instanceof CancelledError;
+
+/** Maps an HTTP status from any provider onto the matching typed error. */
+export const errorFromStatus = (status: number, detail: string, cause?: unknown): ImageServiceError => {
+  if (status === 401 || status === 403) return new InvalidApiKeyError(cause);
+  if (status === 429) return new RateLimitError(cause);
+  if (status >= 500) return new NetworkError(`${status} ${detail}`.trim(), cause);
+  return new ImageServiceError('unknown', `The provider rejected the request: ${detail || status}`, { cause });
+};
+
+/** Wraps anything thrown by a provider into an ImageServiceError. */
+export const toImageServiceError = (error: unknown): ImageServiceError => {
+  if (error instanceof ImageServiceError) return error;
+  if (error instanceof DOMException && error.name === 'AbortError') return new CancelledError();
+  // fetch() rejects with a TypeError when the network is unreachable.
+  if (error instanceof TypeError) return new NetworkError(error.message, error);
+  if (error instanceof Error) {
+    return new ImageServiceError('unknown', error.message, { cause: error });
+  }
+  return new ImageServiceError('unknown', 'An unknown error occurred.', { cause: error });
+};
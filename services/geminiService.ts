@@ -1,13 +1,57 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import type { GenerateContentResponse } from "@google/genai";
-
-const API_KEY = process.env.API_KEY;
-
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable is not set.");
-}
+import { getProvider } from './providerRegistry';
+import { AttemptReport, withRetry } from './requestPolicy';
+import { EmptyResponseError } from './errors';
+import { base64Size, recordUsage, UsageOperation, UsageOutcome } from './usageLedger';
+import { ImageEditProvider, SelectionPoint } from './providers/ImageEditProvider';
+
+const EDIT_TIMEOUT_MS = 120_000;
+const MASK_TIMEOUT_MS = 60_000;
+const UPSCALE_TIMEOUT_MS = 120_000;
+
+/** Builds the `withRetry` observer that records each attempt of `operation` in the usage ledger. */
+const trackUsage = <T extends string | string[]>(
+  operation: UsageOperation,
+  provider: ImageEditProvider,
+  inputs: string[]
+) => ({ durationMs, value, error }: AttemptReport<T>) => {
+  const outputs: string[] = value === undefined ? [] : typeof value === 'string' ? [value] : value;
+  const outcome: UsageOutcome = !error ? 'success' : error.code === 'cancelled' || error.code === 'timeout' ? error.code : 'error';
+  recordUsage({
+    operation,
+    provider: provider.kind,
+    model: provider.model,
+    inputBytes: inputs.reduce((sum, input) => sum + base64Size(input), 0),
+    outputBytes: outputs.reduce((sum, output) => sum + base64Size(output), 0),
+    outputImages: outputs.length,
+    durationMs: Math.round(durationMs),
+    outcome,
+    errorCode: error?.code,
+  });
+};
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+/**
+ * Image models return a single candidate per call, so variations are separate
+ * parallel requests; any extra candidates that do come back are kept.
+ */
+const requestVariations = async (
+  call: (signal: AbortSignal) => Promise<string[]>,
+  onAttempt: (report: AttemptReport<string[]>) => void,
+  variationCount: number,
+  signal?: AbortSignal
+): Promise<string[]> => {
+  const results = await Promise.allSettled(
+    Array.from({ length: variationCount }, () =>
+      withRetry(call, signal, { timeoutMs: EDIT_TIMEOUT_MS }, onAttempt)
+    )
+  );
+
+  const images = results.flatMap(result => result.status === 'fulfilled' ? result.value : []);
+  if (images.length === 0) {
+    const firstFailure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    throw firstFailure?.reason ?? new EmptyResponseError('edited image');
+  }
+  return images;
+};
 
 export const editImageWithMask = async (
   prompt: string,
@@ -15,164 +59,82 @@ export const editImageWithMask = async (
   style: string,
   originalImageBase64: string,
   originalMimeType: string,
-  maskImageBase64: string
-): Promise<string> => {
-  try {
-    let augmentedPrompt = `
-      You are an expert image editor.
-      Using the provided mask (second image), edit the original image (first image) based on the following instruction.
-      Only modify the areas that are white in the mask. The black areas of the mask must remain untouched in the original image.
-      Instruction: "${prompt}"
-    `;
-
-    if (style !== 'Default') {
-        augmentedPrompt += ` in a ${style.toLowerCase()} style.`;
-    }
-
-    if (negativePrompt.trim()) {
-        augmentedPrompt += `\nAvoid the following elements and styles: ${negativePrompt}.`;
-    }
-
-
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image', // aka Nano Banana
-        contents: {
-          parts: [
-            {
-              text: augmentedPrompt,
-            },
-            {
-              inlineData: {
-                data: originalImageBase64,
-                mimeType: originalMimeType,
-              },
-            },
-            {
-              inlineData: {
-                data: maskImageBase64,
-                mimeType: 'image/png',
-              },
-            },
-          ],
-        },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-      });
-
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          return part.inlineData.data;
-        }
-      }
-      
-    throw new Error("No image data found in the API response.");
+  maskImageBase64: string,
+  variationCount = 1,
+  signal?: AbortSignal
+): Promise<string[]> => {
+  const provider = getProvider();
+  const request = { prompt, negativePrompt, style, imageBase64: originalImageBase64, mimeType: originalMimeType, maskBase64: maskImageBase64 };
+  return requestVariations(
+    attemptSignal => provider.inpaint(request, { signal: attemptSignal }),
+    trackUsage('inpaint', provider, [originalImageBase64, maskImageBase64]),
+    variationCount,
+    signal
+  );
+};
 
-  } catch (error) {
-    console.error("Error editing image with Gemini API:", error);
-    if (error instanceof Error) {
-        throw new Error(`Failed to edit image: ${error.message}`);
-    }
-    throw new Error("An unknown error occurred while editing the image.");
-  }
+/** Fills the white area of `maskBase64`, new canvas around the original, to extend the image. */
+export const outpaintImage = async (
+  prompt: string,
+  negativePrompt: string,
+  style: string,
+  imageBase64: string,
+  mimeType: string,
+  maskBase64: string,
+  variationCount = 1,
+  signal?: AbortSignal
+): Promise<string[]> => {
+  const provider = getProvider();
+  const request = { prompt, negativePrompt, style, imageBase64, mimeType, maskBase64 };
+  return requestVariations(
+    attemptSignal => provider.outpaint(request, { signal: attemptSignal }),
+    trackUsage('outpaint', provider, [imageBase64, maskBase64]),
+    variationCount,
+    signal
+  );
 };
 
 export const generateBackgroundMask = async (
   imageBase64: string,
-  mimeType: string
+  mimeType: string,
+  signal?: AbortSignal
 ): Promise<string> => {
-  try {
-    const prompt = `
-      You are an expert in image segmentation.
-      Analyze the provided image and identify the main subject(s).
-      Your task is to create a binary mask image.
-      In the mask, the background should be pure white (#FFFFFF) and the main subject(s) should be pure black (#000000).
-      Do not include any shades of gray or other colors. The output must be a clean, black and white mask.
-      The mask must have the exact same dimensions as the original image.
-    `;
-
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            text: prompt,
-          },
-          {
-            inlineData: {
-              data: imageBase64,
-              mimeType: mimeType,
-            },
-          },
-        ],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE],
-      },
-    });
-
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) {
-        return part.inlineData.data;
-      }
-    }
-
-    throw new Error("No mask data found in the API response.");
-  } catch (error) {
-    console.error("Error generating background mask with Gemini API:", error);
-    if (error instanceof Error) {
-        throw new Error(`Failed to generate mask: ${error.message}`);
-    }
-    throw new Error("An unknown error occurred while generating the mask.");
-  }
+  const provider = getProvider();
+  return withRetry(
+    attemptSignal => provider.segment(imageBase64, mimeType, { signal: attemptSignal }),
+    signal,
+    { timeoutMs: MASK_TIMEOUT_MS },
+    trackUsage('segment', provider, [imageBase64])
+  );
 };
 
+export const generateObjectMask = async (
+  imageBase64: string,
+  mimeType: string,
+  description: string,
+  points: SelectionPoint[],
+  signal?: AbortSignal
+): Promise<string> => {
+  const provider = getProvider();
+  const request = { imageBase64, mimeType, description, points };
+  return withRetry(
+    attemptSignal => provider.select(request, { signal: attemptSignal }),
+    signal,
+    { timeoutMs: MASK_TIMEOUT_MS },
+    trackUsage('select', provider, [imageBase64])
+  );
+};
 
 export const upscaleImage = async (
   imageBase64: string,
-  factor: number
+  factor: number,
+  signal?: AbortSignal
 ): Promise<string> => {
-  try {
-    const prompt = `
-      You are an expert in image processing.
-      Upscale the following image to ${factor}x its original resolution.
-      It is crucial that you enhance the details and clarity without adding, removing, or changing any content or subjects in the image.
-      Preserve the original art style, colors, and composition perfectly.
-      The output image must be a high-quality, upscaled version of the input.
-    `;
-
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            text: prompt,
-          },
-          {
-            inlineData: {
-              data: imageBase64,
-              mimeType: 'image/png', // The edited image is a PNG data URL
-            },
-          },
-        ],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE],
-      },
-    });
-
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) {
-        return part.inlineData.data;
-      }
-    }
-
-    throw new Error("No upscaled image data found in the API response.");
-  } catch (error) {
-    console.error("Error upscaling image with Gemini API:", error);
-    if (error instanceof Error) {
-        throw new Error(`Failed to upscale image: ${error.message}`);
-    }
-    throw new Error("An unknown error occurred while upscaling the image.");
-  }
-};
\ No newline at end of file
+  const provider = getProvider();
+  return withRetry(
+    attemptSignal => provider.upscale(imageBase64, factor, { signal: attemptSignal }),
+    signal,
+    { timeoutMs: UPSCALE_TIMEOUT_MS },
+    trackUsage('upscale', provider, [imageBase64])
+  );
+};
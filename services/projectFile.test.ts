@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { exportProjectFile, importProjectFile, PROJECT_FILE_FORMAT, PROJECT_FILE_VERSION, ProjectFileError, validateManifest } from './projectFile';
+import { readZip } from '../utils/zip';
+import { ProjectRecord, SavedMaskLayer } from '../types';
+
+const png = (marker: number) => new Blob([new Uint8Array([0x89, 0x50, 0x4e, 0x47, marker])], { type: 'image/png' });
+const bytesOf = async (blob: Blob | null | undefined) => blob ? Array.from(new Uint8Array(await blob.arrayBuffer())) : null;
+
+const layer = (id: string, marker: number, prompt: string): SavedMaskLayer => ({
+  id,
+  name: `Layer ${id}`,
+  color: '#c084fc',
+  visible: true,
+  prompt,
+  mask: png(marker),
+  soft: true,
+});
+
+/** A session two versions deep, with layers on the working mask and on the second version. */
+const project = (): ProjectRecord => {
+  const original = new File([new Uint8Array([0xff, 0xd8, 0xff, 0xd9])], 'photo.jpg', { type: 'image/jpeg' });
+  return {
+    id: 'local-id',
+    name: 'photo.jpg',
+    createdAt: 1_000,
+    updatedAt: 2_000,
+    original,
+    versions: [
+      { id: 'root', parentId: null, image: original, mask: null, prompt: '', negativePrompt: '', style: 'Default', createdAt: 1_000 },
+      {
+        id: 'edit-1',
+        parentId: 'root',
+        image: png(1),
+        mask: png(2),
+        prompt: 'a red kite',
+        negativePrompt: 'blur',
+        style: 'Photorealistic',
+        model: 'test-model',
+        layers: [layer('sky', 3, 'a red kite')],
+        createdAt: 1_500,
+      },
+    ],
+    activeVersionId: 'edit-1',
+    mask: png(4),
+    layers: [layer('sky', 5, 'clouds'), { ...layer('ground', 6, ''), visible: false, mask: null, soft: false }],
+    activeLayerId: 'ground',
+    settings: { prompt: 'clouds', negativePrompt: 'blur', style: 'Photorealistic' },
+    candidates: [],
+    thumbnail: null,
+  };
+};
+
+/** Exports `record` and returns its manifest and files, for tampering with. */
+const exported = async (record = project()) => {
+  const files = await readZip(await exportProjectFile(record));
+  const manifest = JSON.parse(new TextDecoder().decode(files.get('manifest.json')!));
+  return { files, manifest };
+};
+
+describe('project files', () => {
+  it('round-trips versions, layers and settings', async () => {
+    const record = project();
+    const archive = await exportProjectFile(record);
+    const restored = await importProjectFile(new File([archive], 'photo.aiedit.zip', { type: 'application/zip' }));
+
+    expect(restored.id).not.toBe(record.id);
+    expect(restored.original.name).toBe('photo.jpg');
+    expect(restored.original.type).toBe('image/jpeg');
+    expect(await bytesOf(restored.original)).toEqual(await bytesOf(record.original));
+    expect(restored.activeVersionId).toBe('edit-1');
+    expect(restored.settings).toEqual(record.settings);
+    expect(await bytesOf(restored.mask)).toEqual(await bytesOf(record.mask));
+
+    expect(restored.versions.map(({ id, parentId, prompt, negativePrompt, style, model, createdAt }) => ({ id, parentId, prompt, negativePrompt, style, model, createdAt })))
+      .toEqual(record.versions.map(({ id, parentId, prompt, negativePrompt, style, model, createdAt }) => ({ id, parentId, prompt, negativePrompt, style, model, createdAt })));
+    // The root version shares the original's bytes rather than storing them twice.
+    expect(restored.versions[0].image).toBe(restored.original);
+    expect(await bytesOf(restored.versions[1].image)).toEqual(await bytesOf(record.versions[1].image));
+    expect(await bytesOf(restored.versions[1].mask)).toEqual(await bytesOf(record.versions[1].mask));
+    expect(restored.versions[1].layers?.map(l => l.prompt)).toEqual(['a red kite']);
+    expect(await bytesOf(restored.versions[1].layers?.[0].mask)).toEqual(await bytesOf(record.versions[1].layers?.[0].mask));
+
+    expect(restored.activeLayerId).toBe('ground');
+    expect(restored.layers?.map(({ id, name, color, visible, prompt, soft }) => ({ id, name, color, visible, prompt, soft })))
+      .toEqual(record.layers?.map(({ id, name, color, visible, prompt, soft }) => ({ id, name, color, visible, prompt, soft })));
+    expect(await bytesOf(restored.layers?.[0].mask)).toEqual(await bytesOf(record.layers?.[0].mask));
+    expect(restored.layers?.[1].mask).toBeNull();
+  });
+
+  it('writes the current format and version', async () => {
+    const { manifest } = await exported();
+    expect(manifest.format).toBe(PROJECT_FILE_FORMAT);
+    expect(manifest.version).toBe(PROJECT_FILE_VERSION);
+  });
+
+  it('reads a version 1 manifest, without layers or results metadata', async () => {
+    const { files, manifest } = await exported();
+    const { layers: _layers, activeLayerId: _activeLayerId, lastEdit: _lastEdit, ...v1 } = manifest;
+    v1.version = 1;
+    v1.versions = v1.versions.map(({ layers: _versionLayers, ...version }: Record<string, unknown>) => version);
+    const validated = validateManifest(v1, files);
+    expect(validated.layers).toBeNull();
+    expect(validated.activeLayerId).toBeNull();
+    expect(validated.lastEdit).toBeNull();
+    expect(validated.versions.every(version => version.layers === null)).toBe(true);
+  });
+});
+
+describe('validateManifest', () => {
+  type Tamper = (manifest: Record<string, any>) => void;
+  const rejected: [string, Tamper, string][] = [
+    ['an unknown format', m => { m.format = 'something-else'; }, 'unrecognised format'],
+    ['a newer version', m => { m.version = PROJECT_FILE_VERSION + 1; }, 'newer than this app supports'],
+    ['a fractional version', m => { m.version = 1.5; }, '"version" must be a whole number'],
+    ['a missing name', m => { delete m.name; }, '"name" must be a string'],
+    ['no versions', m => { m.versions = []; }, '"versions" must be a non-empty list'],
+    ['an unknown parent', m => { m.versions[1].parentId = 'nowhere'; }, 'versions[1] has an unknown parent'],
+    ['an unknown active version', m => { m.activeVersionId = 'nowhere'; }, '"activeVersionId" does not match'],
+    ['an unknown active layer', m => { m.activeLayerId = 'nowhere'; }, '"activeLayerId" does not match'],
+    ['a missing file', m => { m.versions[1].image = 'versions/gone.png'; }, 'points to missing file versions/gone.png'],
+    ['a layer that is not an object', m => { m.layers[0] = 'sky'; }, 'layers[0] is not an object'],
+    ['a mistyped layer field', m => { m.layers[0].color = 7; }, '"layers[0].color" must be a string'],
+    ['an extra top-level field', m => { m.extra = true; }, 'manifest has an unknown field "extra"'],
+    ['an extra version field', m => { m.versions[0].thumbnail = 'x.png'; }, 'versions[0] has an unknown field "thumbnail"'],
+    ['an extra layer field', m => { m.versions[1].layers[0].opacity = 0.5; }, 'versions[1].layers[0] has an unknown field "opacity"'],
+    ['an extra settings field', m => { m.settings.seed = 42; }, 'settings has an unknown field "seed"'],
+  ];
+
+  it.each(rejected)('rejects %s', async (_, tamper, message) => {
+    const { files, manifest } = await exported();
+    tamper(manifest);
+    expect(() => validateManifest(manifest, files)).toThrow(ProjectFileError);
+    expect(() => validateManifest(manifest, files)).toThrow(message);
+  });
+
+  it('rejects an extra field on a result', async () => {
+    const { files, manifest } = await exported();
+    manifest.results = [{ id: 'r', image: manifest.original.path, fullResImage: manifest.original.path, prompt: 'stray' }];
+    expect(() => validateManifest(manifest, files)).toThrow('results[0] has an unknown field "prompt"');
+  });
+
+  it('rejects a manifest that is not an object', () => {
+    expect(() => validateManifest([], new Map())).toThrow('manifest is not an object');
+  });
+});
@@ -0,0 +1,451 @@
+import { EditCandidate, EditVersion, PendingEdit, ProjectRecord, SavedMaskLayer, UpscaleMethod } from '../types';
+import { createZip, readZip, ZipEntry } from '../utils/zip';
+import { blobToDataUrl, dataUrlToBlob } from '../utils/imageUtils';
+
+export const PROJECT_FILE_FORMAT = 'ai-image-editor-project';
+export const PROJECT_FILE_VERSION = 2;
+export const PROJECT_FILE_EXTENSION = '.aiedit.zip';
+
+const MANIFEST_PATH = 'manifest.json';
+
+interface ManifestLayer {
+  id: string;
+  name: string;
+  color: string;
+  visible: boolean;
+  prompt: string;
+  mask: string | null;
+  soft: boolean;
+}
+
+interface ManifestVersion {
+  id: string;
+  parentId: string | null;
+  image: string;
+  mask: string | null;
+  prompt: string;
+  negativePrompt: string;
+  style: string;
+  model: string | null;
+  layers: ManifestLayer[] | null;
+  createdAt: number;
+}
+
+interface ManifestResult {
+  id: string;
+  image: string;
+  fullResImage: string;
+  // The provider's unmasked output and the mask it was composited with.
+  rawImage: string | null;
+  mask: string | null;
+  model: string | null;
+  createdAt: number | null;
+  upscaled: { image: string, factor: number, method: UpscaleMethod | null } | null;
+  layerIds: string[] | null;
+}
+
+interface ManifestEdit {
+  mask: string;
+  prompt: string;
+  negativePrompt: string;
+  style: string;
+  model: string | null;
+  layers: ManifestLayer[];
+}
+
+/**
+ * Layout of `manifest.json`. Every image field is a path inside the archive.
+ * Bump PROJECT_FILE_VERSION on any incompatible change.
+ *
+ * Version 2 added mask layers (`layers`, `activeLayerId` and each version's
+ * `layers`), `lastEdit`, and each result's `rawImage`, `mask`,
+ * `upscaled.method` and `layerIds`. Version 1 files have none of these and
+ * still open, with each read as null.
+ */
+export interface ProjectManifest {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  exportedAt: number;
+  original: { path: string, name: string, mimeType: string };
+  activeVersionId: string;
+  settings: { prompt: string, negativePrompt: string, style: string };
+  // The mask currently painted on the active version, with its alpha.
+  workingMask: string | null;
+  // Per-layer overlays; null in files written before layers existed.
+  layers: ManifestLayer[] | null;
+  activeLayerId: string | null;
+  versions: ManifestVersion[];
+  results: ManifestResult[];
+  // The edit that produced the results; null when there are none, or in older files.
+  lastEdit: ManifestEdit | null;
+}
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(`Invalid project file: ${message}`);
+    this.name = 'ProjectFileError';
+  }
+}
+
+const extensionFor = (mimeType: string): string => {
+  const subtype = mimeType.split('/')[1] ?? 'bin';
+  return subtype === 'jpeg' ? 'jpg' : subtype.replace(/[^a-z0-9]/gi, '');
+};
+
+const blobBytes = async (blob: Blob): Promise<Uint8Array> => new Uint8Array(await blob.arrayBuffer());
+
+export const exportProjectFile = async (project: ProjectRecord): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const add = async (path: string, blob: Blob): Promise<string> => {
+    entries.push({ path, data: await blobBytes(blob) });
+    return path;
+  };
+
+  const addLayers = async (layers: SavedMaskLayer[] | undefined, folder: string): Promise<ManifestLayer[] | null> => {
+    if (!layers) return null;
+    const manifestLayers: ManifestLayer[] = [];
+    for (const layer of layers) {
+      manifestLayers.push({
+        id: layer.id,
+        name: layer.name,
+        color: layer.color,
+        visible: layer.visible,
+        prompt: layer.prompt,
+        mask: layer.mask ? await add(`${folder}/${layer.id}.png`, layer.mask) : null,
+        soft: layer.soft ?? false,
+      });
+    }
+    return manifestLayers;
+  };
+
+  const originalPath = await add(`original.${extensionFor(project.original.type)}`, project.original);
+
+  const versions: ManifestVersion[] = [];
+  for (const version of project.versions) {
+    versions.push({
+      id: version.id,
+      parentId: version.parentId,
+      // The root version is the original upload; don't store it twice.
+      image: version.parentId ? await add(`versions/${version.id}.png`, version.image) : originalPath,
+      mask: version.mask ? await add(`masks/${version.id}.png`, version.mask) : null,
+      prompt: version.prompt,
+      negativePrompt: version.negativePrompt,
+      style: version.style,
+      model: version.model ?? null,
+      layers: await addLayers(version.layers, `masks/${version.id}-layers`),
+      createdAt: version.createdAt,
+    });
+  }
+
+  const results: ManifestResult[] = [];
+  for (const candidate of project.candidates) {
+    results.push({
+      id: candidate.id,
+      image: await add(`results/${candidate.id}-working.png`, await dataUrlToBlob(candidate.editedImage)),
+      fullResImage: await add(`results/${candidate.id}.png`, candidate.fullResImage),
+      rawImage: candidate.rawImage ? await add(`results/${candidate.id}-raw.png`, candidate.rawImage) : null,
+      mask: candidate.mask ? await add(`results/${candidate.id}-mask.png`, candidate.mask) : null,
+      model: candidate.model ?? null,
+      createdAt: candidate.createdAt ?? null,
+      upscaled: candidate.upscaled
+        ? {
+            image: await add(`results/${candidate.id}-${candidate.upscaled.factor}x.png`, candidate.upscaled.image),
+            factor: candidate.upscaled.factor,
+            method: candidate.upscaled.method ?? null,
+          }
+        : null,
+      layerIds: candidate.layerIds ?? null,
+    });
+  }
+
+  const lastEdit: ManifestEdit | null = project.lastEdit
+    ? {
+        mask: await add('masks/last-edit.png', project.lastEdit.mask),
+        ...project.lastEdit.settings,
+        model: project.lastEdit.model ?? null,
+        layers: (await addLayers(project.lastEdit.layers, 'masks/last-edit-layers'))!,
+      }
+    : null;
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    name: project.name,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+    exportedAt: Date.now(),
+    original: { path: originalPath, name: project.original.name, mimeType: project.original.type },
+    activeVersionId: project.activeVersionId,
+    settings: project.settings,
+    workingMask: project.mask ? await add('masks/working.png', project.mask) : null,
+    layers: await addLayers(project.layers, 'masks/layers'),
+    activeLayerId: project.activeLayerId ?? null,
+    versions,
+    results,
+    lastEdit,
+  };
+
+  entries.unshift({ path: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expectString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string') throw new ProjectFileError(`"${field}" must be a string.`);
+  return value;
+};
+
+const expectNumber = (value: unknown, field: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new ProjectFileError(`"${field}" must be a number.`);
+  return value;
+};
+
+const expectNullableString = (value: unknown, field: string): string | null =>
+  value === null || value === undefined ? null : expectString(value, field);
+
+/** Rejects fields this version doesn't define, which would otherwise be silently dropped. */
+const expectKnownFields = (value: Record<string, unknown>, known: string[], field: string) => {
+  const unknown = Object.keys(value).find(key => !known.includes(key));
+  if (unknown !== undefined) throw new ProjectFileError(`${field} has an unknown field "${unknown}".`);
+};
+
+const LAYER_FIELDS = ['id', 'name', 'color', 'visible', 'prompt', 'mask', 'soft'];
+const VERSION_FIELDS = ['id', 'parentId', 'image', 'mask', 'prompt', 'negativePrompt', 'style', 'model', 'layers', 'createdAt'];
+const RESULT_FIELDS = ['id', 'image', 'fullResImage', 'rawImage', 'mask', 'model', 'createdAt', 'upscaled', 'layerIds'];
+const EDIT_FIELDS = ['mask', 'prompt', 'negativePrompt', 'style', 'model', 'layers'];
+const MANIFEST_FIELDS = [
+  'format', 'version', 'name', 'createdAt', 'updatedAt', 'exportedAt', 'original', 'activeVersionId',
+  'settings', 'workingMask', 'layers', 'activeLayerId', 'versions', 'results', 'lastEdit',
+];
+
+const expectStringList = (value: unknown, field: string): string[] | null => {
+  if (value === null || value === undefined) return null;
+  if (!Array.isArray(value)) throw new ProjectFileError(`"${field}" must be a list.`);
+  return value.map((item, i) => expectString(item, `${field}[${i}]`));
+};
+
+/** Checks the manifest shape and that every referenced file is in the archive. */
+export const validateManifest = (raw: unknown, files: Map<string, Uint8Array>): ProjectManifest => {
+  if (!isObject(raw)) throw new ProjectFileError('manifest is not an object.');
+  if (raw.format !== PROJECT_FILE_FORMAT) throw new ProjectFileError('unrecognised format.');
+  const version = expectNumber(raw.version, 'version');
+  if (!Number.isInteger(version) || version < 1) throw new ProjectFileError(`"version" must be a whole number from 1.`);
+  if (version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError(`version ${version} is newer than this app supports (${PROJECT_FILE_VERSION}).`);
+  }
+
+  const requireFile = (path: string | null, field: string) => {
+    if (path !== null && !files.has(path)) throw new ProjectFileError(`"${field}" points to missing file ${path}.`);
+    return path;
+  };
+
+  const readLayers = (value: unknown, field: string): ManifestLayer[] | null => {
+    if (value === null || value === undefined) return null;
+    if (!Array.isArray(value)) throw new ProjectFileError(`"${field}" must be a list.`);
+    return value.map((l: unknown, i: number) => {
+      const path = `${field}[${i}]`;
+      if (!isObject(l)) throw new ProjectFileError(`${path} is not an object.`);
+      expectKnownFields(l, LAYER_FIELDS, path);
+      return {
+        id: expectString(l.id, `${path}.id`),
+        name: expectString(l.name, `${path}.name`),
+        color: expectString(l.color, `${path}.color`),
+        visible: l.visible !== false,
+        prompt: expectString(l.prompt ?? '', `${path}.prompt`),
+        mask: requireFile(expectNullableString(l.mask, `${path}.mask`), `${path}.mask`),
+        soft: l.soft === true,
+      };
+    });
+  };
+
+  if (!isObject(raw.original)) throw new ProjectFileError('"original" is missing.');
+  if (!isObject(raw.settings)) throw new ProjectFileError('"settings" is missing.');
+  if (!Array.isArray(raw.versions) || raw.versions.length === 0) throw new ProjectFileError('"versions" must be a non-empty list.');
+  if (!Array.isArray(raw.results)) throw new ProjectFileError('"results" must be a list.');
+  expectKnownFields(raw, MANIFEST_FIELDS, 'manifest');
+  expectKnownFields(raw.original, ['path', 'name', 'mimeType'], 'original');
+  expectKnownFields(raw.settings, ['prompt', 'negativePrompt', 'style'], 'settings');
+
+  const versions: ManifestVersion[] = raw.versions.map((v: unknown, i: number) => {
+    if (!isObject(v)) throw new ProjectFileError(`versions[${i}] is not an object.`);
+    expectKnownFields(v, VERSION_FIELDS, `versions[${i}]`);
+    return {
+      id: expectString(v.id, `versions[${i}].id`),
+      parentId: expectNullableString(v.parentId, `versions[${i}].parentId`),
+      image: requireFile(expectString(v.image, `versions[${i}].image`), `versions[${i}].image`)!,
+      mask: requireFile(expectNullableString(v.mask, `versions[${i}].mask`), `versions[${i}].mask`),
+      prompt: expectString(v.prompt ?? '', `versions[${i}].prompt`),
+      negativePrompt: expectString(v.negativePrompt ?? '', `versions[${i}].negativePrompt`),
+      style: expectString(v.style ?? 'Default', `versions[${i}].style`),
+      model: expectNullableString(v.model, `versions[${i}].model`),
+      layers: readLayers(v.layers, `versions[${i}].layers`),
+      createdAt: expectNumber(v.createdAt, `versions[${i}].createdAt`),
+    };
+  });
+
+  const ids = new Set(versions.map(v => v.id));
+  versions.forEach((v, i) => {
+    if (v.parentId !== null && !ids.has(v.parentId)) throw new ProjectFileError(`versions[${i}] has an unknown parent.`);
+  });
+  const activeVersionId = expectString(raw.activeVersionId, 'activeVersionId');
+  if (!ids.has(activeVersionId)) throw new ProjectFileError('"activeVersionId" does not match any version.');
+
+  const results: ManifestResult[] = raw.results.map((r: unknown, i: number) => {
+    if (!isObject(r)) throw new ProjectFileError(`results[${i}] is not an object.`);
+    expectKnownFields(r, RESULT_FIELDS, `results[${i}]`);
+    let upscaled: ManifestResult['upscaled'] = null;
+    if (isObject(r.upscaled)) {
+      expectKnownFields(r.upscaled, ['image', 'factor', 'method'], `results[${i}].upscaled`);
+      upscaled = {
+        image: requireFile(expectString(r.upscaled.image, `results[${i}].upscaled.image`), `results[${i}].upscaled.image`)!,
+        factor: expectNumber(r.upscaled.factor, `results[${i}].upscaled.factor`),
+        method: r.upscaled.method === 'ai' || r.upscaled.method === 'local' ? r.upscaled.method : null,
+      };
+    }
+    return {
+      id: expectString(r.id, `results[${i}].id`),
+      image: requireFile(expectString(r.image, `results[${i}].image`), `results[${i}].image`)!,
+      fullResImage: requireFile(expectString(r.fullResImage, `results[${i}].fullResImage`), `results[${i}].fullResImage`)!,
+      rawImage: requireFile(expectNullableString(r.rawImage, `results[${i}].rawImage`), `results[${i}].rawImage`),
+      mask: requireFile(expectNullableString(r.mask, `results[${i}].mask`), `results[${i}].mask`),
+      model: expectNullableString(r.model, `results[${i}].model`),
+      createdAt: r.createdAt === null || r.createdAt === undefined ? null : expectNumber(r.createdAt, `results[${i}].createdAt`),
+      upscaled,
+      layerIds: expectStringList(r.layerIds, `results[${i}].layerIds`),
+    };
+  });
+
+  let lastEdit: ManifestEdit | null = null;
+  if (isObject(raw.lastEdit)) {
+    expectKnownFields(raw.lastEdit, EDIT_FIELDS, 'lastEdit');
+    lastEdit = {
+      mask: requireFile(expectString(raw.lastEdit.mask, 'lastEdit.mask'), 'lastEdit.mask')!,
+      prompt: expectString(raw.lastEdit.prompt ?? '', 'lastEdit.prompt'),
+      negativePrompt: expectString(raw.lastEdit.negativePrompt ?? '', 'lastEdit.negativePrompt'),
+      style: expectString(raw.lastEdit.style ?? 'Default', 'lastEdit.style'),
+      model: expectNullableString(raw.lastEdit.model, 'lastEdit.model'),
+      layers: readLayers(raw.lastEdit.layers, 'lastEdit.layers') ?? [],
+    };
+  }
+
+  const layers = readLayers(raw.layers, 'layers');
+  const activeLayerId = expectNullableString(raw.activeLayerId, 'activeLayerId');
+  if (activeLayerId !== null && !layers?.some(l => l.id === activeLayerId)) {
+    throw new ProjectFileError('"activeLayerId" does not match any layer.');
+  }
+
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version,
+    name: expectString(raw.name, 'name'),
+    createdAt: expectNumber(raw.createdAt, 'createdAt'),
+    updatedAt: expectNumber(raw.updatedAt, 'updatedAt'),
+    exportedAt: expectNumber(raw.exportedAt, 'exportedAt'),
+    original: {
+      path: requireFile(expectString(raw.original.path, 'original.path'), 'original.path')!,
+      name: expectString(raw.original.name, 'original.name'),
+      mimeType: expectString(raw.original.mimeType, 'original.mimeType'),
+    },
+    activeVersionId,
+    settings: {
+      prompt: expectString(raw.settings.prompt ?? '', 'settings.prompt'),
+      negativePrompt: expectString(raw.settings.negativePrompt ?? '', 'settings.negativePrompt'),
+      style: expectString(raw.settings.style ?? 'Default', 'settings.style'),
+    },
+    workingMask: requireFile(expectNullableString(raw.workingMask, 'workingMask'), 'workingMask'),
+    layers,
+    activeLayerId,
+    versions,
+    results,
+    lastEdit,
+  };
+};
+
+export const isProjectFile = (file: File): boolean =>
+  file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip' || file.type === 'application/x-zip-compressed';
+
+/** Reads and validates a project archive. The project gets a fresh id so it never overwrites a local one. */
+export const importProjectFile = async (file: File): Promise<ProjectRecord> => {
+  let files: Map<string, Uint8Array>;
+  try {
+    files = await readZip(file);
+  } catch (error) {
+    throw new ProjectFileError(error instanceof Error ? error.message : 'could not read the archive.');
+  }
+
+  const manifestBytes = files.get(MANIFEST_PATH);
+  if (!manifestBytes) throw new ProjectFileError(`${MANIFEST_PATH} is missing.`);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch {
+    throw new ProjectFileError(`${MANIFEST_PATH} is not valid JSON.`);
+  }
+  const manifest = validateManifest(raw, files);
+
+  const blobAt = (path: string, type = 'image/png') => new Blob([files.get(path)!], { type });
+  const toSavedLayers = (layers: ManifestLayer[] | null): SavedMaskLayer[] | undefined =>
+    layers?.map(l => ({ ...l, mask: l.mask ? blobAt(l.mask) : null }));
+  const original = new File([files.get(manifest.original.path)!], manifest.original.name, { type: manifest.original.mimeType });
+
+  const versions: EditVersion[] = manifest.versions.map(v => ({
+    id: v.id,
+    parentId: v.parentId,
+    image: v.parentId ? blobAt(v.image) : original,
+    mask: v.mask ? blobAt(v.mask) : null,
+    prompt: v.prompt,
+    negativePrompt: v.negativePrompt,
+    style: v.style,
+    model: v.model ?? undefined,
+    layers: toSavedLayers(v.layers),
+    createdAt: v.createdAt,
+  }));
+
+  const candidates: EditCandidate[] = [];
+  for (const r of manifest.results) {
+    candidates.push({
+      id: r.id,
+      editedImage: await blobToDataUrl(blobAt(r.image)),
+      fullResImage: blobAt(r.fullResImage),
+      rawImage: r.rawImage ? blobAt(r.rawImage) : undefined,
+      mask: r.mask ? blobAt(r.mask) : undefined,
+      model: r.model ?? undefined,
+      createdAt: r.createdAt ?? undefined,
+      upscaled: r.upscaled
+        ? { image: blobAt(r.upscaled.image), factor: r.upscaled.factor, method: r.upscaled.method ?? undefined }
+        : undefined,
+      layerIds: r.layerIds ?? undefined,
+    });
+  }
+
+  const lastEdit: PendingEdit | undefined = manifest.lastEdit
+    ? {
+        mask: blobAt(manifest.lastEdit.mask),
+        settings: { prompt: manifest.lastEdit.prompt, negativePrompt: manifest.lastEdit.negativePrompt, style: manifest.lastEdit.style },
+        model: manifest.lastEdit.model ?? undefined,
+        layers: toSavedLayers(manifest.lastEdit.layers)!,
+      }
+    : undefined;
+
+  return {
+    id: crypto.randomUUID(),
+    name: manifest.name,
+    createdAt: manifest.createdAt,
+    updatedAt: Date.now(),
+    original,
+    versions,
+    activeVersionId: manifest.activeVersionId,
+    mask: manifest.workingMask ? blobAt(manifest.workingMask) : null,
+    layers: toSavedLayers(manifest.layers),
+    activeLayerId: manifest.activeLayerId ?? undefined,
+    settings: manifest.settings,
+    candidates,
+    lastEdit,
+    thumbnail: null,
+  };
+};
@@ -0,0 +1,120 @@
+import { ImageEditProvider, ProviderConfig, ProviderKind } from './providers/ImageEditProvider';
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from './providers/geminiProvider';
+import { createMockProvider, MOCK_MODEL } from './providers/mockProvider';
+import { createHttpProvider, DEFAULT_HTTP_MODEL } from './providers/httpProvider';
+import { ApiKeySource, resolveApiKey, storeApiKey, clearStoredApiKey } from './apiKeyStore';
+
+const STORAGE_KEY = 'ai-image-editor.provider';
+
+export const DEFAULT_MODELS: Record<ProviderKind, string> = {
+  gemini: DEFAULT_GEMINI_MODEL,
+  mock: MOCK_MODEL,
+  http: DEFAULT_HTTP_MODEL,
+};
+
+export interface ProviderState {
+  config: ProviderConfig;
+  // Where the Gemini key came from, or null when there is none.
+  apiKeySource: ApiKeySource | null;
+  // Whether the selected provider has what it needs to make calls.
+  isConfigured: boolean;
+}
+
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = { kind: 'gemini', model: DEFAULT_GEMINI_MODEL };
+
+const loadConfig = (): ProviderConfig => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as ProviderConfig;
+      if (parsed.kind in DEFAULT_MODELS && typeof parsed.model === 'string') {
+        return parsed;
+      }
+    }
+  } catch {
+    // Fall through to the default when storage is unavailable or corrupt.
+  }
+  return DEFAULT_PROVIDER_CONFIG;
+};
+
+const isConfigured = (config: ProviderConfig, apiKeySource: ApiKeySource | null): boolean => {
+  switch (config.kind) {
+    case 'mock':
+      return true;
+    case 'http':
+      return Boolean(config.endpoint);
+    case 'gemini':
+      return apiKeySource !== null;
+  }
+};
+
+const buildState = (config: ProviderConfig): ProviderState => {
+  const apiKeySource = resolveApiKey()?.source ?? null;
+  return { config, apiKeySource, isConfigured: isConfigured(config, apiKeySource) };
+};
+
+// Immutable snapshot, replaced on every change so React can subscribe to it.
+let state: ProviderState = buildState(loadConfig());
+let provider: ImageEditProvider | null = null;
+const listeners = new Set<() => void>();
+
+const update = (config: ProviderConfig) => {
+  state = buildState(config);
+  provider = null;
+  listeners.forEach(listener => listener());
+};
+
+const createProvider = ({ kind, model, endpoint }: ProviderConfig): ImageEditProvider => {
+  switch (kind) {
+    case 'mock':
+      return createMockProvider();
+    case 'http':
+      if (!endpoint) {
+        throw new Error("No endpoint configured for the self-hosted provider.");
+      }
+      return createHttpProvider(endpoint, model);
+    case 'gemini': {
+      const apiKey = resolveApiKey();
+      if (!apiKey) {
+        throw new Error("No Gemini API key configured. Add one in Settings.");
+      }
+      return createGeminiProvider(apiKey.key, model);
+    }
+  }
+};
+
+export const getProviderState = (): ProviderState => state;
+
+export const getProviderConfig = (): ProviderConfig => state.config;
+
+export const setProviderConfig = (next: ProviderConfig) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // Persisting is best-effort; the selection still applies for this session.
+  }
+  update(next);
+};
+
+export const setApiKey = (key: string, remember: boolean) => {
+  storeApiKey(key, remember);
+  update(state.config);
+};
+
+export const forgetApiKey = () => {
+  clearStoredApiKey();
+  update(state.config);
+};
+
+export const subscribeToProviderConfig = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+/** The provider for the current configuration, created on first use. */
+export const getProvider = (): ImageEditProvider => {
+  if (!provider) {
+    provider = createProvider(state.config);
+  }
+  return provider;
+};
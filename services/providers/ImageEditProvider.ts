@@ -0,0 +1,56 @@
+export type ProviderKind = 'gemini' | 'mock' | 'http';
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  model: string;
+  // Base URL of the self-hosted endpoint; only used by the HTTP provider.
+  endpoint?: string;
+}
+
+export interface InpaintRequest {
+  prompt: string;
+  negativePrompt: string;
+  style: string;
+  imageBase64: string;
+  mimeType: string;
+  maskBase64: string;
+}
+
+/** A point the user marked on the image, in 0-1 fractions of its width and height. */
+export interface SelectionPoint {
+  x: number;
+  y: number;
+  // Whether the point is inside the wanted selection (true) or outside it.
+  include: boolean;
+}
+
+export interface SelectRequest {
+  imageBase64: string;
+  mimeType: string;
+  // What to select, e.g. "the shirt" or "all cars"; may be empty when points are given.
+  description: string;
+  points: SelectionPoint[];
+}
+
+export interface ProviderCallOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * A backend that can perform the editor's image operations. All images
+ * cross this boundary as raw base64 (no data URL prefix); returned images are PNG.
+ * Failures are thrown as `ImageServiceError` subclasses from `services/errors`.
+ */
+export interface ImageEditProvider {
+  readonly kind: ProviderKind;
+  readonly model: string;
+  /** Returns every image the backend produced for the request (at least one). */
+  inpaint(request: InpaintRequest, options?: ProviderCallOptions): Promise<string[]>;
+  /** Like `inpaint`, but the white area is new canvas around the original to be filled by continuing the scene. */
+  outpaint(request: InpaintRequest, options?: ProviderCallOptions): Promise<string[]>;
+  /** Returns a mask with the background white and the subject black. */
+  segment(imageBase64: string, mimeType: string, options?: ProviderCallOptions): Promise<string>;
+  /** Returns a mask with whatever the request describes white and everything else black. */
+  select(request: SelectRequest, options?: ProviderCallOptions): Promise<string>;
+  upscale(imageBase64: string, factor: number, options?: ProviderCallOptions): Promise<string>;
+}
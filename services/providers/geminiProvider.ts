@@ -0,0 +1,204 @@
+import { ApiError, GoogleGenAI, Modality } from "@google/genai";
+import type { GenerateContentResponse } from "@google/genai";
+import { ImageEditProvider, InpaintRequest, ProviderCallOptions, SelectionPoint, SelectRequest } from './ImageEditProvider';
+import { EmptyResponseError, ImageServiceError, InvalidApiKeyError, SafetyBlockError, errorFromStatus, toImageServiceError } from '../errors';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash-image'; // aka Nano Banana
+
+const SAFETY_FINISH_REASONS = new Set([
+  'SAFETY',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII',
+  'IMAGE_SAFETY',
+  'IMAGE_PROHIBITED_CONTENT',
+]);
+
+/**
+ * Collects every inline image from every candidate. Throws a typed error when
+ * the prompt or all candidates were blocked, or when nothing came back.
+ */
+const extractImages = (response: GenerateContentResponse, what: string): string[] => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockError(blockReason);
+  }
+
+  const candidates = response.candidates ?? [];
+  const images: string[] = [];
+  for (const candidate of candidates) {
+    for (const part of candidate.content?.parts ?? []) {
+      if (part.inlineData?.data) {
+        images.push(part.inlineData.data);
+      }
+    }
+  }
+
+  if (images.length === 0) {
+    const blocked = candidates.find(c => c.finishReason && SAFETY_FINISH_REASONS.has(c.finishReason));
+    if (blocked) {
+      throw new SafetyBlockError(blocked.finishReason);
+    }
+    throw new EmptyResponseError(what);
+  }
+  return images;
+};
+
+const toGeminiError = (error: unknown): ImageServiceError => {
+  if (error instanceof ApiError) {
+    // Gemini reports a bad key as a 400 rather than a 401.
+    if (error.status === 400 && /api key/i.test(error.message)) {
+      return new InvalidApiKeyError(error);
+    }
+    return errorFromStatus(error.status, error.message, error);
+  }
+  return toImageServiceError(error);
+};
+
+/** Throws if the key is rejected or cannot see the model. */
+export const validateGeminiKey = async (apiKey: string, model = DEFAULT_GEMINI_MODEL): Promise<void> => {
+  const ai = new GoogleGenAI({ apiKey });
+  try {
+    await ai.models.get({ model });
+  } catch (error) {
+    console.error("Error validating Gemini API key:", error);
+    throw toGeminiError(error);
+  }
+};
+
+export const createGeminiProvider = (apiKey: string, model = DEFAULT_GEMINI_MODEL): ImageEditProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const generateImages = async (
+    text: string,
+    images: { data: string, mimeType: string }[],
+    what: string,
+    { signal }: ProviderCallOptions = {}
+  ): Promise<string[]> => {
+    try {
+      const response: GenerateContentResponse = await ai.models.generateContent({
+        model,
+        contents: {
+          parts: [
+            { text },
+            ...images.map(image => ({ inlineData: image })),
+          ],
+        },
+        config: {
+          responseModalities: [Modality.IMAGE],
+          abortSignal: signal,
+        },
+      });
+      return extractImages(response, what);
+    } catch (error) {
+      console.error(`Error requesting ${what} from Gemini API:`, error);
+      throw toGeminiError(error);
+    }
+  };
+
+  const inpaint = async ({ prompt, negativePrompt, style, imageBase64, mimeType, maskBase64 }: InpaintRequest, options?: ProviderCallOptions): Promise<string[]> => {
+    let augmentedPrompt = `
+      You are an expert image editor.
+      Using the provided mask (second image), edit the original image (first image) based on the following instruction.
+      Only modify the areas that are white in the mask. The black areas of the mask must remain untouched in the original image.
+      Grey areas are the soft edge of the mask; blend the edit smoothly into the original there.
+      Instruction: "${prompt}"
+    `;
+
+    if (style !== 'Default') {
+        augmentedPrompt += ` in a ${style.toLowerCase()} style.`;
+    }
+
+    if (negativePrompt.trim()) {
+        augmentedPrompt += `\nAvoid the following elements and styles: ${negativePrompt}.`;
+    }
+
+    return generateImages(augmentedPrompt, [
+      { data: imageBase64, mimeType },
+      { data: maskBase64, mimeType: 'image/png' },
+    ], 'edited image', options);
+  };
+
+  const outpaint = async ({ prompt, negativePrompt, style, imageBase64, mimeType, maskBase64 }: InpaintRequest, options?: ProviderCallOptions): Promise<string[]> => {
+    let augmentedPrompt = `
+      You are an expert image editor.
+      The original image (first image) has been placed on a larger canvas. The white areas of the mask (second image) are new canvas around it that must be filled.
+      Extend the scene into the white areas so it continues seamlessly from the existing content, matching its perspective, lighting, colours and grain.
+      The black areas of the mask must remain untouched. Keep the exact dimensions and aspect ratio of the first image.
+      What the new areas should show: "${prompt}"
+    `;
+
+    if (style !== 'Default') {
+        augmentedPrompt += ` in a ${style.toLowerCase()} style.`;
+    }
+
+    if (negativePrompt.trim()) {
+        augmentedPrompt += `\nAvoid the following elements and styles: ${negativePrompt}.`;
+    }
+
+    return generateImages(augmentedPrompt, [
+      { data: imageBase64, mimeType },
+      { data: maskBase64, mimeType: 'image/png' },
+    ], 'extended image', options);
+  };
+
+  const segment = async (imageBase64: string, mimeType: string, options?: ProviderCallOptions): Promise<string> => {
+    const prompt = `
+      You are an expert in image segmentation.
+      Analyze the provided image and identify the main subject(s).
+      Your task is to create a binary mask image.
+      In the mask, the background should be pure white (#FFFFFF) and the main subject(s) should be pure black (#000000).
+      Do not include any shades of gray or other colors. The output must be a clean, black and white mask.
+      The mask must have the exact same dimensions as the original image.
+    `;
+
+    const [mask] = await generateImages(prompt, [{ data: imageBase64, mimeType }], 'mask', options);
+    return mask;
+  };
+
+  const select = async ({ imageBase64, mimeType, description, points }: SelectRequest, options?: ProviderCallOptions): Promise<string> => {
+    const describe = (marked: SelectionPoint[]) =>
+      marked.map(p => `(${Math.round(p.x * 100)}%, ${Math.round(p.y * 100)}%)`).join(', ');
+    const included = points.filter(p => p.include);
+    const excluded = points.filter(p => !p.include);
+
+    let prompt = `
+      You are an expert in image segmentation.
+      Create a mask of the provided image that selects ${description.trim() ? `the following: "${description.trim()}"` : 'the object(s) at the marked points'}.
+      If several things match, select all of them.
+      In the mask, the selected areas must be pure white (#FFFFFF) and everything else pure black (#000000).
+    `;
+    if (points.length > 0) {
+      prompt += `\nPoint positions are given as (x, y) percentages of the image width and height from the top-left corner.`;
+    }
+    if (included.length > 0) {
+      prompt += `\nThese points are part of the selection; include the whole object each one lies on: ${describe(included)}.`;
+    }
+    if (excluded.length > 0) {
+      prompt += `\nThese points must not be selected, nor the objects they lie on: ${describe(excluded)}.`;
+    }
+    prompt += `
+      Do not include any shades of gray or other colors. The output must be a clean, black and white mask.
+      The mask must have the exact same dimensions as the original image.
+    `;
+
+    const [mask] = await generateImages(prompt, [{ data: imageBase64, mimeType }], 'mask', options);
+    return mask;
+  };
+
+  const upscale = async (imageBase64: string, factor: number, options?: ProviderCallOptions): Promise<string> => {
+    const prompt = `
+      You are an expert in image processing.
+      Upscale the following image to ${factor}x its original resolution.
+      It is crucial that you enhance the details and clarity without adding, removing, or changing any content or subjects in the image.
+      Preserve the original art style, colors, and composition perfectly.
+      The output image must be a high-quality, upscaled version of the input.
+    `;
+
+    // The edited image is a PNG data URL
+    const [upscaled] = await generateImages(prompt, [{ data: imageBase64, mimeType: 'image/png' }], 'upscaled image', options);
+    return upscaled;
+  };
+
+  return { kind: 'gemini', model, inpaint, outpaint, segment, select, upscale };
+};
@@ -0,0 +1,95 @@
+import { ImageEditProvider, InpaintRequest, ProviderCallOptions } from './ImageEditProvider';
+import { EmptyResponseError, ImageServiceError, errorFromStatus, toImageServiceError } from '../errors';
+
+export const DEFAULT_HTTP_MODEL = 'sd-inpainting';
+
+interface Img2ImgResponse {
+  images?: string[];
+}
+
+interface ExtraImageResponse {
+  image?: string;
+}
+
+const stripDataUrl = (value: string): string => value.includes(',') ? value.split(',')[1] : value;
+
+/**
+ * Adapter for a self-hosted Stable Diffusion server exposing the
+ * AUTOMATIC1111-style `/sdapi/v1` routes. Segmentation is not part of that
+ * API, so auto-masking and selecting by description are unavailable with this
+ * provider.
+ */
+export const createHttpProvider = (endpoint: string, model = DEFAULT_HTTP_MODEL): ImageEditProvider => {
+  const baseUrl = endpoint.replace(/\/+$/, '');
+
+  const post = async <T,>(path: string, body: unknown, { signal }: ProviderCallOptions = {}): Promise<T> => {
+    try {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+      });
+      if (!response.ok) {
+        throw errorFromStatus(response.status, response.statusText);
+      }
+      return await response.json() as T;
+    } catch (error) {
+      console.error(`Error calling ${path} on HTTP provider:`, error);
+      throw toImageServiceError(error);
+    }
+  };
+
+  const img2img = async (
+    { prompt, negativePrompt, style, imageBase64, maskBase64 }: InpaintRequest,
+    fill: { inpaintingFill: number, denoisingStrength: number },
+    options?: ProviderCallOptions
+  ): Promise<string[]> => {
+    const result = await post<Img2ImgResponse>('/sdapi/v1/img2img', {
+      prompt: style !== 'Default' ? `${prompt}, ${style.toLowerCase()} style` : prompt,
+      negative_prompt: negativePrompt,
+      init_images: [imageBase64],
+      mask: maskBase64,
+      inpainting_fill: fill.inpaintingFill,
+      inpaint_full_res: false,
+      denoising_strength: fill.denoisingStrength,
+      override_settings: { sd_model_checkpoint: model },
+    }, options);
+    const images = (result.images ?? []).map(stripDataUrl);
+    if (images.length === 0) {
+      throw new EmptyResponseError('edited image');
+    }
+    return images;
+  };
+
+  const inpaint = (request: InpaintRequest, options?: ProviderCallOptions): Promise<string[]> =>
+    img2img(request, { inpaintingFill: 1, denoisingStrength: 0.75 }, options);
+
+  // The new area only holds smeared edge colours, so it starts from latent
+  // noise and is fully redrawn.
+  const outpaint = (request: InpaintRequest, options?: ProviderCallOptions): Promise<string[]> =>
+    img2img(request, { inpaintingFill: 2, denoisingStrength: 1 }, options);
+
+  const segment = async (): Promise<string> => {
+    throw new ImageServiceError('unknown', 'The self-hosted provider does not support segmentation. Paint the mask by hand or switch providers.');
+  };
+
+  const select = async (): Promise<string> => {
+    throw new ImageServiceError('unknown', 'The self-hosted provider does not support selecting by description. Paint the mask by hand or switch providers.');
+  };
+
+  const upscale = async (imageBase64: string, factor: number, options?: ProviderCallOptions): Promise<string> => {
+    const result = await post<ExtraImageResponse>('/sdapi/v1/extra-single-image', {
+      image: imageBase64,
+      resize_mode: 0,
+      upscaling_resize: factor,
+      upscaler_1: 'Lanczos',
+    }, options);
+    if (!result.image) {
+      throw new EmptyResponseError('upscaled image');
+    }
+    return stripDataUrl(result.image);
+  };
+
+  return { kind: 'http', model, inpaint, outpaint, segment, select, upscale };
+};
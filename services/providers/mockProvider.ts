@@ -0,0 +1,135 @@
+import { ImageEditProvider, InpaintRequest, SelectionPoint, SelectRequest } from './ImageEditProvider';
+import { createCanvas, get2dContext, loadImage } from '../../utils/imageUtils';
+import { canvasToBase64 } from '../../utils/maskUtils';
+import { magicWandSelect } from '../../utils/magicWand';
+
+export const MOCK_MODEL = 'local-canvas';
+
+// Small stable hash so the same prompt always produces the same tint.
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const decode = (base64: string, mimeType: string) => loadImage(`data:${mimeType};base64,${base64}`);
+
+const decodePixels = async (base64: string, mimeType: string): Promise<{ canvas: HTMLCanvasElement, imageData: ImageData }> => {
+  const image = await decode(base64, mimeType);
+  const canvas = createCanvas(image.naturalWidth, image.naturalHeight);
+  const ctx = get2dContext(canvas);
+  ctx.drawImage(image, 0, 0);
+  return { canvas, imageData: ctx.getImageData(0, 0, canvas.width, canvas.height) };
+};
+
+/** 255 wherever a pixel differs clearly from the average border colour, which is taken as the background. */
+const subjectMask = ({ data, width, height }: ImageData): Uint8ClampedArray => {
+  let r = 0, g = 0, b = 0, count = 0;
+  const sample = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    r += data[i]; g += data[i + 1]; b += data[i + 2]; count++;
+  };
+  for (let x = 0; x < width; x++) { sample(x, 0); sample(x, height - 1); }
+  for (let y = 0; y < height; y++) { sample(0, y); sample(width - 1, y); }
+  r /= count; g /= count; b /= count;
+
+  const threshold = 60;
+  const mask = new Uint8ClampedArray(width * height);
+  for (let p = 0; p < mask.length; p++) {
+    const i = p * 4;
+    const distance = Math.abs(data[i] - r) + Math.abs(data[i + 1] - g) + Math.abs(data[i + 2] - b);
+    mask[p] = distance < threshold ? 0 : 255;
+  }
+  return mask;
+};
+
+/** Paints `imageData` white where `isWhite` holds and black elsewhere, and encodes it. */
+const writeMask = (canvas: HTMLCanvasElement, imageData: ImageData, isWhite: (pixel: number) => boolean): string => {
+  const data = imageData.data;
+  for (let p = 0; p < data.length / 4; p++) {
+    const value = isWhite(p) ? 255 : 0;
+    data[p * 4] = value;
+    data[p * 4 + 1] = value;
+    data[p * 4 + 2] = value;
+    data[p * 4 + 3] = 255;
+  }
+  get2dContext(canvas).putImageData(imageData, 0, 0);
+  return canvasToBase64(canvas);
+};
+
+/**
+ * Offline provider that fakes every operation with plain canvas work. Output
+ * is deterministic for a given input, which makes it useful for development.
+ */
+export const createMockProvider = (): ImageEditProvider => {
+  const inpaint = async ({ prompt, style, imageBase64, mimeType, maskBase64 }: InpaintRequest): Promise<string[]> => {
+    const [image, mask] = await Promise.all([decode(imageBase64, mimeType), decode(maskBase64, 'image/png')]);
+    const { naturalWidth: width, naturalHeight: height } = image;
+
+    const canvas = createCanvas(width, height);
+    const ctx = get2dContext(canvas);
+    ctx.drawImage(image, 0, 0);
+    const imageData = ctx.getImageData(0, 0, width, height);
+
+    const maskCanvas = createCanvas(width, height);
+    const maskCtx = get2dContext(maskCanvas);
+    maskCtx.drawImage(mask, 0, 0, width, height);
+    const maskData = maskCtx.getImageData(0, 0, width, height).data;
+
+    const hue = hashString(`${prompt}|${style}`) % 360;
+    const tint = get2dContext(createCanvas(1, 1));
+    tint.fillStyle = `hsl(${hue}, 70%, 50%)`;
+    tint.fillRect(0, 0, 1, 1);
+    const [tr, tg, tb] = tint.getImageData(0, 0, 1, 1).data;
+
+    const data = imageData.data;
+    for (let i = 0; i < data.length; i += 4) {
+      if (maskData[i] > 127) {
+        data[i] = (data[i] + tr) / 2;
+        data[i + 1] = (data[i + 1] + tg) / 2;
+        data[i + 2] = (data[i + 2] + tb) / 2;
+      }
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return [canvasToBase64(canvas)];
+  };
+
+  const segment = async (imageBase64: string, mimeType: string): Promise<string> => {
+    const { canvas, imageData } = await decodePixels(imageBase64, mimeType);
+    const subject = subjectMask(imageData);
+    return writeMask(canvas, imageData, i => !subject[i]);
+  };
+
+  // Descriptions can't be understood offline, so include points grow regions of
+  // similar colour and, without any, the subject stands in for the description.
+  const select = async ({ imageBase64, mimeType, points }: SelectRequest): Promise<string> => {
+    const { canvas, imageData } = await decodePixels(imageBase64, mimeType);
+    const { width, height } = imageData;
+    const regionAt = (point: SelectionPoint) => magicWandSelect({
+      pixels: imageData.data,
+      width,
+      height,
+      x: point.x * width,
+      y: point.y * height,
+      options: { tolerance: 15, colorSpace: 'lab', contiguous: true },
+    });
+    const included = points.filter(p => p.include);
+    const selected = included.length > 0 ? new Uint8ClampedArray(width * height) : subjectMask(imageData);
+    included.forEach(point => regionAt(point).forEach((value, i) => { if (value) selected[i] = 255; }));
+    points.filter(p => !p.include).forEach(point => regionAt(point).forEach((value, i) => { if (value) selected[i] = 0; }));
+    return writeMask(canvas, imageData, i => selected[i] > 0);
+  };
+
+  const upscale = async (imageBase64: string, factor: number): Promise<string> => {
+    const image = await decode(imageBase64, 'image/png');
+    const canvas = createCanvas(image.naturalWidth * factor, image.naturalHeight * factor);
+    const ctx = get2dContext(canvas);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvasToBase64(canvas);
+  };
+
+  return { kind: 'mock', model: MOCK_MODEL, inpaint, outpaint: inpaint, segment, select, upscale };
+};
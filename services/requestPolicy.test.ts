@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The scheduler keeps its slots in module state, so each test gets fresh
+// modules, errors included so `instanceof` matches what the policy sees.
+const load = async () => {
+  vi.resetModules();
+  const [policy, scheduler, errors] = await Promise.all([import('./requestPolicy'), import('./requestScheduler'), import('./errors')]);
+  scheduler.setSchedulerLimits({ maxConcurrent: 1, requestsPerMinute: 1000 });
+  return { ...policy, ...scheduler, ...errors };
+};
+
+/** An operation that fails with each of `errors` in turn, then succeeds. */
+const failing = (...errors: Error[]) => vi.fn(async (_signal: AbortSignal) => {
+  const error = errors.shift();
+  if (error) throw error;
+  return 'done';
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries retryable failures until one succeeds', async () => {
+    const { withRetry, NetworkError } = await load();
+    const operation = failing(new NetworkError(), new NetworkError());
+    const result = withRetry(operation, undefined, { retries: 3, baseDelayMs: 100 });
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe('done');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry failures that are not retryable', async () => {
+    const { withRetry, SafetyBlockError } = await load();
+    const error = new SafetyBlockError();
+    const operation = failing(error);
+    const result = withRetry(operation, undefined, { retries: 3, baseDelayMs: 100 });
+    const settled = expect(result).rejects.toBe(error);
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const { withRetry, NetworkError } = await load();
+    const operation = failing(new NetworkError(), new NetworkError(), new NetworkError());
+    const result = withRetry(operation, undefined, { retries: 2, baseDelayMs: 100 });
+    const settled = expect(result).rejects.toBeInstanceOf(NetworkError);
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('times out each attempt and aborts its signal', async () => {
+    const { withRetry, TimeoutError } = await load();
+    let attemptSignal: AbortSignal | undefined;
+    const operation = vi.fn((signal: AbortSignal) => {
+      attemptSignal = signal;
+      return new Promise<string>(() => {});
+    });
+    const result = withRetry(operation, undefined, { timeoutMs: 5_000, retries: 3 });
+    const settled = expect(result).rejects.toBeInstanceOf(TimeoutError);
+    await vi.advanceTimersByTimeAsync(4_999);
+    expect(attemptSignal?.aborted).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await settled;
+    expect(attemptSignal?.aborted).toBe(true);
+    // A timeout isn't retried.
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting for the backoff when cancelled', async () => {
+    const { withRetry, CancelledError, NetworkError } = await load();
+    const controller = new AbortController();
+    const operation = failing(new NetworkError());
+    const result = withRetry(operation, controller.signal, { retries: 3, baseDelayMs: 10_000 });
+    const settled = expect(result).rejects.toBeInstanceOf(CancelledError);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(operation).toHaveBeenCalledTimes(1);
+    controller.abort();
+    await settled;
+    await vi.runAllTimersAsync();
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('releases its slot when an attempt fails', async () => {
+    const { withRetry, getSchedulerState, SafetyBlockError } = await load();
+    const result = withRetry(failing(new SafetyBlockError()));
+    await expect(result).rejects.toBeInstanceOf(SafetyBlockError);
+    expect(getSchedulerState().active).toBe(0);
+    // With one slot allowed, the next call only starts if the failed one gave it back.
+    await expect(withRetry(async () => 'next')).resolves.toBe('next');
+  });
+
+  it('reports every attempt', async () => {
+    const { withRetry, NetworkError } = await load();
+    const reports: { value?: string, error?: Error }[] = [];
+    const result = withRetry(failing(new NetworkError()), undefined, { baseDelayMs: 100 }, report => reports.push(report));
+    await vi.runAllTimersAsync();
+    await result;
+    expect(reports).toHaveLength(2);
+    expect(reports[0].error).toBeInstanceOf(NetworkError);
+    expect(reports[1].value).toBe('done');
+  });
+});
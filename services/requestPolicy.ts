@@ -0,0 +1,114 @@
+import { CancelledError, ImageServiceError, TimeoutError, toImageServiceError } from './errors';
+import { acquireSlot } from './requestScheduler';
+
+export interface RequestPolicy {
+  timeoutMs: number;
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/** What one attempt took and how it ended, for usage tracking. */
+export interface AttemptReport<T> {
+  durationMs: number;
+  value?: T;
+  error?: ImageServiceError;
+}
+
+export const DEFAULT_POLICY: RequestPolicy = {
+  timeoutMs: 120_000,
+  retries: 3,
+  baseDelayMs: 1_000,
+  maxDelayMs: 16_000,
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs one attempt with its own AbortController that fires on the caller's
+ * signal or when the timeout elapses, and reports which of the two it was.
+ */
+const runAttempt = async <T,>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  // Race against the abort so providers that ignore the signal still stop waiting.
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => {
+      reject(timedOut ? new TimeoutError(timeoutMs) : new CancelledError());
+    }, { once: true });
+  });
+
+  try {
+    return await Promise.race([operation(controller.signal), aborted]);
+  } catch (error) {
+    if (timedOut) throw new TimeoutError(timeoutMs);
+    if (signal?.aborted) throw new CancelledError();
+    throw toImageServiceError(error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * Calls `operation` with a per-attempt timeout, retrying retryable failures
+ * with exponential backoff and jitter. Each attempt waits for a slot from the
+ * request scheduler first; time spent queued doesn't count toward the timeout.
+ * Cancelling `signal` stops immediately, queued or not.
+ */
+export const withRetry = async <T,>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
+  policy: Partial<RequestPolicy> = {},
+  onAttempt?: (report: AttemptReport<T>) => void
+): Promise<T> => {
+  const { timeoutMs, retries, baseDelayMs, maxDelayMs } = { ...DEFAULT_POLICY, ...policy };
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new CancelledError();
+    const release = await acquireSlot(signal);
+    const startedAt = performance.now();
+    let serviceError: ImageServiceError;
+    try {
+      const value = await runAttempt(operation, timeoutMs, signal);
+      onAttempt?.({ durationMs: performance.now() - startedAt, value });
+      return value;
+    } catch (error) {
+      serviceError = toImageServiceError(error);
+      onAttempt?.({ durationMs: performance.now() - startedAt, error: serviceError });
+    } finally {
+      release();
+    }
+    if (!serviceError.retryable || attempt >= retries) {
+      throw serviceError;
+    }
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    await sleep(delay / 2 + Math.random() * delay / 2, signal);
+  }
+};
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Slots live in module state, so each test gets a fresh scheduler.
+const load = async (maxConcurrent: number, requestsPerMinute: number) => {
+  vi.resetModules();
+  const [scheduler, { CancelledError }] = await Promise.all([import('./requestScheduler'), import('./errors')]);
+  scheduler.setSchedulerLimits({ maxConcurrent, requestsPerMinute });
+  return { ...scheduler, CancelledError };
+};
+
+/** Tracks whether a promise has settled yet. */
+const track = <T,>(promise: Promise<T>) => {
+  const state = { settled: false, value: undefined as T | undefined };
+  promise.then(value => { state.settled = true; state.value = value; }, () => { state.settled = true; });
+  return state;
+};
+
+describe('acquireSlot', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('holds calls past the concurrency limit until a slot is released', async () => {
+    const { acquireSlot, getSchedulerState } = await load(2, 1000);
+    const first = track(acquireSlot());
+    const second = track(acquireSlot());
+    const third = track(acquireSlot());
+    await vi.advanceTimersByTimeAsync(0);
+    expect([first.settled, second.settled, third.settled]).toEqual([true, true, false]);
+    expect(getSchedulerState()).toMatchObject({ active: 2, waiting: 1 });
+
+    first.value!();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(third.settled).toBe(true);
+    expect(getSchedulerState()).toMatchObject({ active: 2, waiting: 0 });
+  });
+
+  it('counts a slot released twice only once', async () => {
+    const { acquireSlot, getSchedulerState } = await load(1, 1000);
+    const release = await acquireSlot();
+    release();
+    release();
+    expect(getSchedulerState().active).toBe(0);
+  });
+
+  it('starts no more calls per minute than the limit allows', async () => {
+    const { acquireSlot } = await load(5, 2);
+    const slots = [track(acquireSlot()), track(acquireSlot()), track(acquireSlot())];
+    await vi.advanceTimersByTimeAsync(0);
+    expect(slots.map(slot => slot.settled)).toEqual([true, true, false]);
+    // Releasing doesn't help: the window still holds two starts.
+    slots[0].value!();
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(slots[2].settled).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(slots[2].settled).toBe(true);
+  });
+
+  it('drops a cancelled call from the queue', async () => {
+    const { acquireSlot, getSchedulerState, CancelledError } = await load(1, 1000);
+    const release = await acquireSlot();
+    const controller = new AbortController();
+    const queued = acquireSlot(controller.signal);
+    const after = track(acquireSlot());
+    expect(getSchedulerState().waiting).toBe(2);
+
+    controller.abort();
+    await expect(queued).rejects.toBeInstanceOf(CancelledError);
+    expect(getSchedulerState().waiting).toBe(1);
+    // The freed slot goes to the next call in line, not the cancelled one.
+    release();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(after.settled).toBe(true);
+    expect(getSchedulerState()).toMatchObject({ active: 1, waiting: 0 });
+  });
+
+  it('rejects straight away when already cancelled', async () => {
+    const { acquireSlot, getSchedulerState, CancelledError } = await load(1, 1000);
+    const controller = new AbortController();
+    controller.abort();
+    await expect(acquireSlot(controller.signal)).rejects.toBeInstanceOf(CancelledError);
+    expect(getSchedulerState()).toMatchObject({ active: 0, waiting: 0 });
+  });
+});
@@ -0,0 +1,125 @@
+import { CancelledError } from './errors';
+
+/** How many provider calls may run at once, and start within any minute. */
+export interface SchedulerLimits {
+  maxConcurrent: number;
+  requestsPerMinute: number;
+}
+
+export interface SchedulerState {
+  limits: SchedulerLimits;
+  // Calls in flight, and calls waiting for a slot.
+  active: number;
+  waiting: number;
+}
+
+const STORAGE_KEY = 'ai-image-editor.scheduler';
+const WINDOW_MS = 60_000;
+
+export const DEFAULT_SCHEDULER_LIMITS: SchedulerLimits = { maxConcurrent: 2, requestsPerMinute: 10 };
+
+interface Waiter {
+  grant: () => void;
+  cancel: () => void;
+}
+
+const loadLimits = (): SchedulerLimits => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as SchedulerLimits;
+      if (parsed.maxConcurrent >= 1 && parsed.requestsPerMinute >= 1) {
+        return { maxConcurrent: parsed.maxConcurrent, requestsPerMinute: parsed.requestsPerMinute };
+      }
+    }
+  } catch {
+    // Fall through to the defaults when storage is unavailable or corrupt.
+  }
+  return DEFAULT_SCHEDULER_LIMITS;
+};
+
+let limits = loadLimits();
+let active = 0;
+// Start times of the calls in the current window, oldest first.
+const started: number[] = [];
+const queue: Waiter[] = [];
+let windowTimer: ReturnType<typeof setTimeout> | null = null;
+// Immutable snapshot, replaced on every change so React can subscribe to it.
+let state: SchedulerState = { limits, active, waiting: 0 };
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  state = { limits, active, waiting: queue.length };
+  listeners.forEach(listener => listener());
+};
+
+/** Hands out every slot the limits allow, then waits for the window to free up if that is what's holding the queue. */
+const pump = () => {
+  const now = Date.now();
+  while (started.length > 0 && started[0] <= now - WINDOW_MS) started.shift();
+  while (queue.length > 0 && active < limits.maxConcurrent && started.length < limits.requestsPerMinute) {
+    active++;
+    started.push(now);
+    queue.shift()!.grant();
+  }
+  if (queue.length > 0 && active < limits.maxConcurrent && !windowTimer) {
+    windowTimer = setTimeout(() => {
+      windowTimer = null;
+      pump();
+    }, started[0] + WINDOW_MS - now);
+  }
+  notify();
+};
+
+/**
+ * Waits until a provider call may start under the current limits, in the
+ * order calls asked. Resolves to a function that frees the slot again; it
+ * must be called once the call settles.
+ */
+export const acquireSlot = (signal?: AbortSignal): Promise<() => void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      active--;
+      pump();
+    };
+    const onAbort = () => waiter.cancel();
+    const waiter: Waiter = {
+      grant: () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(release);
+      },
+      cancel: () => {
+        const index = queue.indexOf(waiter);
+        if (index >= 0) queue.splice(index, 1);
+        notify();
+        reject(new CancelledError());
+      },
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    queue.push(waiter);
+    pump();
+  });
+
+export const getSchedulerState = (): SchedulerState => state;
+
+export const setSchedulerLimits = (next: SchedulerLimits) => {
+  limits = { maxConcurrent: Math.max(1, Math.round(next.maxConcurrent)), requestsPerMinute: Math.max(1, Math.round(next.requestsPerMinute)) };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(limits));
+  } catch {
+    // Persisting is best-effort; the limits still apply for this session.
+  }
+  pump();
+};
+
+export const subscribeToScheduler = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
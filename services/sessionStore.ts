@@ -0,0 +1,116 @@
+import { EditCandidate, ProjectRecord, ProjectSummary } from '../types';
+import { dataUrlToBlob } from '../utils/imageUtils';
+
+const DB_NAME = 'ai-image-editor';
+const DB_VERSION = 2;
+const PROJECT_STORE = 'projects';
+// Summary fields of every project, so the recent list never loads images.
+const SUMMARY_STORE = 'summaries';
+const LAST_PROJECT_KEY = 'ai-image-editor.last-project';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const toSummary = ({ id, name, createdAt, updatedAt, thumbnail }: ProjectRecord): ProjectSummary =>
+  ({ id, name, createdAt, updatedAt, thumbnail });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+          const store = db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+          const summaries = db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+          // Sessions saved before summaries existed get one each, one record at a time.
+          const cursorRequest = request.transaction!.objectStore(PROJECT_STORE).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            summaries.put(toSummary(cursor.value as ProjectRecord));
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Failed to open the session database.'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T,>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  action: (transaction: IDBTransaction) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    const request = action(transaction);
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? new Error('Session database request failed.'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('Session database request was aborted.'));
+  });
+};
+
+export const saveProject = async (project: ProjectRecord): Promise<void> => {
+  await runRequest([PROJECT_STORE, SUMMARY_STORE], 'readwrite', transaction => {
+    transaction.objectStore(SUMMARY_STORE).put(toSummary(project));
+    return transaction.objectStore(PROJECT_STORE).put(project);
+  });
+  try {
+    localStorage.setItem(LAST_PROJECT_KEY, project.id);
+  } catch {
+    // Without localStorage the recent list still offers the project.
+  }
+};
+
+// Sessions saved before full-size results were kept as blobs hold data URLs.
+const toBlob = (image: Blob | string): Promise<Blob> =>
+  typeof image === 'string' ? dataUrlToBlob(image) : Promise.resolve(image);
+
+const withBlobResults = async (candidate: EditCandidate): Promise<EditCandidate> => ({
+  ...candidate,
+  fullResImage: await toBlob(candidate.fullResImage),
+  upscaled: candidate.upscaled && { ...candidate.upscaled, image: await toBlob(candidate.upscaled.image) },
+});
+
+export const loadProject = async (id: string): Promise<ProjectRecord | undefined> => {
+  const project = await runRequest([PROJECT_STORE], 'readonly', transaction => transaction.objectStore(PROJECT_STORE).get(id) as IDBRequest<ProjectRecord | undefined>);
+  return project && { ...project, candidates: await Promise.all(project.candidates.map(withBlobResults)) };
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await runRequest([PROJECT_STORE, SUMMARY_STORE], 'readwrite', transaction => {
+    transaction.objectStore(SUMMARY_STORE).delete(id);
+    return transaction.objectStore(PROJECT_STORE).delete(id);
+  });
+  if (getLastProjectId() === id) {
+    try {
+      localStorage.removeItem(LAST_PROJECT_KEY);
+    } catch {
+      // Nothing to clear when localStorage is unavailable.
+    }
+  }
+};
+
+/** Most recently updated first, read from the summary store. */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await runRequest([SUMMARY_STORE], 'readonly', transaction => transaction.objectStore(SUMMARY_STORE).getAll() as IDBRequest<ProjectSummary[]>);
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getLastProjectId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_PROJECT_KEY);
+  } catch {
+    return null;
+  }
+};
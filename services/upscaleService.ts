@@ -0,0 +1,75 @@
+import { upscaleImage } from './geminiService';
+import { UpscaleMethod } from '../types';
+import { canvasToBlob, createCanvas, dataUrlToBlob, get2dContext, getSourceSize, loadImage } from '../utils/imageUtils';
+import { canvasToBase64 } from '../utils/maskUtils';
+import { MAX_UPSCALE_DIMENSION, MAX_UPSCALE_PIXELS, upscaledSize } from '../utils/upscale';
+
+// Unsharp-mask strength for local upscales, 0-100, unless the user picks another.
+export const DEFAULT_UPSCALE_SHARPEN = 30;
+
+/** The local upscaler from `useUpscaler`, which needs a component for its worker. */
+export type LocalUpscaler = (
+  source: HTMLImageElement | HTMLCanvasElement,
+  factor: number,
+  sharpen: number,
+  signal?: AbortSignal,
+  onProgress?: (fraction: number) => void
+) => Promise<HTMLCanvasElement>;
+
+interface UpscaleOptions {
+  factor: number;
+  method: UpscaleMethod;
+  // Unsharp-mask strength for local upscales, 0-100.
+  sharpen: number;
+  upscaleLocally: LocalUpscaler;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+export interface Upscaled {
+  image: Blob;
+  // The factor that actually came back, to two decimals.
+  factor: number;
+  // Set when the image isn't the size the factor asked for.
+  notice: string | null;
+}
+
+const toPngBase64 = (source: HTMLImageElement | HTMLCanvasElement): string => {
+  if (source instanceof HTMLCanvasElement) return canvasToBase64(source);
+  const canvas = createCanvas(source.naturalWidth, source.naturalHeight);
+  get2dContext(canvas).drawImage(source, 0, 0);
+  return canvasToBase64(canvas);
+};
+
+/**
+ * Upscales `source` on the device with Lanczos resampling or by the
+ * provider, and checks the result against the size the factor asked for.
+ */
+export const upscaleSource = async (
+  source: HTMLImageElement | HTMLCanvasElement,
+  { factor, method, sharpen, upscaleLocally, signal, onProgress }: UpscaleOptions
+): Promise<Upscaled> => {
+  const { width: sourceWidth, height: sourceHeight } = getSourceSize(source);
+  const target = upscaledSize(sourceWidth, sourceHeight, factor);
+  let upscaled: { image: Blob, width: number, height: number };
+  if (method === 'local') {
+    if (Math.max(target.width, target.height) > MAX_UPSCALE_DIMENSION || target.width * target.height > MAX_UPSCALE_PIXELS) {
+      throw new Error(`A ${factor}x upscale would be ${target.width}×${target.height}px, more than the browser can hold. Try a smaller factor.`);
+    }
+    onProgress?.(0);
+    const canvas = await upscaleLocally(source, factor, sharpen / 100, signal, onProgress);
+    upscaled = { image: await canvasToBlob(canvas), width: canvas.width, height: canvas.height };
+  } else {
+    const resultBase64 = await upscaleImage(toPngBase64(source), factor, signal);
+    const dataUrl = `data:image/png;base64,${resultBase64}`;
+    const result = await loadImage(dataUrl);
+    upscaled = { image: await dataUrlToBlob(dataUrl), width: result.naturalWidth, height: result.naturalHeight };
+  }
+
+  // Generative models treat the factor as a suggestion, so report what actually came back.
+  const actualFactor = Math.round(upscaled.width / sourceWidth * 100) / 100;
+  const notice = Math.abs(upscaled.width - target.width) > 1 || Math.abs(upscaled.height - target.height) > 1
+    ? `The upscaled image is ${upscaled.width}×${upscaled.height}px (${actualFactor}x), not the ${target.width}×${target.height}px a ${factor}x upscale should give.`
+    : null;
+  return { image: upscaled.image, factor: actualFactor, notice };
+};
@@ -0,0 +1,188 @@
+import { ProviderKind } from './providers/ImageEditProvider';
+import { ImageServiceErrorCode } from './errors';
+import { getProviderConfig } from './providerRegistry';
+
+export type UsageOperation = 'inpaint' | 'outpaint' | 'segment' | 'select' | 'upscale';
+
+export type UsageOutcome = 'success' | 'error' | 'cancelled' | 'timeout';
+
+/** One provider call attempt; retries are separate entries. */
+export interface UsageEntry {
+  id: string;
+  timestamp: number;
+  operation: UsageOperation;
+  provider: ProviderKind;
+  model: string;
+  // Decoded sizes of the images sent and received.
+  inputBytes: number;
+  outputBytes: number;
+  outputImages: number;
+  durationMs: number;
+  outcome: UsageOutcome;
+  errorCode?: ImageServiceErrorCode;
+}
+
+export interface UsageTotals {
+  requests: number;
+  failures: number;
+  outputImages: number;
+  inputBytes: number;
+  outputBytes: number;
+  durationMs: number;
+  estimatedCost: number;
+}
+
+/** A soft daily limit: going over it only asks for confirmation. */
+export interface UsageBudget {
+  // Estimated spend per day before submitting warns, or null for no limit.
+  dailyLimit: number | null;
+  // Estimated price of one image (edit, mask or upscale) from a billed provider, in the same currency.
+  costPerImage: number;
+}
+
+export interface UsageState {
+  entries: UsageEntry[];
+  budget: UsageBudget;
+  session: UsageTotals;
+  today: UsageTotals;
+  // Local midnight that `today` counts from.
+  dayStart: number;
+}
+
+const LEDGER_KEY = 'ai-image-editor.usage';
+const BUDGET_KEY = 'ai-image-editor.usage-budget';
+// Oldest entries are dropped past this, which still covers weeks of normal use.
+const MAX_ENTRIES = 2000;
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = { dailyLimit: null, costPerImage: 0.04 };
+
+const sessionStart = Date.now();
+
+// Only the hosted API charges per image; the mock and a self-hosted server cost nothing.
+const BILLED_PROVIDERS: ProviderKind[] = ['gemini'];
+
+export const isBilledProvider = (kind: ProviderKind): boolean => BILLED_PROVIDERS.includes(kind);
+
+const loadEntries = (): UsageEntry[] => {
+  try {
+    const stored = localStorage.getItem(LEDGER_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) return parsed as UsageEntry[];
+    }
+  } catch {
+    // Start an empty ledger when storage is unavailable or corrupt.
+  }
+  return [];
+};
+
+const loadBudget = (): UsageBudget => {
+  try {
+    const stored = localStorage.getItem(BUDGET_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as UsageBudget;
+      if (typeof parsed.costPerImage === 'number') {
+        return { dailyLimit: typeof parsed.dailyLimit === 'number' ? parsed.dailyLimit : null, costPerImage: parsed.costPerImage };
+      }
+    }
+  } catch {
+    // Fall through to the default when storage is unavailable or corrupt.
+  }
+  return DEFAULT_USAGE_BUDGET;
+};
+
+const startOfToday = (): number => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+};
+
+const totalsSince = (entries: UsageEntry[], since: number, costPerImage: number): UsageTotals => {
+  const totals: UsageTotals = { requests: 0, failures: 0, outputImages: 0, inputBytes: 0, outputBytes: 0, durationMs: 0, estimatedCost: 0 };
+  let billedImages = 0;
+  for (const entry of entries) {
+    if (entry.timestamp < since) continue;
+    totals.requests++;
+    if (entry.outcome !== 'success') totals.failures++;
+    totals.outputImages += entry.outputImages;
+    totals.inputBytes += entry.inputBytes;
+    totals.outputBytes += entry.outputBytes;
+    totals.durationMs += entry.durationMs;
+    if (isBilledProvider(entry.provider)) billedImages += entry.outputImages;
+  }
+  totals.estimatedCost = billedImages * costPerImage;
+  return totals;
+};
+
+const buildState = (entries: UsageEntry[], budget: UsageBudget): UsageState => {
+  const dayStart = startOfToday();
+  return {
+    entries,
+    budget,
+    session: totalsSince(entries, sessionStart, budget.costPerImage),
+    today: totalsSince(entries, dayStart, budget.costPerImage),
+    dayStart,
+  };
+};
+
+// Immutable snapshot, replaced on every change so React can subscribe to it.
+let state: UsageState = buildState(loadEntries(), loadBudget());
+const listeners = new Set<() => void>();
+
+const persist = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Persisting is best-effort; the ledger still covers this session.
+  }
+};
+
+const update = (entries: UsageEntry[], budget: UsageBudget) => {
+  state = buildState(entries, budget);
+  listeners.forEach(listener => listener());
+};
+
+/** Size in bytes of the data a base64 string encodes. */
+export const base64Size = (base64: string): number =>
+  Math.floor(base64.length * 3 / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+
+export const recordUsage = (entry: Omit<UsageEntry, 'id' | 'timestamp'>) => {
+  const entries = [...state.entries, { ...entry, id: crypto.randomUUID(), timestamp: Date.now() }].slice(-MAX_ENTRIES);
+  persist(LEDGER_KEY, entries);
+  update(entries, state.budget);
+};
+
+export const clearUsage = () => {
+  persist(LEDGER_KEY, []);
+  update([], state.budget);
+};
+
+export const setUsageBudget = (budget: UsageBudget) => {
+  persist(BUDGET_KEY, budget);
+  update(state.entries, budget);
+};
+
+/**
+ * A warning to confirm before requesting `plannedImages` more images from the
+ * current provider, or null when today's estimated spend stays within the
+ * budget or the provider doesn't charge.
+ */
+export const budgetWarning = (plannedImages: number): string | null => {
+  const { budget, today } = getUsageState();
+  if (budget.dailyLimit === null || !isBilledProvider(getProviderConfig().kind)) return null;
+  const projected = today.estimatedCost + plannedImages * budget.costPerImage;
+  if (projected <= budget.dailyLimit) return null;
+  return `This will bring today's estimated spend to ${projected.toFixed(2)}, over your daily budget of ${budget.dailyLimit.toFixed(2)}. Continue anyway?`;
+};
+
+export const getUsageState = (): UsageState => {
+  // Start the daily totals afresh once the day rolls over.
+  if (state.dayStart !== startOfToday()) {
+    state = buildState(state.entries, state.budget);
+  }
+  return state;
+};
+
+export const subscribeToUsage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
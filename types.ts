@@ -3,3 +3,168 @@ export interface Point {
   x: number;
   y: number;
 }
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Longest-side cap for the image/mask pair sent to the model, or the source's own size. */
+export type WorkingResolution = 512 | 1024 | 2048 | 'original';
+
+/**
+ * Describes how a prepared request image relates to the original upload:
+ * `region` is the area of the original (in original pixels) that was sent,
+ * and `scale` is request pixels per original pixel.
+ */
+export interface RequestMapping {
+  region: Rect;
+  scale: number;
+}
+
+/** A named region of the mask with its own overlay colour and prompt. */
+export interface MaskLayer {
+  id: string;
+  name: string;
+  // Overlay colour as #rrggbb.
+  color: string;
+  visible: boolean;
+  prompt: string;
+}
+
+/** A mask layer together with its painted overlay, for saving. */
+export interface SavedMaskLayer extends MaskLayer {
+  mask: Blob | null;
+  // True when the overlay's alpha is the mask strength. Older saves used
+  // alpha only for display, and every painted pixel counted in full.
+  soft?: boolean;
+}
+
+export interface EditSettings {
+  prompt: string;
+  negativePrompt: string;
+  style: string;
+}
+
+/**
+ * One node in the edit chain. The original upload is the root; every other
+ * version records the settings and mask of the edit that produced it from
+ * its parent.
+ */
+export interface EditVersion extends EditSettings {
+  id: string;
+  parentId: string | null;
+  image: Blob;
+  mask: Blob | null;
+  // Model that produced this version; absent for the original upload.
+  model?: string;
+  // Layers applied, in order, with the prompt and mask each one used.
+  layers?: SavedMaskLayer[];
+  createdAt: number;
+}
+
+/** `ai` asks the provider to upscale; `local` resamples in the browser. */
+export type UpscaleMethod = 'ai' | 'local';
+
+/**
+ * One generated variation, composited at working and full resolution. The
+ * working-size copy is a data URL, since it is what the provider is sent;
+ * full-size images stay as PNG blobs.
+ */
+export interface EditCandidate {
+  id: string;
+  editedImage: string;
+  fullResImage: Blob;
+  // The provider's output before it was masked into the image, at full
+  // resolution, and the mask it was composited with. Absent for results
+  // that had no provider output, and in older sessions.
+  rawImage?: Blob;
+  mask?: Blob;
+  model?: string;
+  createdAt?: number;
+  // `factor` is measured from the result, which an AI upscale may not honour exactly.
+  upscaled?: { image: Blob, factor: number, method?: UpscaleMethod };
+  // Mask layers that were applied, in order, to produce this result.
+  layerIds?: string[];
+}
+
+/**
+ * The edit behind the results on screen: what "Use as New Base" records as
+ * the new version's mask, settings and layers.
+ */
+export interface PendingEdit {
+  mask: Blob;
+  settings: EditSettings;
+  model?: string;
+  layers: SavedMaskLayer[];
+}
+
+/** Full-resolution results of one edit, before they are encoded into candidates. */
+export interface GeneratedEdit {
+  mask: HTMLCanvasElement;
+  settings: EditSettings;
+  model?: string;
+  layerIds: string[];
+  // Each layer's own mask, for edits that ran layer by layer.
+  layers?: { layer: MaskLayer, mask: HTMLCanvasElement }[];
+  // Size of the working-size copies shown in the editor.
+  preview: { width: number, height: number };
+  // Each result with the provider's unmasked output, where there is one.
+  results: { image: HTMLCanvasElement, raw: HTMLCanvasElement | null }[];
+}
+
+/** A saved editing session, as stored in IndexedDB. */
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  original: File;
+  versions: EditVersion[];
+  activeVersionId: string;
+  // The painted overlay (with its alpha) on the active version, if any,
+  // flattened across all mask layers.
+  mask: Blob | null;
+  // Per-layer overlays; absent in sessions saved before layers existed.
+  layers?: SavedMaskLayer[];
+  activeLayerId?: string;
+  settings: EditSettings;
+  candidates: EditCandidate[];
+  // Absent when there are no results, and in sessions saved before it was kept.
+  lastEdit?: PendingEdit;
+  thumbnail: Blob | null;
+}
+
+export type ProjectSummary = Pick<ProjectRecord, 'id' | 'name' | 'createdAt' | 'updatedAt' | 'thumbnail'>;
+
+/** Where a batch job's mask comes from for each image. */
+export type BatchMaskSource =
+  // The provider's auto-mask, of the subject or of everything but it.
+  | { kind: 'auto', target: 'subject' | 'background' }
+  // The same rectangle on every image, in 0-1 fractions of its width and height.
+  | { kind: 'rect', rect: Rect };
+
+/** One edit applied to every image in a batch. */
+export interface BatchJob extends EditSettings {
+  maskSource: BatchMaskSource;
+  resolution: WorkingResolution;
+  // Upscale factor for each result, or null to skip upscaling.
+  upscaleFactor: number | null;
+  upscaleMethod: UpscaleMethod;
+}
+
+export type BatchStage = 'masking' | 'editing' | 'upscaling';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: 'queued' | 'running' | 'done' | 'failed';
+  // What a running item is doing.
+  stage?: BatchStage;
+  result?: Blob;
+  // Set when the upscaled result isn't the size the job's factor asked for.
+  notice?: string;
+  error?: string;
+}
@@ -0,0 +1,59 @@
+import { createCanvas, get2dContext, getSourceSize } from './imageUtils';
+
+/** What goes behind a cut-out subject. */
+export type BackgroundFill =
+  | { kind: 'transparent' }
+  | { kind: 'color', color: string }
+  // `angle` is in degrees clockwise, with 0 running left to right.
+  | { kind: 'gradient', from: string, to: string, angle: number }
+  // The image covers the frame at `scale` 1; offsets are fractions of the frame size.
+  | { kind: 'image', image: HTMLImageElement | HTMLCanvasElement, scale: number, offsetX: number, offsetY: number };
+
+const drawBackground = (ctx: CanvasRenderingContext2D, fill: BackgroundFill, width: number, height: number) => {
+  switch (fill.kind) {
+    case 'transparent':
+      return;
+    case 'color':
+      ctx.fillStyle = fill.color;
+      ctx.fillRect(0, 0, width, height);
+      return;
+    case 'gradient': {
+      const radians = fill.angle * Math.PI / 180;
+      const dx = Math.cos(radians);
+      const dy = Math.sin(radians);
+      // Half the frame's extent along the gradient line, so both colours land on the corners.
+      const reach = Math.abs(width / 2 * dx) + Math.abs(height / 2 * dy);
+      const gradient = ctx.createLinearGradient(width / 2 - dx * reach, height / 2 - dy * reach, width / 2 + dx * reach, height / 2 + dy * reach);
+      gradient.addColorStop(0, fill.from);
+      gradient.addColorStop(1, fill.to);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+      return;
+    }
+    case 'image': {
+      const source = getSourceSize(fill.image);
+      const cover = Math.max(width / source.width, height / source.height) * fill.scale;
+      const drawWidth = source.width * cover;
+      const drawHeight = source.height * cover;
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(
+        fill.image,
+        (width - drawWidth) / 2 + fill.offsetX * width,
+        (height - drawHeight) / 2 + fill.offsetY * height,
+        drawWidth,
+        drawHeight
+      );
+      return;
+    }
+  }
+};
+
+/** Draws the cut-out (RGBA with the subject's opacity) over `fill` at the cut-out's size. */
+export const composeOverBackground = (cutout: HTMLCanvasElement, fill: BackgroundFill): HTMLCanvasElement => {
+  const { width, height } = cutout;
+  const output = createCanvas(width, height);
+  const ctx = get2dContext(output);
+  drawBackground(ctx, fill, width, height);
+  ctx.drawImage(cutout, 0, 0);
+  return output;
+};
@@ -0,0 +1,129 @@
+import { Rect } from '../types';
+import { createCanvas, get2dContext } from './imageUtils';
+
+/**
+ * Builds a per-pixel blend weight (0-255) from a greyscale mask at the given
+ * size. The mask's own value is the base weight; the feather additionally
+ * fades inward from the edge of the painted area, so pixels outside the mask
+ * always get a weight of exactly 0.
+ */
+export const buildBlendAlpha = (
+  mask: CanvasImageSource,
+  width: number,
+  height: number,
+  featherPx: number
+): Uint8ClampedArray => {
+  const hardCanvas = createCanvas(width, height);
+  const hardCtx = get2dContext(hardCanvas);
+  hardCtx.imageSmoothingEnabled = false;
+  hardCtx.drawImage(mask, 0, 0, width, height);
+  const hardData = hardCtx.getImageData(0, 0, width, height);
+  const hard = hardData.data;
+
+  const alpha = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < alpha.length; i++) {
+    alpha[i] = hard[i * 4];
+  }
+  if (featherPx <= 0) return alpha;
+
+  // Blur the painted area as a solid shape so the fade doesn't compound any softness already in the mask.
+  for (let i = 0; i < alpha.length; i++) {
+    const value = alpha[i] > 0 ? 255 : 0;
+    hard[i * 4] = value;
+    hard[i * 4 + 1] = value;
+    hard[i * 4 + 2] = value;
+    hard[i * 4 + 3] = 255;
+  }
+  hardCtx.putImageData(hardData, 0, 0);
+
+  const softCanvas = createCanvas(width, height);
+  const softCtx = get2dContext(softCanvas);
+  softCtx.filter = `blur(${featherPx}px)`;
+  softCtx.drawImage(hardCanvas, 0, 0);
+  const soft = softCtx.getImageData(0, 0, width, height).data;
+
+  for (let i = 0; i < alpha.length; i++) {
+    if (alpha[i] === 0) continue;
+    // The blurred edge sits at ~50%; remap 50%..100% to 0..1 so the fade stays inside the mask.
+    alpha[i] = alpha[i] * Math.max(0, (soft[i * 4] - 128) * 2) / 255;
+  }
+  return alpha;
+};
+
+/**
+ * Blends `result` into `base` only where the mask is set. The mask is scaled
+ * to the base size; `result` is scaled to `region` (in base pixels), or to
+ * the whole base when no region is given. Pixels with a zero weight are
+ * copied from the base untouched, so everything outside the mask is bit-exact.
+ */
+export const compositeWithMask = (
+  base: CanvasImageSource,
+  width: number,
+  height: number,
+  result: CanvasImageSource,
+  mask: CanvasImageSource,
+  featherPx = 0,
+  region?: Rect
+): HTMLCanvasElement => {
+  const output = createCanvas(width, height);
+  const outputCtx = get2dContext(output);
+  outputCtx.drawImage(base, 0, 0, width, height);
+  const baseData = outputCtx.getImageData(0, 0, width, height);
+
+  const resultCanvas = createCanvas(width, height);
+  const resultCtx = get2dContext(resultCanvas);
+  resultCtx.imageSmoothingQuality = 'high';
+  if (region) {
+    resultCtx.drawImage(result, region.x, region.y, region.width, region.height);
+  } else {
+    resultCtx.drawImage(result, 0, 0, width, height);
+  }
+  const resultData = resultCtx.getImageData(0, 0, width, height).data;
+
+  const alpha = buildBlendAlpha(mask, width, height, featherPx);
+  const out = baseData.data;
+
+  for (let p = 0; p < alpha.length; p++) {
+    const a = alpha[p];
+    if (a === 0) continue;
+    const i = p * 4;
+    if (a === 255) {
+      out[i] = resultData[i];
+      out[i + 1] = resultData[i + 1];
+      out[i + 2] = resultData[i + 2];
+      out[i + 3] = resultData[i + 3];
+      continue;
+    }
+    const t = a / 255;
+    out[i] = out[i] + (resultData[i] - out[i]) * t;
+    out[i + 1] = out[i + 1] + (resultData[i + 1] - out[i + 1]) * t;
+    out[i + 2] = out[i + 2] + (resultData[i + 2] - out[i + 2]) * t;
+    out[i + 3] = out[i + 3] + (resultData[i + 3] - out[i + 3]) * t;
+  }
+
+  outputCtx.putImageData(baseData, 0, 0);
+  return output;
+};
+
+/**
+ * `result` drawn over `base` in `region` (or over all of it), with no mask:
+ * the provider's output as it came back, to check what it changed.
+ */
+export const placeResult = (
+  base: CanvasImageSource,
+  width: number,
+  height: number,
+  result: CanvasImageSource,
+  region?: Rect
+): HTMLCanvasElement => {
+  const output = createCanvas(width, height);
+  const ctx = get2dContext(output);
+  ctx.drawImage(base, 0, 0, width, height);
+  ctx.imageSmoothingQuality = 'high';
+  if (region) {
+    ctx.drawImage(result, region.x, region.y, region.width, region.height);
+  } else {
+    ctx.drawImage(result, 0, 0, width, height);
+  }
+  return output;
+};
@@ -0,0 +1,61 @@
+// Per-pixel difference between two renders of the same image, for the
+// comparison viewer's heatmap.
+
+// Channel differences at or below this are JPEG/resampling noise, not edits.
+const CHANGE_THRESHOLD = 12;
+// Mask values at or below this count as outside the mask.
+const MASK_THRESHOLD = 8;
+
+export interface DifferenceResult {
+  // RGBA heatmap at the compared size: transparent where unchanged.
+  heatmap: Uint8ClampedArray;
+  // Share of all pixels that changed, 0-1.
+  changed: number;
+  // Share of all pixels that changed outside the mask, or null without a mask.
+  changedOutsideMask: number | null;
+}
+
+/** Blue through yellow to red as `t` goes from 0 to 1. */
+const heatColor = (t: number): [number, number, number] => {
+  if (t < 0.5) {
+    const u = t * 2;
+    return [Math.round(255 * u), Math.round(255 * u), Math.round(255 * (1 - u))];
+  }
+  const u = (t - 0.5) * 2;
+  return [255, Math.round(255 * (1 - u)), 0];
+};
+
+/**
+ * Compares two RGBA buffers of the same size. Changes inside the mask (or
+ * everywhere, without one) are coloured by strength; changes outside the
+ * mask are flagged in solid magenta since the edit shouldn't have touched them.
+ * `mask` is greyscale RGBA with white meaning masked.
+ */
+export const computeDifference = (before: Uint8ClampedArray, after: Uint8ClampedArray, mask?: Uint8ClampedArray): DifferenceResult => {
+  const heatmap = new Uint8ClampedArray(after.length);
+  const pixels = after.length / 4;
+  let changed = 0;
+  let outside = 0;
+  for (let p = 0; p < pixels; p++) {
+    const i = p * 4;
+    const difference = Math.max(
+      Math.abs(after[i] - before[i]),
+      Math.abs(after[i + 1] - before[i + 1]),
+      Math.abs(after[i + 2] - before[i + 2]),
+    );
+    if (difference <= CHANGE_THRESHOLD) continue;
+    changed++;
+    if (mask && mask[i] <= MASK_THRESHOLD) {
+      outside++;
+      heatmap.set([255, 0, 255, 255], i);
+    } else {
+      const [r, g, b] = heatColor(Math.min(1, difference / 160));
+      heatmap.set([r, g, b, 200], i);
+    }
+  }
+  return {
+    heatmap,
+    changed: pixels > 0 ? changed / pixels : 0,
+    changedOutsideMask: mask && pixels > 0 ? outside / pixels : null,
+  };
+};
@@ -0,0 +1,11 @@
+// Edit settings shared by the editor and batch processing, so both offer the
+// same choices and start from the same defaults.
+
+/** Styles the prompt can ask for; `Default` adds nothing to the prompt. */
+export const STYLES = [
+  'Default', 'Photorealistic', 'Cartoon', 'Anime', 'Pixel Art', 'Watercolor', 'Impressionism',
+  'Pop Art', 'Surrealism', 'Minimalist', 'Fantasy', 'Cyberpunk', 'Steampunk', 'Art Deco',
+];
+
+/** Edge feather, in mask pixels, used when compositing a result into the original. */
+export const DEFAULT_FEATHER_PX = 4;
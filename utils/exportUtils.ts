@@ -0,0 +1,82 @@
+import { canvasToBlob, createCanvas, get2dContext, loadImageFromFile } from './imageUtils';
+import { embedMetadata, ExportMetadata } from './metadata';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+export interface ExportFormatInfo {
+  label: string;
+  mimeType: string;
+  extension: string;
+  // Whether the quality setting applies.
+  lossy: boolean;
+  // Whether transparency survives encoding.
+  alpha: boolean;
+  // Whether EXIF and XMP can be written into the file.
+  metadata: boolean;
+}
+
+// Long enough for the browser to start the download before the URL goes away;
+// revoking straight after `click()` can cancel it in some browsers.
+const DOWNLOAD_URL_LIFETIME_MS = 60_000;
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  png: { label: 'PNG', mimeType: 'image/png', extension: 'png', lossy: false, alpha: true, metadata: true },
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true, alpha: false, metadata: true },
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp', lossy: true, alpha: true, metadata: true },
+  avif: { label: 'AVIF', mimeType: 'image/avif', extension: 'avif', lossy: true, alpha: true, metadata: false },
+};
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // Encoder quality for lossy formats, 0-1.
+  quality: number;
+  width: number;
+  height: number;
+  // Colour to flatten transparency onto, or null to keep it (where the format can).
+  background: string | null;
+}
+
+/**
+ * Decodes `image`, encodes it at the requested size and format, then writes
+ * `metadata` into it. Throws when the browser can't encode the format:
+ * `toBlob` quietly falls back to PNG instead of failing.
+ */
+export const renderExport = async (
+  image: Blob,
+  { format, quality, width, height, background }: ExportOptions,
+  metadata: ExportMetadata
+): Promise<Blob> => {
+  const info = EXPORT_FORMATS[format];
+  const canvas = createCanvas(width, height);
+  const ctx = get2dContext(canvas);
+  const fill = background ?? (info.alpha ? null : '#ffffff');
+  if (fill) {
+    ctx.fillStyle = fill;
+    ctx.fillRect(0, 0, width, height);
+  }
+  const source = await loadImageFromFile(image);
+  if (source.naturalWidth !== width || source.naturalHeight !== height) ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, width, height);
+
+  const blob = await canvasToBlob(canvas, info.mimeType, info.lossy ? quality : undefined);
+  if (blob.type !== info.mimeType) {
+    throw new Error(`This browser can't encode ${info.label}. Choose another format.`);
+  }
+  return info.metadata ? embedMetadata(blob, metadata) : blob;
+};
+
+/** `photo.heic` → `photo-edited.jpg`, keeping the upload's name recognisable. */
+export const exportFileName = (originalName: string, suffix: string, format: ExportFormat): string => {
+  const base = originalName.replace(/\.[^.]+$/, '').replace(/[\\/:*?"<>|]+/g, '_').trim() || 'image';
+  return `${base}-${suffix}.${EXPORT_FORMATS[format].extension}`;
+};
+
+/** Saves `blob` through a temporary object URL rather than a data URL. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { detectFormat, ImportFormat, readHeaderSize } from './imageImport';
+
+const encoder = new TextEncoder();
+
+/** `length` zero bytes with each part written at its offset. */
+const header = (length: number, parts: [number, string | number[]][]): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  for (const [offset, value] of parts) bytes.set(typeof value === 'string' ? encoder.encode(value) : value, offset);
+  return bytes;
+};
+
+const le = (value: number, size: number) => Array.from({ length: size }, (_, i) => (value >>> (i * 8)) & 0xff);
+const be = (value: number, size: number) => le(value, size).reverse();
+
+const PNG = header(33, [[0, [0x89]], [1, 'PNG\r\n\x1a\n'], [12, 'IHDR'], [16, be(640, 4)], [20, be(480, 4)]]);
+const GIF = header(13, [[0, 'GIF89a'], [6, le(320, 2)], [8, le(200, 2)]]);
+const BMP = header(54, [[0, 'BM'], [14, le(40, 4)], [18, le(800, 4)], [22, le(-600, 4)]]);
+// SOI, an APP0 segment to skip, then a progressive (SOF2) frame header.
+const JPEG = header(40, [[0, [0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]], [6, 'JFIF\0'], [20, [0xff, 0xc2, 0x00, 0x11, 0x08]], [25, be(1080, 2)], [27, be(1920, 2)]]);
+const WEBP_LOSSY = header(30, [[0, 'RIFF'], [8, 'WEBPVP8 '], [23, [0x9d, 0x01, 0x2a]], [26, le(1024, 2)], [28, le(768, 2)]]);
+const WEBP_LOSSLESS = header(25, [[0, 'RIFF'], [8, 'WEBPVP8L'], [20, [0x2f]], [21, le((300 - 1) | ((150 - 1) << 14), 4)]]);
+// Exactly the VP8X chunk, nothing after it.
+const WEBP_EXTENDED = header(30, [[0, 'RIFF'], [8, 'WEBPVP8X'], [24, le(5000 - 1, 3)], [27, le(2500 - 1, 3)]]);
+
+describe('readHeaderSize', () => {
+  const cases: [string, Uint8Array, ImportFormat, number, number][] = [
+    ['PNG', PNG, 'png', 640, 480],
+    ['GIF', GIF, 'gif', 320, 200],
+    ['bottom-up BMP', BMP, 'bmp', 800, 600],
+    ['progressive JPEG', JPEG, 'jpeg', 1920, 1080],
+    ['lossy WebP', WEBP_LOSSY, 'webp', 1024, 768],
+    ['lossless WebP', WEBP_LOSSLESS, 'webp', 300, 150],
+    ['extended WebP', WEBP_EXTENDED, 'webp', 5000, 2500],
+  ];
+
+  it.each(cases)('reads the size of a %s', (_, bytes, format, width, height) => {
+    expect(detectFormat(bytes)).toBe(format);
+    expect(readHeaderSize(bytes, format)).toEqual({ width, height });
+  });
+
+  it('returns null for a truncated header', () => {
+    expect(readHeaderSize(PNG.subarray(0, 18), 'png')).toBeNull();
+    expect(readHeaderSize(JPEG.subarray(0, 24), 'jpeg')).toBeNull();
+  });
+
+  it('leaves formats sized only by decoding to the decoder', () => {
+    expect(readHeaderSize(new Uint8Array(64), 'heic')).toBeNull();
+    expect(readHeaderSize(new Uint8Array(64), 'avif')).toBeNull();
+  });
+});
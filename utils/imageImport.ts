@@ -0,0 +1,223 @@
+// Turns an upload into the editor's canonical input: a PNG, JPEG or WebP
+// whose pixels are upright, so the canvas, the mask and what the model is
+// sent all agree on orientation. Anything else the browser (or our TIFF
+// decoder) can read is converted, and size limits are checked up front with
+// readable errors.
+import { canvasToBlob, createCanvas, get2dContext } from './imageUtils';
+import { embedMetadata, readExif, readOrientation, rebuildExif } from './metadata';
+import { decodeTiff, readTiffSize } from './tiff';
+
+export type ImportFormat = 'png' | 'jpeg' | 'webp' | 'gif' | 'avif' | 'heic' | 'tiff' | 'bmp';
+
+export const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+export const MAX_IMPORT_DIMENSION = 12000;
+export const MAX_IMPORT_PIXELS = 50_000_000;
+
+/** What the uploader accepts; the file's bytes still decide the format. */
+export const IMPORT_ACCEPT = 'image/png, image/jpeg, image/webp, image/gif, image/avif, image/heic, image/heif, image/tiff, image/bmp, .heic, .heif, .avif, .tif, .tiff';
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  png: 'PNG', jpeg: 'JPEG', webp: 'WebP', gif: 'GIF', avif: 'AVIF', heic: 'HEIC', tiff: 'TIFF', bmp: 'BMP',
+};
+
+// Formats every browser decodes and providers accept as they are.
+const PASSTHROUGH_FORMATS: ImportFormat[] = ['png', 'jpeg', 'webp'];
+// HEIC is a camera format; everything else may carry transparency.
+const PHOTO_FORMATS: ImportFormat[] = ['jpeg', 'heic'];
+const JPEG_QUALITY = 0.95;
+
+export class ImageImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageImportError';
+  }
+}
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+/** Identifies a file from its leading bytes rather than its name or MIME type. */
+export const detectFormat = (bytes: Uint8Array): ImportFormat | null => {
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') return 'png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'gif';
+  if (ascii(bytes, 0, 4) === 'II*\0' || ascii(bytes, 0, 4) === 'MM\0*') return 'tiff';
+  if (ascii(bytes, 0, 2) === 'BM') return 'bmp';
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    // The major brand, then the compatible brands, up to the box's end.
+    const boxSize = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(0);
+    const brands: string[] = [];
+    for (let offset = 8; offset + 4 <= Math.min(boxSize, bytes.length); offset += offset === 8 ? 8 : 4) {
+      brands.push(ascii(bytes, offset, 4));
+    }
+    if (brands.some(brand => brand === 'avif' || brand === 'avis')) return 'avif';
+    if (brands.some(brand => ['heic', 'heix', 'hevc', 'heim', 'heis', 'mif1', 'msf1'].includes(brand))) return 'heic';
+  }
+  return null;
+};
+
+const checkDimensions = (width: number, height: number) => {
+  if (width < 1 || height < 1) {
+    throw new ImageImportError('The image has no pixels.');
+  }
+  if (Math.max(width, height) > MAX_IMPORT_DIMENSION || width * height > MAX_IMPORT_PIXELS) {
+    throw new ImageImportError(`The image is ${width}×${height}px. Images up to ${MAX_IMPORT_DIMENSION}px on a side and ${MAX_IMPORT_PIXELS / 1_000_000} megapixels are supported; resize it first.`);
+  }
+};
+
+// JPEG start-of-frame markers; C4, C8 and CC share the range but are something else.
+const isStartOfFrame = (marker: number) => marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+const readJpegSize = (bytes: Uint8Array, view: DataView): { width: number, height: number } | null => {
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    // Fill bytes, and the markers that carry no length.
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) return null;
+    if (isStartOfFrame(marker)) return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+};
+
+const readWebpSize = (bytes: Uint8Array, view: DataView): { width: number, height: number } | null => {
+  switch (ascii(bytes, 12, 4)) {
+    case 'VP8X': {
+      // 24-bit canvas width and height, each minus one.
+      const uint24 = (offset: number) => view.getUint16(offset, true) | (view.getUint8(offset + 2) << 16);
+      return { width: 1 + uint24(24), height: 1 + uint24(27) };
+    }
+    case 'VP8L': {
+      const bits = view.getUint32(21, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+    }
+    case 'VP8 ':
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    default:
+      return null;
+  }
+};
+
+/**
+ * The pixel size recorded in the file's header, so oversized images are
+ * refused before the browser spends the memory decoding them. Null for
+ * formats whose size is only known once decoded (AVIF and HEIC), and for
+ * headers that can't be read.
+ */
+export const readHeaderSize = (bytes: Uint8Array, format: ImportFormat): { width: number, height: number } | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  try {
+    switch (format) {
+      case 'png':
+        // IHDR is always the first chunk.
+        return { width: view.getUint32(16), height: view.getUint32(20) };
+      case 'gif':
+        return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+      case 'bmp':
+        // The old OS/2 header stores 16-bit sizes; a negative height means rows run top-down.
+        return view.getUint32(14, true) === 12
+          ? { width: view.getUint16(18, true), height: view.getUint16(20, true) }
+          : { width: Math.abs(view.getInt32(18, true)), height: Math.abs(view.getInt32(22, true)) };
+      case 'jpeg':
+        return readJpegSize(bytes, view);
+      case 'webp':
+        return readWebpSize(bytes, view);
+      case 'tiff':
+        return readTiffSize(bytes);
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+};
+
+/** Decodes with the browser, applying any EXIF orientation to the pixels. */
+const decodeNatively = (file: Blob): Promise<ImageBitmap> =>
+  createImageBitmap(file, { imageOrientation: 'from-image' });
+
+const decode = async (file: File, bytes: Uint8Array, format: ImportFormat): Promise<ImageBitmap | HTMLCanvasElement> => {
+  if (format === 'tiff') {
+    try {
+      return await decodeNatively(file);
+    } catch {
+      // Only Safari reads TIFF; everyone else gets the built-in decoder.
+    }
+    let decoded;
+    try {
+      decoded = await decodeTiff(bytes);
+    } catch (err) {
+      // Our own messages say what isn't supported; a RangeError means a truncated file.
+      throw new ImageImportError(err instanceof Error && !(err instanceof RangeError) ? err.message : 'The TIFF file could not be read. It may be damaged.');
+    }
+    const canvas = createCanvas(decoded.width, decoded.height);
+    const ctx = get2dContext(canvas);
+    const imageData = ctx.createImageData(decoded.width, decoded.height);
+    imageData.data.set(decoded.pixels);
+    ctx.putImageData(imageData, 0, 0);
+    return canvas;
+  }
+  try {
+    return await decodeNatively(file);
+  } catch {
+    throw new ImageImportError(format === 'heic'
+      ? "This browser can't open HEIC photos. Use Safari, or export the photo as JPEG first."
+      : `The ${FORMAT_LABELS[format]} file could not be decoded. It may be damaged, or this browser may not support it.`);
+  }
+};
+
+/**
+ * Validates `file` and returns the image the editor should work from. Files
+ * that are already upright PNG, JPEG or WebP come back as they are (with
+ * their MIME type fixed if the browser didn't know it); anything else is
+ * redrawn upright and re-encoded. EXIF from JPEG, PNG, WebP, HEIC and AVIF
+ * files is carried over, marked upright; TIFF tags are not.
+ */
+export const importImage = async (file: File): Promise<File> => {
+  if (file.size > MAX_IMPORT_BYTES) {
+    throw new ImageImportError(`The file is ${(file.size / 1024 / 1024).toFixed(1)} MB; the limit is ${MAX_IMPORT_BYTES / 1024 / 1024} MB.`);
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const format = detectFormat(bytes);
+  if (!format) {
+    throw new ImageImportError(`"${file.name}" isn't a supported image. Use PNG, JPEG, WebP, AVIF, HEIC, GIF, TIFF or BMP.`);
+  }
+
+  const headerSize = readHeaderSize(bytes, format);
+  if (headerSize) {
+    checkDimensions(headerSize.width, headerSize.height);
+  } else if (format === 'tiff') {
+    throw new ImageImportError('The TIFF file could not be read. It may be damaged.');
+  }
+
+  const exif = await readExif(file);
+  const image = await decode(file, bytes, format);
+  try {
+    checkDimensions(image.width, image.height);
+    const upright = !exif || readOrientation(exif) === 1;
+    if (PASSTHROUGH_FORMATS.includes(format) && upright) {
+      const mimeType = `image/${format}`;
+      return file.type === mimeType ? file : new File([file], file.name, { type: mimeType, lastModified: file.lastModified });
+    }
+
+    const canvas = createCanvas(image.width, image.height);
+    get2dContext(canvas).drawImage(image, 0, 0);
+    const mimeType = PHOTO_FORMATS.includes(format) ? 'image/jpeg' : 'image/png';
+    const encoded = await canvasToBlob(canvas, mimeType, mimeType === 'image/jpeg' ? JPEG_QUALITY : undefined);
+    const withExif = await embedMetadata(encoded, { exif: exif && rebuildExif(exif), provenance: null });
+    const name = `${file.name.replace(/\.[^.]+$/, '') || 'image'}.${mimeType === 'image/jpeg' ? 'jpg' : 'png'}`;
+    return new File([withExif], name, { type: mimeType, lastModified: file.lastModified });
+  } finally {
+    if (image instanceof ImageBitmap) image.close();
+  }
+};
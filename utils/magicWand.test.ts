@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { magicWandSelect, MagicWandOptions, WandColorSpace } from './magicWand';
+
+/** An image drawn as rows of text: '#' is white, '.' is black. */
+const drawn = (rows: string[]) => {
+  const width = rows[0].length;
+  const pixels = new Uint8ClampedArray(width * rows.length * 4);
+  rows.join('').split('').forEach((cell, i) => {
+    const value = cell === '#' ? 255 : 0;
+    pixels.set([value, value, value, 255], i * 4);
+  });
+  return { pixels, width, height: rows.length };
+};
+
+/** A selection drawn back as rows of text, in the same notation. */
+const asRows = (selected: Uint8ClampedArray, width: number): string[] => {
+  const rows: string[] = [];
+  for (let y = 0; y < selected.length / width; y++) {
+    rows.push(Array.from(selected.subarray(y * width, (y + 1) * width), value => value ? '#' : '.').join(''));
+  }
+  return rows;
+};
+
+const options = (overrides: Partial<MagicWandOptions> = {}): MagicWandOptions => ({ tolerance: 10, colorSpace: 'rgb', contiguous: true, ...overrides });
+
+describe('magicWandSelect', () => {
+  const islands = [
+    '##...',
+    '##..#',
+    '....#',
+  ];
+
+  it('selects only the region connected to the clicked pixel when contiguous', () => {
+    const image = drawn(islands);
+    const selected = magicWandSelect({ ...image, x: 0, y: 0, options: options() });
+    expect(asRows(selected, image.width)).toEqual([
+      '##...',
+      '##...',
+      '.....',
+    ]);
+  });
+
+  it('selects every similar pixel in the image when not contiguous', () => {
+    const image = drawn(islands);
+    const selected = magicWandSelect({ ...image, x: 0, y: 0, options: options({ contiguous: false }) });
+    expect(asRows(selected, image.width)).toEqual(islands);
+  });
+
+  it('selects nothing for a click outside the image', () => {
+    const image = drawn(islands);
+    expect(magicWandSelect({ ...image, x: -1, y: 0, options: options() }).every(value => value === 0)).toBe(true);
+    expect(magicWandSelect({ ...image, x: 0, y: 3, options: options() }).every(value => value === 0)).toBe(true);
+  });
+
+  // Each pair is a known distance apart in its colour space.
+  const boundaries: [WandColorSpace, string, number[], number[], number][] = [
+    // Euclidean RGB, scaled so 0-255 maps to 0-100.
+    ['rgb', 'black and (30, 40, 0)', [0, 0, 0], [30, 40, 0], 50 / 2.55],
+    // Black and white span the whole L* axis.
+    ['lab', 'black and white', [0, 0, 0], [255, 255, 255], 100],
+    // Full red and full green sit 120° apart on the rim of the cone, whose radius is 50.
+    ['hsv', 'red and green', [255, 0, 0], [0, 255, 0], 100 * Math.sin(Math.PI / 3)],
+  ];
+
+  it.each(boundaries)('in %s, tells %s apart only below their distance', (colorSpace, _, seed, other, distance) => {
+    const image = { pixels: new Uint8ClampedArray([...seed, 255, ...other, 255]), width: 2, height: 1 };
+    const select = (tolerance: number) => magicWandSelect({ ...image, x: 0, y: 0, options: options({ colorSpace, tolerance }) });
+    expect(Array.from(select(distance - 0.1))).toEqual([255, 0]);
+    expect(Array.from(select(distance + 0.1))).toEqual([255, 255]);
+  });
+
+  it('follows a spiral that doubles back over rows it has already filled', () => {
+    const spiral = [
+      '#########',
+      '........#',
+      '#######.#',
+      '#.....#.#',
+      '#.###.#.#',
+      '#.#...#.#',
+      '#.#####.#',
+      '#.......#',
+      '#########',
+    ];
+    const image = drawn(spiral);
+    // From the outer end and from the centre, the fill has to wind through every turn.
+    for (const [x, y] of [[0, 0], [4, 4]]) {
+      const selected = magicWandSelect({ ...image, x, y, options: options() });
+      expect(asRows(selected, image.width)).toEqual(spiral);
+    }
+  });
+
+  it('fills the background around the spiral without crossing it', () => {
+    const image = drawn([
+      '#######',
+      '#.....#',
+      '#.###.#',
+      '#.#.#.#',
+      '#.#...#',
+      '#.#####',
+    ]);
+    const selected = magicWandSelect({ ...image, x: 1, y: 1, options: options() });
+    expect(asRows(selected, image.width)).toEqual([
+      '.......',
+      '.#####.',
+      '.#...#.',
+      '.#.#.#.',
+      '.#.###.',
+      '.#.....',
+    ]);
+  });
+});
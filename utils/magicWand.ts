@@ -0,0 +1,154 @@
+// Colour-similarity selection used by the magic wand. Pure functions so the
+// same code runs in the worker and, where workers are unavailable, inline.
+
+export type WandColorSpace = 'rgb' | 'lab' | 'hsv';
+
+export interface MagicWandOptions {
+  // Maximum colour distance from the clicked pixel, roughly 0-100 in every colour space.
+  tolerance: number;
+  colorSpace: WandColorSpace;
+  // Only pixels connected to the clicked one, or every similar pixel in the image.
+  contiguous: boolean;
+}
+
+export interface MagicWandRequest {
+  pixels: Uint8ClampedArray;
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  options: MagicWandOptions;
+}
+
+type Coords = [number, number, number];
+
+const srgbToLinear = (c: number): number => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+const labF = (t: number): number => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+
+/** CIE L*a*b* (D65), where a distance of ~2.3 is just noticeable. */
+const toLab = (r: number, g: number, b: number): Coords => {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+  const x = (0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047;
+  const y = 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+  const z = (0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883;
+  const fx = labF(x);
+  const fy = labF(y);
+  const fz = labF(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+/** HSV as a cone, so hue differences shrink for greys and dark colours where hue is meaningless. */
+const toHsvCone = (r: number, g: number, b: number): Coords => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const value = max / 255;
+  const saturation = max === 0 ? 0 : (max - min) / max;
+  let hue = 0;
+  if (max !== min) {
+    const d = max - min;
+    if (max === r) hue = ((g - b) / d) % 6;
+    else if (max === g) hue = (b - r) / d + 2;
+    else hue = (r - g) / d + 4;
+  }
+  const angle = hue * Math.PI / 3;
+  const radius = saturation * value * 50;
+  return [radius * Math.cos(angle), radius * Math.sin(angle), value * 100];
+};
+
+const toRgb = (r: number, g: number, b: number): Coords => [r / 2.55, g / 2.55, b / 2.55];
+
+const converters: Record<WandColorSpace, (r: number, g: number, b: number) => Coords> = {
+  rgb: toRgb,
+  lab: toLab,
+  hsv: toHsvCone,
+};
+
+/**
+ * Selects pixels similar to the one at (x, y). Contiguous selection uses a
+ * scanline fill, visiting each row span once instead of queueing every
+ * neighbour. Returns 255 for selected pixels and 0 elsewhere.
+ */
+export const magicWandSelect = ({ pixels, width, height, x, y, options }: MagicWandRequest): Uint8ClampedArray => {
+  const selected = new Uint8ClampedArray(width * height);
+  const startX = Math.floor(x);
+  const startY = Math.floor(y);
+  if (startX < 0 || startY < 0 || startX >= width || startY >= height) return selected;
+
+  const convert = converters[options.colorSpace];
+  const seed = startY * width + startX;
+  const [s0, s1, s2] = convert(pixels[seed * 4], pixels[seed * 4 + 1], pixels[seed * 4 + 2]);
+  const limit = options.tolerance * options.tolerance;
+
+  const matches = (p: number): boolean => {
+    const [c0, c1, c2] = convert(pixels[p * 4], pixels[p * 4 + 1], pixels[p * 4 + 2]);
+    const d0 = c0 - s0;
+    const d1 = c1 - s1;
+    const d2 = c2 - s2;
+    return d0 * d0 + d1 * d1 + d2 * d2 <= limit;
+  };
+
+  if (!options.contiguous) {
+    for (let p = 0; p < selected.length; p++) {
+      if (matches(p)) selected[p] = 255;
+    }
+    return selected;
+  }
+
+  // Pixels already tested and rejected, so spans don't re-test them.
+  const rejected = new Uint8Array(width * height);
+  const isCandidate = (p: number): boolean => {
+    if (selected[p] || rejected[p]) return false;
+    if (matches(p)) return true;
+    rejected[p] = 1;
+    return false;
+  };
+
+  let stack = new Int32Array(1024);
+  let top = 0;
+  const push = (p: number) => {
+    if (top === stack.length) {
+      const grown = new Int32Array(stack.length * 2);
+      grown.set(stack);
+      stack = grown;
+    }
+    stack[top++] = p;
+  };
+
+  // Queues the start of every run of candidates in row `row` between `left` and `right`.
+  const scanRow = (row: number, left: number, right: number) => {
+    if (row < 0 || row >= height) return;
+    let inRun = false;
+    for (let px = left; px <= right; px++) {
+      const p = row * width + px;
+      if (isCandidate(p)) {
+        if (!inRun) {
+          push(p);
+          inRun = true;
+        }
+      } else {
+        inRun = false;
+      }
+    }
+  };
+
+  push(seed);
+  while (top > 0) {
+    const p = stack[--top];
+    if (selected[p]) continue;
+    const row = Math.floor(p / width);
+    let left = p - row * width;
+    let right = left;
+    while (left > 0 && isCandidate(row * width + left - 1)) left--;
+    while (right < width - 1 && isCandidate(row * width + right + 1)) right++;
+    selected.fill(255, row * width + left, row * width + right + 1);
+    scanRow(row - 1, left, right);
+    scanRow(row + 1, left, right);
+  }
+  return selected;
+};
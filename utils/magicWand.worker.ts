@@ -0,0 +1,4 @@
+import { magicWandSelect } from './magicWand';
+import { serveWorkerTask } from './workerTask';
+
+serveWorkerTask(magicWandSelect, mask => [mask.buffer], 'Magic wand selection failed.');
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { distanceTransform, featherMask, fillMaskHoles, growMask, removeMaskIslands, shrinkMask } from './maskOps';
+
+const WIDTH = 24;
+const HEIGHT = 20;
+
+/** A hard mask with the rectangle [x0, x1) × [y0, y1) set. */
+const rectMask = (x0: number, y0: number, x1: number, y1: number, width = WIDTH, height = HEIGHT): Uint8ClampedArray => {
+  const mask = new Uint8ClampedArray(width * height);
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) mask[y * width + x] = 255;
+  }
+  return mask;
+};
+
+const setPixels = (mask: Uint8ClampedArray) => mask.reduce((count, value) => count + (value >= 128 ? 1 : 0), 0);
+
+describe('distanceTransform', () => {
+  it('matches the brute-force Euclidean distance', () => {
+    const target = new Uint8Array(WIDTH * HEIGHT);
+    [3, 47, 200, 311, 455].forEach(i => { target[i] = 1; });
+    const distance = distanceTransform(target, WIDTH, HEIGHT);
+    for (let i = 0; i < target.length; i++) {
+      let nearest = Infinity;
+      target.forEach((set, j) => {
+        if (set) nearest = Math.min(nearest, Math.hypot(i % WIDTH - j % WIDTH, Math.floor(i / WIDTH) - Math.floor(j / WIDTH)));
+      });
+      expect(distance[i]).toBeCloseTo(nearest, 4);
+    }
+  });
+});
+
+describe('growMask and shrinkMask', () => {
+  it('grows a rectangle by the radius, with a half-covered pixel at the new edge', () => {
+    const grown = growMask(rectMask(8, 8, 14, 12), WIDTH, HEIGHT, 2);
+    const row = Array.from(grown.subarray(10 * WIDTH, 11 * WIDTH));
+    expect(row.slice(5, 17)).toEqual([0, 128, 255, 255, 255, 255, 255, 255, 255, 255, 128, 0]);
+    expect(grown[6 * WIDTH + 10]).toBe(128);
+    expect(grown[5 * WIDTH + 10]).toBe(0);
+  });
+
+  it('shrinks a rectangle by the radius, with a half-covered pixel at the new edge', () => {
+    const shrunk = shrinkMask(rectMask(4, 4, 16, 14), WIDTH, HEIGHT, 2);
+    const row = Array.from(shrunk.subarray(9 * WIDTH, 10 * WIDTH));
+    expect(row.slice(4, 16)).toEqual([0, 0, 128, 255, 255, 255, 255, 255, 255, 128, 0, 0]);
+    expect(shrunk[6 * WIDTH + 9]).toBe(128);
+    expect(shrunk[5 * WIDTH + 9]).toBe(0);
+  });
+
+  it('never lowers a pixel when growing or raises one when shrinking', () => {
+    const mask = featherMask(rectMask(6, 5, 15, 13), WIDTH, HEIGHT, 4);
+    const grown = growMask(mask, WIDTH, HEIGHT, 1);
+    const shrunk = shrinkMask(mask, WIDTH, HEIGHT, 1);
+    mask.forEach((value, i) => {
+      expect(grown[i]).toBeGreaterThanOrEqual(value);
+      expect(shrunk[i]).toBeLessThanOrEqual(value);
+    });
+  });
+});
+
+describe('featherMask', () => {
+  it('leaves a uniform mask unchanged', () => {
+    const mask = new Uint8ClampedArray(WIDTH * HEIGHT).fill(200);
+    expect(featherMask(mask, WIDTH, HEIGHT, 6)).toEqual(mask);
+  });
+
+  it('softens the edge without moving it', () => {
+    const mask = rectMask(8, 0, WIDTH, HEIGHT);
+    const feathered = featherMask(mask, WIDTH, HEIGHT, 4);
+    const row = Array.from(feathered.subarray(10 * WIDTH, 11 * WIDTH));
+    expect(row[20]).toBe(255);
+    expect(row[0]).toBe(0);
+    expect(row[8]).toBeGreaterThan(128);
+    expect(row[8]).toBeLessThan(255);
+    expect(row[7]).toBeLessThan(128);
+    // The 50% line stays at the original edge, so the set area is unchanged.
+    expect(setPixels(feathered)).toBe(setPixels(mask));
+  });
+
+  it('returns a copy when the radius rounds to nothing', () => {
+    const mask = rectMask(2, 2, 5, 5);
+    const result = featherMask(mask, WIDTH, HEIGHT, 0.5);
+    expect(result).toEqual(mask);
+    expect(result).not.toBe(mask);
+  });
+});
+
+describe('fillMaskHoles', () => {
+  it('fills enclosed holes but not gaps open to the border', () => {
+    const mask = rectMask(4, 4, 16, 16);
+    mask[10 * WIDTH + 10] = 0;
+    for (let y = 0; y < HEIGHT; y++) mask[y * WIDTH + 20] = 0;
+    const filled = fillMaskHoles(mask, WIDTH, HEIGHT);
+    expect(filled[10 * WIDTH + 10]).toBe(255);
+    expect(filled[0]).toBe(0);
+    expect(filled[10 * WIDTH + 20]).toBe(0);
+  });
+});
+
+describe('removeMaskIslands', () => {
+  it('clears regions smaller than the minimum area and keeps the rest', () => {
+    const mask = rectMask(2, 2, 10, 10);
+    mask[15 * WIDTH + 18] = 255;
+    mask[15 * WIDTH + 19] = 90;
+    const cleaned = removeMaskIslands(mask, WIDTH, HEIGHT, 10);
+    expect(cleaned[15 * WIDTH + 18]).toBe(0);
+    expect(cleaned[15 * WIDTH + 19]).toBe(0);
+    expect(cleaned).toEqual(rectMask(2, 2, 10, 10));
+  });
+});
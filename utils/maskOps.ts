@@ -0,0 +1,220 @@
+// Refinement operations on a soft mask, stored as one 0-255 value per pixel.
+// Grow and shrink work from the mask's 50% edge and return an anti-aliased
+// result; the others keep existing soft values where they can.
+
+export type MaskOperationKind = 'grow' | 'shrink' | 'feather' | 'fillHoles' | 'removeIslands' | 'invert';
+
+export interface MaskOperation {
+  kind: MaskOperationKind;
+  // Pixels for grow/shrink/feather, minimum area in pixels for removeIslands; unused otherwise.
+  amount: number;
+}
+
+const EDGE = 128;
+const INF = 1e20;
+
+// Felzenszwalb & Huttenlocher 1D squared distance transform of `f` in place.
+const transform1d = (f: Float64Array, n: number, d: Float64Array, v: Int32Array, z: Float64Array) => {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -INF;
+  z[1] = INF;
+  for (let q = 1; q < n; q++) {
+    let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = INF;
+  }
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    d[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+  }
+  for (let q = 0; q < n; q++) f[q] = d[q];
+};
+
+/** Euclidean distance from every pixel to the nearest pixel where `target` is set (0 on target pixels). */
+export const distanceTransform = (target: Uint8Array, width: number, height: number): Float32Array => {
+  const size = Math.max(width, height);
+  const f = new Float64Array(size);
+  const d = new Float64Array(size);
+  const v = new Int32Array(size);
+  const z = new Float64Array(size + 1);
+  const grid = new Float64Array(width * height);
+  for (let i = 0; i < grid.length; i++) grid[i] = target[i] ? 0 : INF;
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = grid[y * width + x];
+    transform1d(f, height, d, v, z);
+    for (let y = 0; y < height; y++) grid[y * width + x] = f[y];
+  }
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) f[x] = grid[row + x];
+    transform1d(f, width, d, v, z);
+    for (let x = 0; x < width; x++) grid[row + x] = f[x];
+  }
+
+  const distance = new Float32Array(width * height);
+  for (let i = 0; i < grid.length; i++) distance[i] = Math.sqrt(grid[i]);
+  return distance;
+};
+
+const threshold = (mask: Uint8ClampedArray, inside: boolean): Uint8Array => {
+  const result = new Uint8Array(mask.length);
+  for (let i = 0; i < mask.length; i++) result[i] = (mask[i] >= EDGE) === inside ? 1 : 0;
+  return result;
+};
+
+export const growMask = (mask: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray => {
+  const distance = distanceTransform(threshold(mask, true), width, height);
+  const result = new Uint8ClampedArray(mask.length);
+  for (let i = 0; i < mask.length; i++) {
+    // One pixel of linear falloff at the new edge keeps it anti-aliased.
+    result[i] = Math.max(mask[i], Math.min(1, Math.max(0, radius + 0.5 - distance[i])) * 255);
+  }
+  return result;
+};
+
+export const shrinkMask = (mask: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray => {
+  const distance = distanceTransform(threshold(mask, false), width, height);
+  const result = new Uint8ClampedArray(mask.length);
+  for (let i = 0; i < mask.length; i++) {
+    result[i] = Math.min(mask[i], Math.min(1, Math.max(0, distance[i] - radius - 0.5)) * 255);
+  }
+  return result;
+};
+
+const boxBlurPass = (source: Float32Array, target: Float32Array, width: number, height: number, radius: number, horizontal: boolean) => {
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const step = horizontal ? 1 : width;
+  const span = radius * 2 + 1;
+  for (let line = 0; line < lines; line++) {
+    const start = horizontal ? line * width : line;
+    const at = (i: number) => source[start + Math.min(length - 1, Math.max(0, i)) * step];
+    let sum = 0;
+    for (let i = -radius; i <= radius; i++) sum += at(i);
+    for (let i = 0; i < length; i++) {
+      target[start + i * step] = sum / span;
+      sum += at(i + radius + 1) - at(i - radius);
+    }
+  }
+};
+
+/** Gaussian feather approximated by three box blurs, with `radius` as roughly two standard deviations. */
+export const featherMask = (mask: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray => {
+  const boxRadius = Math.max(0, Math.round(radius / 2));
+  if (boxRadius === 0) return new Uint8ClampedArray(mask);
+  const values = Float32Array.from(mask);
+  const scratch = new Float32Array(mask.length);
+  for (let pass = 0; pass < 3; pass++) {
+    boxBlurPass(values, scratch, width, height, boxRadius, true);
+    boxBlurPass(scratch, values, width, height, boxRadius, false);
+  }
+  return Uint8ClampedArray.from(values, value => Math.round(value));
+};
+
+/** Labels 8-connected regions of set pixels; returns the label per pixel (0 = unset) and each label's area. */
+const labelRegions = (set: Uint8Array, width: number, height: number): { labels: Int32Array, areas: number[] } => {
+  const labels = new Int32Array(set.length);
+  const areas = [0];
+  const stack: number[] = [];
+  for (let seed = 0; seed < set.length; seed++) {
+    if (!set[seed] || labels[seed]) continue;
+    const label = areas.length;
+    let area = 0;
+    labels[seed] = label;
+    stack.push(seed);
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      area++;
+      const x = p % width;
+      const y = (p - x) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const q = ny * width + nx;
+          if (set[q] && !labels[q]) {
+            labels[q] = label;
+            stack.push(q);
+          }
+        }
+      }
+    }
+    areas.push(area);
+  }
+  return { labels, areas };
+};
+
+/** Fills every unmasked area that doesn't reach the image border. */
+export const fillMaskHoles = (mask: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray => {
+  const { labels } = labelRegions(threshold(mask, false), width, height);
+  const touchesBorder = new Set<number>();
+  for (let x = 0; x < width; x++) {
+    touchesBorder.add(labels[x]);
+    touchesBorder.add(labels[(height - 1) * width + x]);
+  }
+  for (let y = 0; y < height; y++) {
+    touchesBorder.add(labels[y * width]);
+    touchesBorder.add(labels[y * width + width - 1]);
+  }
+  const result = new Uint8ClampedArray(mask);
+  for (let i = 0; i < mask.length; i++) {
+    if (labels[i] && !touchesBorder.has(labels[i])) result[i] = 255;
+  }
+  return result;
+};
+
+/** Clears masked regions, soft fringe included, smaller than `minArea` pixels. */
+export const removeMaskIslands = (mask: Uint8ClampedArray, width: number, height: number, minArea: number): Uint8ClampedArray => {
+  const painted = new Uint8Array(mask.length);
+  for (let i = 0; i < mask.length; i++) painted[i] = mask[i] > 0 ? 1 : 0;
+  const { labels, areas } = labelRegions(painted, width, height);
+  const result = new Uint8ClampedArray(mask);
+  for (let i = 0; i < mask.length; i++) {
+    if (labels[i] && areas[labels[i]] < minArea) result[i] = 0;
+  }
+  return result;
+};
+
+/** Keeps only the masked region, soft fringe included, that contains pixel index `at`. */
+export const keepMaskRegion = (mask: Uint8ClampedArray, width: number, height: number, at: number): Uint8ClampedArray => {
+  const painted = new Uint8Array(mask.length);
+  for (let i = 0; i < mask.length; i++) painted[i] = mask[i] > 0 ? 1 : 0;
+  const { labels } = labelRegions(painted, width, height);
+  const result = new Uint8ClampedArray(mask.length);
+  if (!labels[at]) return result;
+  for (let i = 0; i < mask.length; i++) {
+    if (labels[i] === labels[at]) result[i] = mask[i];
+  }
+  return result;
+};
+
+export const invertMask = (mask: Uint8ClampedArray): Uint8ClampedArray =>
+  Uint8ClampedArray.from(mask, value => 255 - value);
+
+export const applyMaskOperation = (mask: Uint8ClampedArray, width: number, height: number, operation: MaskOperation): Uint8ClampedArray => {
+  switch (operation.kind) {
+    case 'grow':
+      return growMask(mask, width, height, operation.amount);
+    case 'shrink':
+      return shrinkMask(mask, width, height, operation.amount);
+    case 'feather':
+      return featherMask(mask, width, height, operation.amount);
+    case 'fillHoles':
+      return fillMaskHoles(mask, width, height);
+    case 'removeIslands':
+      return removeMaskIslands(mask, width, height, operation.amount);
+    case 'invert':
+      return invertMask(mask);
+  }
+};
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { recolorOverlayPixels } from './maskUtils';
+
+describe('recolorOverlayPixels', () => {
+  it('repaints painted pixels and keeps their alpha', () => {
+    const pixels = new Uint8ClampedArray([
+      192, 132, 252, 255,
+      192, 132, 252, 128,
+      0, 0, 0, 0,
+    ]);
+    recolorOverlayPixels(pixels, '#38bdf8');
+    expect(Array.from(pixels)).toEqual([
+      0x38, 0xbd, 0xf8, 255,
+      0x38, 0xbd, 0xf8, 128,
+      0, 0, 0, 0,
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import { Rect } from '../types';
+import { createCanvas, get2dContext } from './imageUtils';
+
+/** Mask strength per pixel (0-255), read from the overlay's alpha. */
+export const readOverlayMask = (drawingCanvas: HTMLCanvasElement): Uint8ClampedArray => {
+  const overlay = get2dContext(drawingCanvas).getImageData(0, 0, drawingCanvas.width, drawingCanvas.height).data;
+  const mask = new Uint8ClampedArray(overlay.length / 4);
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = overlay[i * 4 + 3];
+  }
+  return mask;
+};
+
+/** Paints mask strengths back onto an overlay as alpha, in the given colour. */
+export const writeOverlayMask = (drawingCanvas: HTMLCanvasElement, mask: Uint8ClampedArray, hex: string) => {
+  const ctx = get2dContext(drawingCanvas);
+  const imageData = ctx.createImageData(drawingCanvas.width, drawingCanvas.height);
+  const data = imageData.data;
+  const [r, g, b] = parseHexColor(hex);
+  for (let i = 0; i < mask.length; i++) {
+    data[i * 4] = r;
+    data[i * 4 + 1] = g;
+    data[i * 4 + 2] = b;
+    data[i * 4 + 3] = mask[i];
+  }
+  ctx.putImageData(imageData, 0, 0);
+};
+
+/** Makes every painted pixel of an overlay full strength, for overlays saved before masks were soft. */
+export const hardenOverlay = (drawingCanvas: HTMLCanvasElement) => {
+  const ctx = get2dContext(drawingCanvas);
+  const imageData = ctx.getImageData(0, 0, drawingCanvas.width, drawingCanvas.height);
+  const data = imageData.data;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) data[i] = 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+};
+
+/**
+ * Converts the painted overlay into the greyscale mask the model expects:
+ * the overlay's alpha becomes brightness, so feathered edges stay soft.
+ */
+export const createSoftMask = (drawingCanvas: HTMLCanvasElement): HTMLCanvasElement => {
+  const maskCanvas = createCanvas(drawingCanvas.width, drawingCanvas.height);
+  const maskCtx = get2dContext(maskCanvas);
+
+  const imageData = maskCtx.createImageData(maskCanvas.width, maskCanvas.height);
+  const data = imageData.data;
+  const mask = readOverlayMask(drawingCanvas);
+  for (let i = 0; i < mask.length; i++) {
+    data[i * 4] = mask[i];
+    data[i * 4 + 1] = mask[i];
+    data[i * 4 + 2] = mask[i];
+    data[i * 4 + 3] = 255;
+  }
+  maskCtx.putImageData(imageData, 0, 0);
+  return maskCanvas;
+};
+
+/** Whether any pixel of the overlay has been painted. */
+export const hasPaint = (drawingCanvas: HTMLCanvasElement): boolean => {
+  if (drawingCanvas.width === 0 || drawingCanvas.height === 0) return false;
+  const overlay = get2dContext(drawingCanvas).getImageData(0, 0, drawingCanvas.width, drawingCanvas.height).data;
+  for (let i = 3; i < overlay.length; i += 4) {
+    if (overlay[i] > 0) return true;
+  }
+  return false;
+};
+
+/** Union of several greyscale masks of the same size, keeping the strongest value per pixel. */
+export const combineMasks = (masks: HTMLCanvasElement[]): HTMLCanvasElement => {
+  const combined = createCanvas(masks[0].width, masks[0].height);
+  const ctx = get2dContext(combined);
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, combined.width, combined.height);
+  ctx.globalCompositeOperation = 'lighten';
+  masks.forEach(mask => ctx.drawImage(mask, 0, 0, combined.width, combined.height));
+  return combined;
+};
+
+// Provider mask brightness below LOW counts as unmasked and above HIGH as fully masked.
+const PROVIDER_MASK_LOW = 32;
+const PROVIDER_MASK_HIGH = 224;
+
+/**
+ * Reads a black and white mask image from a provider, scaled to the given
+ * size, with white as masked. The model's grey edge is kept as a soft ramp,
+ * but faint noise is dropped so the untouched area stays exactly unmasked.
+ */
+export const readProviderMask = (maskImage: CanvasImageSource, width: number, height: number): Uint8ClampedArray => {
+  const scaled = createCanvas(width, height);
+  const ctx = get2dContext(scaled);
+  ctx.drawImage(maskImage, 0, 0, width, height);
+  const data = ctx.getImageData(0, 0, width, height).data;
+  const mask = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    const brightness = (data[i * 4] + data[i * 4 + 1] + data[i * 4 + 2]) / 3;
+    mask[i] = (brightness - PROVIDER_MASK_LOW) * 255 / (PROVIDER_MASK_HIGH - PROVIDER_MASK_LOW);
+  }
+  return mask;
+};
+
+/** Parses a #rrggbb colour into its channels. */
+export const parseHexColor = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
+
+/** `recolorOverlay` on raw RGBA pixels, such as an undo snapshot of the overlay. */
+export const recolorOverlayPixels = (pixels: Uint8ClampedArray, hex: string) => {
+  const [r, g, b] = parseHexColor(hex);
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] === 0) continue;
+    pixels[i] = r;
+    pixels[i + 1] = g;
+    pixels[i + 2] = b;
+  }
+};
+
+/** Repaints every painted pixel of an overlay in a new colour, keeping its alpha. */
+export const recolorOverlay = (drawingCanvas: HTMLCanvasElement, hex: string) => {
+  const ctx = get2dContext(drawingCanvas);
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = hex;
+  ctx.fillRect(0, 0, drawingCanvas.width, drawingCanvas.height);
+  ctx.restore();
+};
+
+export const canvasToBase64 = (canvas: HTMLCanvasElement, mimeType = 'image/png', quality?: number): string => {
+  return canvas.toDataURL(mimeType, quality).split(',')[1];
+};
+
+/** Bounding box of the non-black area of a greyscale mask, or null if it is empty. */
+export const getMaskBounds = (maskCanvas: HTMLCanvasElement): Rect | null => {
+  const { width, height } = maskCanvas;
+  const data = get2dContext(maskCanvas).getImageData(0, 0, width, height).data;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4] > 0) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
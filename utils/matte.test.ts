@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { refineMatte } from './matte';
+import { growMask, shrinkMask } from './maskOps';
+
+const WIDTH = 32;
+const HEIGHT = 16;
+const SUBJECT = [220, 30, 30];
+const BACKDROP = [20, 200, 40];
+// The column where the subject's edge is half covered.
+const EDGE_X = 12;
+
+/**
+ * A red subject on the left and a green backdrop on the right, with one
+ * column between them where the colours are mixed half and half.
+ */
+const scene = () => {
+  const pixels = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  const alpha = new Uint8ClampedArray(WIDTH * HEIGHT);
+  for (let p = 0; p < WIDTH * HEIGHT; p++) {
+    const x = p % WIDTH;
+    const a = x < EDGE_X ? 1 : x === EDGE_X ? 0.5 : 0;
+    for (let k = 0; k < 3; k++) pixels[p * 4 + k] = Math.round(a * SUBJECT[k] + (1 - a) * BACKDROP[k]);
+    pixels[p * 4 + 3] = 255;
+    alpha[p] = Math.round(a * 255);
+  }
+  return { pixels, alpha, width: WIDTH, height: HEIGHT };
+};
+
+const alphaOf = (rgba: Uint8ClampedArray) => Uint8ClampedArray.from({ length: rgba.length / 4 }, (_, p) => rgba[p * 4 + 3]);
+
+describe('refineMatte', () => {
+  it('only sets the opacity when there is nothing to refine', () => {
+    const { pixels, alpha, width, height } = scene();
+    const output = refineMatte({ pixels, alpha, width, height, edgeShift: 0, feather: 0, decontaminate: 0 });
+    expect(alphaOf(output)).toEqual(alpha);
+    for (let p = 0; p < width * height; p++) {
+      expect(Array.from(output.subarray(p * 4, p * 4 + 3))).toEqual(Array.from(pixels.subarray(p * 4, p * 4 + 3)));
+    }
+  });
+
+  it('moves the edge the way the mask operations do', () => {
+    const { pixels, alpha, width, height } = scene();
+    const grown = refineMatte({ pixels, alpha, width, height, edgeShift: 3, feather: 0, decontaminate: 0 });
+    const shrunk = refineMatte({ pixels, alpha, width, height, edgeShift: -3, feather: 0, decontaminate: 0 });
+    expect(alphaOf(grown)).toEqual(growMask(alpha, width, height, 3));
+    expect(alphaOf(shrunk)).toEqual(shrinkMask(alpha, width, height, 3));
+  });
+
+  it('removes the backdrop colour from edge pixels', () => {
+    const { pixels, alpha, width, height } = scene();
+    const output = refineMatte({ pixels, alpha, width, height, edgeShift: 0, feather: 0, decontaminate: 1 });
+    const p = (HEIGHT / 2) * WIDTH + EDGE_X;
+    const edge = Array.from(output.subarray(p * 4, p * 4 + 3));
+    edge.forEach((value, k) => expect(Math.abs(value - SUBJECT[k])).toBeLessThanOrEqual(2));
+    expect(output[p * 4 + 3]).toBe(alpha[p]);
+  });
+
+  it('leaves fully opaque and fully transparent pixels alone', () => {
+    const { pixels, alpha, width, height } = scene();
+    const output = refineMatte({ pixels, alpha, width, height, edgeShift: 0, feather: 0, decontaminate: 1 });
+    for (let p = 0; p < width * height; p++) {
+      if (p % WIDTH === EDGE_X) continue;
+      expect(Array.from(output.subarray(p * 4, p * 4 + 3))).toEqual(Array.from(pixels.subarray(p * 4, p * 4 + 3)));
+    }
+  });
+
+  it('blends partway when decontamination is partial', () => {
+    const { pixels, alpha, width, height } = scene();
+    const full = refineMatte({ pixels, alpha, width, height, edgeShift: 0, feather: 0, decontaminate: 1 });
+    const half = refineMatte({ pixels, alpha, width, height, edgeShift: 0, feather: 0, decontaminate: 0.5 });
+    const p = ((HEIGHT / 2) * WIDTH + EDGE_X) * 4 + 1;
+    // Within rounding of the midpoint between the original and the fully cleaned colour.
+    expect(Math.abs(half[p] - (pixels[p] + full[p]) / 2)).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,124 @@
+// Turns a rough subject mask into a cut-out: the edge is moved and softened,
+// then the colours along it are decontaminated so the old background doesn't
+// show as a halo over the new one.
+import { featherMask, growMask, shrinkMask } from './maskOps';
+
+export interface MatteRequest {
+  // RGBA pixels of the image being cut out.
+  pixels: Uint8ClampedArray;
+  // Subject opacity per pixel, 0-255, at the same size.
+  alpha: Uint8ClampedArray;
+  width: number;
+  height: number;
+  // Pixels to move the edge by: positive grows the subject, negative shrinks it.
+  edgeShift: number;
+  // Softening applied to the edge, in pixels.
+  feather: number;
+  // How much of the background colour to remove from edge pixels, 0-1.
+  decontaminate: number;
+}
+
+// Colour estimates are taken on a grid no finer than this on the longer side.
+const ESTIMATE_GRID_SIZE = 256;
+// Opacities at or below / at or above these count as pure background / pure subject.
+const BACKGROUND_ALPHA = 8;
+const SUBJECT_ALPHA = 247;
+// Below this opacity the un-mixed colour is too noisy to trust on its own.
+const MIN_UNMIX_ALPHA = 0.1;
+
+interface ColorField {
+  // Premultiplied RGB sums and weights per grid cell, blurred.
+  rgb: Float32Array;
+  weight: Float32Array;
+}
+
+const blurCells = (values: Float32Array, channels: number, columns: number, rows: number, radius: number) => {
+  const scratch = new Float32Array(values.length);
+  const pass = (source: Float32Array, target: Float32Array, horizontal: boolean) => {
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < columns; x++) {
+        for (let c = 0; c < channels; c++) {
+          let sum = 0;
+          for (let d = -radius; d <= radius; d++) {
+            const nx = horizontal ? Math.min(columns - 1, Math.max(0, x + d)) : x;
+            const ny = horizontal ? y : Math.min(rows - 1, Math.max(0, y + d));
+            sum += source[(ny * columns + nx) * channels + c];
+          }
+          target[(y * columns + x) * channels + c] = sum;
+        }
+      }
+    }
+  };
+  pass(values, scratch, true);
+  pass(scratch, values, false);
+};
+
+/**
+ * Average colour of the pixels `include` picks, per grid cell and spread to
+ * neighbouring cells, so every edge pixel has a nearby estimate of the pure
+ * background and pure subject colour behind it.
+ */
+const estimateColors = (
+  pixels: Uint8ClampedArray, alpha: Uint8ClampedArray, width: number, height: number,
+  cell: number, columns: number, rows: number, include: (a: number) => boolean
+): ColorField => {
+  const rgb = new Float32Array(columns * rows * 3);
+  const weight = new Float32Array(columns * rows);
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / cell) * columns;
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (!include(alpha[p])) continue;
+      const c = row + Math.floor(x / cell);
+      rgb[c * 3] += pixels[p * 4];
+      rgb[c * 3 + 1] += pixels[p * 4 + 1];
+      rgb[c * 3 + 2] += pixels[p * 4 + 2];
+      weight[c]++;
+    }
+  }
+  blurCells(rgb, 3, columns, rows, 2);
+  blurCells(weight, 1, columns, rows, 2);
+  return { rgb, weight };
+};
+
+/** Returns the cut-out as RGBA: decontaminated colours with the refined opacity. */
+export const refineMatte = ({ pixels, alpha, width, height, edgeShift, feather, decontaminate }: MatteRequest): Uint8ClampedArray => {
+  let matte = alpha;
+  if (edgeShift > 0) matte = growMask(matte, width, height, edgeShift);
+  if (edgeShift < 0) matte = shrinkMask(matte, width, height, -edgeShift);
+  if (feather > 0) matte = featherMask(matte, width, height, feather);
+
+  const output = new Uint8ClampedArray(pixels);
+  for (let p = 0; p < matte.length; p++) output[p * 4 + 3] = matte[p];
+  if (decontaminate <= 0) return output;
+
+  const cell = Math.max(1, Math.ceil(Math.max(width, height) / ESTIMATE_GRID_SIZE));
+  const columns = Math.ceil(width / cell);
+  const rows = Math.ceil(height / cell);
+  const background = estimateColors(pixels, matte, width, height, cell, columns, rows, a => a <= BACKGROUND_ALPHA);
+  const subject = estimateColors(pixels, matte, width, height, cell, columns, rows, a => a >= SUBJECT_ALPHA);
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / cell) * columns;
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const opacity = matte[p];
+      if (opacity <= BACKGROUND_ALPHA || opacity >= SUBJECT_ALPHA) continue;
+      const c = row + Math.floor(x / cell);
+      const backgroundWeight = background.weight[c];
+      if (backgroundWeight === 0) continue;
+      const a = opacity / 255;
+      const subjectWeight = subject.weight[c];
+      for (let k = 0; k < 3; k++) {
+        const observed = pixels[p * 4 + k];
+        const behind = background.rgb[c * 3 + k] / backgroundWeight;
+        // Solve observed = a * subject + (1 - a) * background for the subject colour...
+        const unmixed = Math.min(255, Math.max(0, (observed - (1 - a) * behind) / Math.max(a, MIN_UNMIX_ALPHA)));
+        // ...and lean on the nearby pure subject colour where the pixel is mostly background.
+        const clean = subjectWeight > 0 ? a * unmixed + (1 - a) * subject.rgb[c * 3 + k] / subjectWeight : unmixed;
+        output[p * 4 + k] = observed + (clean - observed) * decontaminate;
+      }
+    }
+  }
+  return output;
+};
@@ -0,0 +1,4 @@
+import { refineMatte } from './matte';
+import { serveWorkerTask } from './workerTask';
+
+serveWorkerTask(refineMatte, cutout => [cutout.buffer], 'Refining the cut-out failed.');
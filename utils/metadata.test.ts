@@ -0,0 +1,240 @@
+import { describe, expect, it } from 'vitest';
+import { buildXmp, embedMetadata, readExif, readOrientation, rebuildExif } from './metadata';
+import { crc32 } from './zip';
+
+const encoder = new TextEncoder();
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((offset, part) => { out.set(part, offset); return offset + part.length; }, 0);
+  return out;
+};
+
+/**
+ * A camera-style EXIF block: IFD0 with Make, Orientation 6 and an Exif IFD
+ * holding DateTimeOriginal and the original's pixel size, then an IFD1 with
+ * a (tiny) JPEG thumbnail.
+ */
+const cameraExif = (littleEndian: boolean): Uint8Array => {
+  const tiff = new Uint8Array(152);
+  const view = new DataView(tiff.buffer);
+  const u16 = (offset: number, value: number) => view.setUint16(offset, value, littleEndian);
+  const u32 = (offset: number, value: number) => view.setUint32(offset, value, littleEndian);
+  const entry = (at: number, tag: number, type: number, count: number, value: number) => {
+    u16(at, tag);
+    u16(at + 2, type);
+    u32(at + 4, count);
+    if (type === 3 && count === 1) u16(at + 8, value); else u32(at + 8, value);
+  };
+  tiff.set(encoder.encode(littleEndian ? 'II' : 'MM'));
+  u16(2, 42);
+  u32(4, 8);
+  // IFD0, then its Make string.
+  u16(8, 3);
+  entry(10, 0x010f, 2, 6, 50);
+  entry(22, 0x0112, 3, 1, 6);
+  entry(34, 0x8769, 4, 1, 56);
+  u32(46, 118);
+  tiff.set(encoder.encode('Canon\0'), 50);
+  // The Exif IFD, then its date string.
+  u16(56, 3);
+  entry(58, 0x9003, 2, 20, 98);
+  entry(70, 0xa002, 4, 1, 4000);
+  entry(82, 0xa003, 4, 1, 3000);
+  u32(94, 0);
+  tiff.set(encoder.encode('2024:05:01 10:00:00\0'), 98);
+  // IFD1, pointing at the thumbnail.
+  u16(118, 2);
+  entry(120, 0x0201, 4, 1, 148);
+  entry(132, 0x0202, 4, 1, 4);
+  u32(144, 0);
+  tiff.set([0xff, 0xd8, 0xff, 0xd9], 148);
+  return tiff;
+};
+
+interface ParsedIfd {
+  entries: Map<number, { type: number, count: number, value: Uint8Array }>;
+  next: number;
+}
+
+const parseIfd = (tiff: Uint8Array, offset: number): ParsedIfd => {
+  const littleEndian = tiff[0] === 0x49;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const sizes: Record<number, number> = { 2: 1, 3: 2, 4: 4 };
+  const count = view.getUint16(offset, littleEndian);
+  const entries: ParsedIfd['entries'] = new Map();
+  for (let i = 0; i < count; i++) {
+    const at = offset + 2 + i * 12;
+    const type = view.getUint16(at + 2, littleEndian);
+    const valueCount = view.getUint32(at + 4, littleEndian);
+    const size = sizes[type] * valueCount;
+    const start = size <= 4 ? at + 8 : view.getUint32(at + 8, littleEndian);
+    entries.set(view.getUint16(at, littleEndian), { type, count: valueCount, value: tiff.slice(start, start + size) });
+  }
+  return { entries, next: view.getUint32(offset + 2 + count * 12, littleEndian) };
+};
+
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(encoder.encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const png = (): Blob => {
+  const ihdr = new Uint8Array(13);
+  new DataView(ihdr.buffer).setUint32(0, 4);
+  new DataView(ihdr.buffer).setUint32(4, 3);
+  ihdr.set([8, 6, 0, 0, 0], 8);
+  return new Blob([concat(
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', ihdr),
+    pngChunk('IDAT', new Uint8Array([1, 2, 3])),
+    pngChunk('IEND', new Uint8Array()),
+  )], { type: 'image/png' });
+};
+
+const jpeg = (): Blob => {
+  const jfif = concat(new Uint8Array([0xff, 0xe0, 0x00, 0x10]), encoder.encode('JFIF\0'), new Uint8Array([1, 1, 0, 0, 1, 0, 1, 0, 0]));
+  return new Blob([concat(
+    new Uint8Array([0xff, 0xd8]),
+    jfif,
+    new Uint8Array([0xff, 0xda, 0x00, 0x02, 0x11, 0x22, 0x33]),
+    new Uint8Array([0xff, 0xd9]),
+  )], { type: 'image/jpeg' });
+};
+
+/** A lossless WebP header for a 5×3 image with alpha; the bitstream itself is never decoded here. */
+const webp = (): Blob => {
+  const vp8l = new Uint8Array(14);
+  vp8l.set(encoder.encode('VP8L'));
+  new DataView(vp8l.buffer).setUint32(4, 5, true);
+  vp8l[8] = 0x2f;
+  new DataView(vp8l.buffer).setUint32(9, (5 - 1) | ((3 - 1) << 14) | (1 << 28), true);
+  const riff = concat(encoder.encode('RIFF'), new Uint8Array(4), encoder.encode('WEBP'), vp8l);
+  new DataView(riff.buffer).setUint32(4, riff.length - 8, true);
+  return new Blob([riff], { type: 'image/webp' });
+};
+
+/** An ISO BMFF box of `type` around `parts`. */
+const box = (type: string, ...parts: Uint8Array[]): Uint8Array => {
+  const payload = concat(...parts);
+  const out = concat(new Uint8Array(4), encoder.encode(type), payload);
+  new DataView(out.buffer).setUint32(0, out.length);
+  return out;
+};
+
+const u16be = (value: number) => new Uint8Array([value >> 8, value & 0xff]);
+const u32be = (value: number) => new Uint8Array([value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]);
+
+/** A HEIC skeleton: an image item, then an `Exif` item whose data sits in `mdat`. */
+const heic = (exif: Uint8Array): Blob => {
+  const fullBox = new Uint8Array(4);
+  const infe = (id: number, type: string) => box('infe', new Uint8Array([2, 0, 0, 0]), u16be(id), u16be(0), encoder.encode(`${type}\0`));
+  const iinf = box('iinf', fullBox, u16be(2), infe(1, 'hvc1'), infe(2, 'Exif'));
+  // Version 0, 4-byte offsets and lengths, no base offset; filled in once the layout is known.
+  const iloc = (dataOffset: number, dataLength: number) =>
+    box('iloc', fullBox, new Uint8Array([0x44, 0x00]), u16be(1), u16be(2), u16be(0), u16be(1), u32be(dataOffset), u32be(dataLength));
+  const ftyp = box('ftyp', encoder.encode('heic'), new Uint8Array(4), encoder.encode('mif1heic'));
+  const item = concat(u32be(6), encoder.encode('Exif\0\0'), exif);
+  const headerLength = ftyp.length + box('meta', fullBox, iinf, iloc(0, 0)).length + 8;
+  return new Blob([concat(ftyp, box('meta', fullBox, iinf, iloc(headerLength, item.length)), box('mdat', item))], { type: 'image/heic' });
+};
+
+const provenance = { prompt: 'A red <kite> & "sky"', model: 'test-model', createdAt: Date.UTC(2024, 4, 1) };
+
+describe('embedMetadata', () => {
+  it.each([['PNG', png], ['JPEG', jpeg], ['WebP', webp]])('writes EXIF that reads back from a %s', async (_, make) => {
+    const exif = cameraExif(true);
+    const out = await embedMetadata(make(), { exif, provenance: null });
+    expect(await readExif(out)).toEqual(exif);
+  });
+
+  it.each([['PNG', png], ['JPEG', jpeg], ['WebP', webp]])('writes the provenance XMP into a %s', async (_, make) => {
+    const out = await embedMetadata(make(), { exif: null, provenance });
+    expect(text(new Uint8Array(await out.arrayBuffer()))).toContain(buildXmp(provenance));
+  });
+
+  it('keeps the PNG header and image data intact', async () => {
+    const original = new Uint8Array(await png().arrayBuffer());
+    const out = new Uint8Array(await (await embedMetadata(png(), { exif: cameraExif(true), provenance })).arrayBuffer());
+    // Signature and IHDR first, IDAT and IEND untouched at the end.
+    expect(out.subarray(0, 33)).toEqual(original.subarray(0, 33));
+    expect(out.subarray(out.length - (original.length - 33))).toEqual(original.subarray(33));
+  });
+
+  it('adds a VP8X header with the size, alpha and metadata flags to a simple WebP', async () => {
+    const out = new Uint8Array(await (await embedMetadata(webp(), { exif: cameraExif(true), provenance })).arrayBuffer());
+    const view = new DataView(out.buffer);
+    expect(text(out.subarray(12, 16))).toBe('VP8X');
+    expect(out[20]).toBe(0x10 | 0x08 | 0x04);
+    expect(view.getUint32(24, true) & 0xffffff).toBe(4);
+    expect(view.getUint32(27, true) & 0xffffff).toBe(2);
+    expect(view.getUint32(4, true)).toBe(out.length - 8);
+  });
+
+  it('places the EXIF segment after the JFIF header', async () => {
+    const out = new Uint8Array(await (await embedMetadata(jpeg(), { exif: cameraExif(false), provenance: null })).arrayBuffer());
+    expect(Array.from(out.subarray(0, 4))).toEqual([0xff, 0xd8, 0xff, 0xe0]);
+    expect(Array.from(out.subarray(20, 22))).toEqual([0xff, 0xe1]);
+    expect(text(out.subarray(24, 28))).toBe('Exif');
+  });
+
+  it('leaves formats it cannot write unchanged', async () => {
+    const avif = new Blob([new Uint8Array([0, 0, 0, 0])], { type: 'image/avif' });
+    expect(await embedMetadata(avif, { exif: cameraExif(true), provenance })).toBe(avif);
+  });
+});
+
+describe('readExif', () => {
+  it('finds the EXIF item of a HEIC file', async () => {
+    const exif = cameraExif(false);
+    expect(await readExif(heic(exif))).toEqual(exif);
+  });
+
+  it('returns null for a HEIC file without one', async () => {
+    const bytes = new Uint8Array(await heic(cameraExif(false)).arrayBuffer());
+    // Rename the item type so no item is EXIF.
+    const at = bytes.findIndex((_, i) => text(bytes.subarray(i, i + 4)) === 'Exif');
+    bytes.set(encoder.encode('mime'), at);
+    expect(await readExif(new Blob([bytes]))).toBeNull();
+  });
+});
+
+describe('rebuildExif', () => {
+  it.each([['little-endian', true], ['big-endian', false]])('keeps the photo tags and drops the thumbnail and pixel size (%s)', (_, littleEndian) => {
+    const original = cameraExif(littleEndian);
+    expect(readOrientation(original)).toBe(6);
+    const rebuilt = rebuildExif(original)!;
+    expect(rebuilt).not.toBeNull();
+    expect(readOrientation(rebuilt)).toBe(1);
+
+    const view = new DataView(rebuilt.buffer);
+    const ifd0 = parseIfd(rebuilt, view.getUint32(4, littleEndian));
+    expect(ifd0.next).toBe(0);
+    expect(text(ifd0.entries.get(0x010f)!.value)).toBe('Canon\0');
+
+    const exifPointer = ifd0.entries.get(0x8769)!.value;
+    const exifIfd = parseIfd(rebuilt, new DataView(exifPointer.buffer).getUint32(0, littleEndian));
+    expect(text(exifIfd.entries.get(0x9003)!.value)).toBe('2024:05:01 10:00:00\0');
+    expect(exifIfd.entries.has(0xa002)).toBe(false);
+    expect(exifIfd.entries.has(0xa003)).toBe(false);
+    expect(rebuilt.length).toBeLessThan(original.length);
+  });
+
+  it('leaves the original untouched', () => {
+    const original = cameraExif(true);
+    const copy = original.slice();
+    rebuildExif(original);
+    expect(original).toEqual(copy);
+  });
+
+  it('gives up on a block it cannot read', () => {
+    expect(rebuildExif(cameraExif(true).subarray(0, 20))).toBeNull();
+  });
+});
@@ -0,0 +1,453 @@
+// Reads EXIF from uploads (including HEIC and AVIF items) and writes EXIF and
+// XMP into exported files, at the byte level, for the formats the browser can
+// encode: JPEG segments, PNG chunks and WebP RIFF chunks.
+import { crc32 } from './zip';
+
+/** What produced an exported image, written to its XMP. */
+export interface EditProvenance {
+  prompt: string;
+  model?: string;
+  createdAt: number;
+}
+
+export interface ExportMetadata {
+  // Raw TIFF-structured EXIF data, as `readExif` returns it.
+  exif: Uint8Array | null;
+  provenance: EditProvenance | null;
+}
+
+const EXIF_HEADER = new TextEncoder().encode('Exif\0\0');
+const XMP_NAMESPACE = new TextEncoder().encode('http://ns.adobe.com/xap/1.0/\0');
+const PNG_SIGNATURE_LENGTH = 8;
+const ORIENTATION_TAG = 0x0112;
+const EXIF_IFD_TAG = 0x8769;
+const GPS_IFD_TAG = 0x8825;
+// Byte size of one value of each TIFF field type.
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+// IFD0 tags describing the original's pixel data and layout, rather than the photo.
+const IFD0_STRUCTURE_TAGS = new Set([0x0100, 0x0101, 0x0102, 0x0103, 0x0106, 0x0111, 0x0115, 0x0116, 0x0117, 0x011c, 0x0201, 0x0202, EXIF_IFD_TAG, GPS_IFD_TAG]);
+// PixelXDimension and PixelYDimension, the interoperability pointer, and the
+// maker note, whose internal offsets don't survive being moved.
+const EXIF_DROPPED_TAGS = new Set([0xa002, 0xa003, 0xa005, 0x927c]);
+// JPEG segment payloads are limited to 64 KiB including the length field.
+const MAX_JPEG_SEGMENT = 0xffff - 2;
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const startsWith = (bytes: Uint8Array, prefix: Uint8Array, offset = 0) =>
+  prefix.every((byte, i) => bytes[offset + i] === byte);
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const readJpegExif = (bytes: Uint8Array): Uint8Array | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: no more metadata segments follow.
+    if (marker === 0xda) break;
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xe1 && startsWith(bytes, EXIF_HEADER, offset + 4)) {
+      return bytes.slice(offset + 4 + EXIF_HEADER.length, offset + 2 + length);
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const readPngExif = (bytes: Uint8Array): Uint8Array | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let offset = PNG_SIGNATURE_LENGTH; offset + 8 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    if (type === 'eXIf') return bytes.slice(offset + 8, offset + 8 + length);
+    if (type === 'IDAT' || type === 'IEND') break;
+    offset += 12 + length;
+  }
+  return null;
+};
+
+const readWebpExif = (bytes: Uint8Array): Uint8Array | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const size = view.getUint32(offset + 4, true);
+    if (ascii(bytes, offset, 4) === 'EXIF') {
+      const data = bytes.slice(offset + 8, offset + 8 + size);
+      // Some writers keep the JPEG-style header in the chunk.
+      return startsWith(data, EXIF_HEADER) ? data.slice(EXIF_HEADER.length) : data;
+    }
+    offset += 8 + size + (size & 1);
+  }
+  return null;
+};
+
+interface Box {
+  type: string;
+  // Where the box's payload starts and where the box ends.
+  start: number;
+  end: number;
+}
+
+const readUint64 = (view: DataView, offset: number) => view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+
+/** The ISO BMFF boxes directly inside `bytes[start, end)`. */
+const readBoxes = (bytes: Uint8Array, start: number, end: number): Box[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: Box[] = [];
+  for (let offset = start; offset + 8 <= end;) {
+    let size = view.getUint32(offset);
+    let header = 8;
+    if (size === 1) {
+      size = readUint64(view, offset + 8);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+    boxes.push({ type: ascii(bytes, offset + 4, 4), start: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+};
+
+/** The ID of the `Exif` item listed in an `iinf` box, or null. */
+const findExifItem = (bytes: Uint8Array, iinf: Box): number | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // A full box: version and flags, then the entry count.
+  const entries = iinf.start + 4 + (bytes[iinf.start] === 0 ? 2 : 4);
+  for (const infe of readBoxes(bytes, entries, iinf.end)) {
+    const version = bytes[infe.start];
+    // Versions 0 and 1 predate item types.
+    if (infe.type !== 'infe' || version < 2) continue;
+    const idSize = version === 2 ? 2 : 4;
+    const id = idSize === 2 ? view.getUint16(infe.start + 4) : view.getUint32(infe.start + 4);
+    if (ascii(bytes, infe.start + 4 + idSize + 2, 4) === 'Exif') return id;
+  }
+  return null;
+};
+
+/** The bytes of item `itemId`, joined from its extents in an `iloc` box, or null. */
+const readItem = (bytes: Uint8Array, iloc: Box, itemId: number): Uint8Array | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = bytes[iloc.start];
+  let offset = iloc.start + 4;
+  const read = (size: number): number => {
+    const value = size === 0 ? 0 : size === 2 ? view.getUint16(offset) : size === 4 ? view.getUint32(offset) : size === 8 ? readUint64(view, offset) : NaN;
+    if (Number.isNaN(value)) throw new RangeError(`Unsupported iloc field size ${size}.`);
+    offset += size;
+    return value;
+  };
+  const offsetSize = bytes[offset] >> 4;
+  const lengthSize = bytes[offset] & 0x0f;
+  const baseOffsetSize = bytes[offset + 1] >> 4;
+  const indexSize = version > 0 ? bytes[offset + 1] & 0x0f : 0;
+  offset += 2;
+  const itemCount = read(version < 2 ? 2 : 4);
+  for (let i = 0; i < itemCount; i++) {
+    const id = read(version < 2 ? 2 : 4);
+    // Only data at file offsets is supported, not data inside `idat` or other items.
+    const constructionMethod = version > 0 ? read(2) & 0x0f : 0;
+    read(2);
+    const baseOffset = read(baseOffsetSize);
+    const extents: Uint8Array[] = [];
+    const extentCount = read(2);
+    for (let e = 0; e < extentCount; e++) {
+      read(indexSize);
+      const extentOffset = read(offsetSize);
+      const extentLength = read(lengthSize);
+      extents.push(bytes.subarray(baseOffset + extentOffset, baseOffset + extentOffset + extentLength));
+    }
+    if (id === itemId) return constructionMethod === 0 ? concat(extents) : null;
+  }
+  return null;
+};
+
+/** HEIC and AVIF keep EXIF as an item of the `meta` box, located through `iinf` and `iloc`. */
+const readHeifExif = (bytes: Uint8Array): Uint8Array | null => {
+  const meta = readBoxes(bytes, 0, bytes.length).find(box => box.type === 'meta');
+  if (!meta) return null;
+  const children = readBoxes(bytes, meta.start + 4, meta.end);
+  const iinf = children.find(box => box.type === 'iinf');
+  const iloc = children.find(box => box.type === 'iloc');
+  const itemId = iinf ? findExifItem(bytes, iinf) : null;
+  const item = iloc && itemId !== null ? readItem(bytes, iloc, itemId) : null;
+  if (!item || item.length < 4) return null;
+  // The item starts with the offset of the TIFF header, past any "Exif\0\0" prefix.
+  const tiffStart = 4 + new DataView(item.buffer, item.byteOffset, item.byteLength).getUint32(0);
+  return tiffStart < item.length ? item.slice(tiffStart) : null;
+};
+
+/** The EXIF block of a JPEG, PNG, WebP, HEIC or AVIF file, or null when it has none. */
+export const readExif = async (file: Blob): Promise<Uint8Array | null> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return readJpegExif(bytes);
+    if (ascii(bytes, 1, 3) === 'PNG') return readPngExif(bytes);
+    if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return readWebpExif(bytes);
+    if (ascii(bytes, 4, 4) === 'ftyp') return readHeifExif(bytes);
+  } catch {
+    // A truncated or malformed file just has no usable EXIF.
+  }
+  return null;
+};
+
+/**
+ * Finds the orientation entry in EXIF IFD0 and returns the offset of its
+ * value, along with whether the data is little-endian, or null if absent.
+ */
+const findOrientation = (tiff: Uint8Array): { offset: number, littleEndian: boolean } | null => {
+  if (tiff.length < 8) return null;
+  const littleEndian = tiff[0] === 0x49;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const ifd = view.getUint32(4, littleEndian);
+  if (ifd + 2 > tiff.length) return null;
+  const count = view.getUint16(ifd, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiff.length) return null;
+    if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) return { offset: entry + 8, littleEndian };
+  }
+  return null;
+};
+
+/** The EXIF orientation (1-8) recorded in `tiff`, or 1 when there is none. */
+export const readOrientation = (tiff: Uint8Array): number => {
+  const entry = findOrientation(tiff);
+  if (!entry) return 1;
+  const value = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength).getUint16(entry.offset, entry.littleEndian);
+  return value >= 1 && value <= 8 ? value : 1;
+};
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  // The raw value bytes, in the byte order of the block they came from.
+  value: Uint8Array;
+}
+
+const readIfd = (tiff: Uint8Array, offset: number, littleEndian: boolean): IfdEntry[] => {
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const entries: IfdEntry[] = [];
+  const count = view.getUint16(offset, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const at = offset + 2 + i * 12;
+    const type = view.getUint16(at + 2, littleEndian);
+    const valueCount = view.getUint32(at + 4, littleEndian);
+    const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+    if (size === 0) continue;
+    const start = size <= 4 ? at + 8 : view.getUint32(at + 8, littleEndian);
+    if (start + size > tiff.length) continue;
+    entries.push({ tag: view.getUint16(at, littleEndian), type, count: valueCount, value: tiff.slice(start, start + size) });
+  }
+  return entries;
+};
+
+const ifdLength = (entries: IfdEntry[]): number =>
+  6 + entries.length * 12 + entries.reduce((sum, { value }) => sum + (value.length > 4 ? value.length + (value.length & 1) : 0), 0);
+
+/** Writes `entries` at `offset`, followed by their out-of-line values, with no IFD after it. */
+const writeIfd = (out: Uint8Array, offset: number, entries: IfdEntry[], littleEndian: boolean) => {
+  const view = new DataView(out.buffer, out.byteOffset, out.byteLength);
+  view.setUint16(offset, entries.length, littleEndian);
+  let dataOffset = offset + 6 + entries.length * 12;
+  entries.forEach(({ tag, type, count, value }, i) => {
+    const at = offset + 2 + i * 12;
+    view.setUint16(at, tag, littleEndian);
+    view.setUint16(at + 2, type, littleEndian);
+    view.setUint32(at + 4, count, littleEndian);
+    if (value.length <= 4) {
+      out.set(value, at + 8);
+    } else {
+      view.setUint32(at + 8, dataOffset, littleEndian);
+      out.set(value, dataOffset);
+      dataOffset += value.length + (value.length & 1);
+    }
+  });
+};
+
+const pointerEntry = (tag: number, target: number, littleEndian: boolean): IfdEntry => {
+  const value = new Uint8Array(4);
+  new DataView(value.buffer).setUint32(0, target, littleEndian);
+  return { tag, type: 4, count: 1, value };
+};
+
+/**
+ * A minimal EXIF block for a re-encoded copy of the image `tiff` came from:
+ * the IFD0, Exif and GPS entries describing the photo, marked upright since
+ * browsers apply the orientation when they decode. The thumbnail (IFD1), the
+ * original's pixel dimensions and layout, and the maker note are left out.
+ * Returns null when `tiff` can't be read.
+ */
+export const rebuildExif = (tiff: Uint8Array): Uint8Array | null => {
+  try {
+    const littleEndian = tiff[0] === 0x49;
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+    const primary = readIfd(tiff, view.getUint32(4, littleEndian), littleEndian);
+    const subIfd = (tag: number): IfdEntry[] => {
+      const pointer = primary.find(entry => entry.tag === tag && entry.type === 4 && entry.count === 1);
+      return pointer ? readIfd(tiff, new DataView(pointer.value.buffer).getUint32(0, littleEndian), littleEndian) : [];
+    };
+    const exifIfd = subIfd(EXIF_IFD_TAG).filter(entry => !EXIF_DROPPED_TAGS.has(entry.tag));
+    const gpsIfd = subIfd(GPS_IFD_TAG);
+
+    const ifd0 = primary.filter(entry => !IFD0_STRUCTURE_TAGS.has(entry.tag));
+    const orientation = ifd0.find(entry => entry.tag === ORIENTATION_TAG && entry.type === 3 && entry.count === 1);
+    if (orientation) new DataView(orientation.value.buffer).setUint16(0, 1, littleEndian);
+    // Placeholders, so the IFD0 length is known before the sub-IFDs are placed.
+    if (exifIfd.length > 0) ifd0.push(pointerEntry(EXIF_IFD_TAG, 0, littleEndian));
+    if (gpsIfd.length > 0) ifd0.push(pointerEntry(GPS_IFD_TAG, 0, littleEndian));
+    ifd0.sort((a, b) => a.tag - b.tag);
+
+    const exifOffset = 8 + ifdLength(ifd0);
+    const gpsOffset = exifOffset + (exifIfd.length > 0 ? ifdLength(exifIfd) : 0);
+    const end = gpsOffset + (gpsIfd.length > 0 ? ifdLength(gpsIfd) : 0);
+    for (const entry of ifd0) {
+      if (entry.tag === EXIF_IFD_TAG) entry.value = pointerEntry(EXIF_IFD_TAG, exifOffset, littleEndian).value;
+      if (entry.tag === GPS_IFD_TAG) entry.value = pointerEntry(GPS_IFD_TAG, gpsOffset, littleEndian).value;
+    }
+
+    const out = new Uint8Array(end);
+    out.set(tiff.subarray(0, 4));
+    new DataView(out.buffer).setUint32(4, 8, littleEndian);
+    writeIfd(out, 8, ifd0, littleEndian);
+    if (exifIfd.length > 0) writeIfd(out, exifOffset, exifIfd.sort((a, b) => a.tag - b.tag), littleEndian);
+    if (gpsIfd.length > 0) writeIfd(out, gpsOffset, gpsIfd.sort((a, b) => a.tag - b.tag), littleEndian);
+    return out;
+  } catch {
+    // A truncated or malformed block is dropped rather than copied.
+    return null;
+  }
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' })[c]!);
+
+/** An XMP packet recording the prompt, model and date of an edit. */
+export const buildXmp = ({ prompt, model, createdAt }: EditProvenance): string => [
+  '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+  '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+  '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/">',
+  `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(prompt)}</rdf:li></rdf:Alt></dc:description>`,
+  `<xmp:CreatorTool>${escapeXml(model ? `AI Image Editor (${model})` : 'AI Image Editor')}</xmp:CreatorTool>`,
+  `<xmp:CreateDate>${new Date(createdAt).toISOString()}</xmp:CreateDate>`,
+  '</rdf:Description>',
+  '</rdf:RDF>',
+  '</x:xmpmeta>',
+  '<?xpacket end="r"?>',
+].join('\n');
+
+const jpegSegment = (marker: number, payload: Uint8Array): Uint8Array => {
+  const segment = new Uint8Array(4 + payload.length);
+  segment[0] = 0xff;
+  segment[1] = marker;
+  new DataView(segment.buffer).setUint16(2, payload.length + 2);
+  segment.set(payload, 4);
+  return segment;
+};
+
+const embedInJpeg = (bytes: Uint8Array, exif: Uint8Array | null, xmp: Uint8Array | null): Uint8Array => {
+  const segments: Uint8Array[] = [];
+  if (exif && EXIF_HEADER.length + exif.length <= MAX_JPEG_SEGMENT) segments.push(jpegSegment(0xe1, concat([EXIF_HEADER, exif])));
+  if (xmp && XMP_NAMESPACE.length + xmp.length <= MAX_JPEG_SEGMENT) segments.push(jpegSegment(0xe1, concat([XMP_NAMESPACE, xmp])));
+  // After SOI, and after the JFIF header when there is one, as readers expect.
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) insertAt += 2 + new DataView(bytes.buffer, bytes.byteOffset).getUint16(4);
+  return concat([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)]);
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(new TextEncoder().encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const embedInPng = (bytes: Uint8Array, exif: Uint8Array | null, xmp: Uint8Array | null): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  if (exif) chunks.push(pngChunk('eXIf', exif));
+  // iTXt: keyword, then no compression and empty language and translated keyword.
+  if (xmp) chunks.push(pngChunk('iTXt', concat([new TextEncoder().encode('XML:com.adobe.xmp\0\0\0\0\0'), xmp])));
+  // Straight after IHDR, so both come before the image data.
+  const ihdrEnd = PNG_SIGNATURE_LENGTH + 12 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(PNG_SIGNATURE_LENGTH);
+  return concat([bytes.subarray(0, ihdrEnd), ...chunks, bytes.subarray(ihdrEnd)]);
+};
+
+const riffChunk = (fourcc: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(8 + data.length + (data.length & 1));
+  chunk.set(new TextEncoder().encode(fourcc), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+/** The VP8X header a simple (single-bitstream) WebP needs before metadata can be added. */
+const vp8xFor = (bytes: Uint8Array): Uint8Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const fourcc = ascii(bytes, 12, 4);
+  let width: number;
+  let height: number;
+  let alpha = false;
+  if (fourcc === 'VP8L') {
+    const bits = view.getUint32(21, true);
+    width = (bits & 0x3fff) + 1;
+    height = ((bits >>> 14) & 0x3fff) + 1;
+    alpha = ((bits >>> 28) & 1) === 1;
+  } else {
+    width = view.getUint16(26, true) & 0x3fff;
+    height = view.getUint16(28, true) & 0x3fff;
+  }
+  const data = new Uint8Array(10);
+  data[0] = alpha ? 0x10 : 0;
+  data.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, ((width - 1) >> 16) & 0xff], 4);
+  data.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, ((height - 1) >> 16) & 0xff], 7);
+  return riffChunk('VP8X', data);
+};
+
+const embedInWebp = (bytes: Uint8Array, exif: Uint8Array | null, xmp: Uint8Array | null): Uint8Array => {
+  let body = bytes.slice(12);
+  if (ascii(bytes, 12, 4) !== 'VP8X') body = concat([vp8xFor(bytes), body]);
+  // VP8X flags: bit 3 marks EXIF, bit 2 XMP; both chunks go at the end.
+  body[8] |= (exif ? 0x08 : 0) | (xmp ? 0x04 : 0);
+  const out = concat([new TextEncoder().encode('RIFF\0\0\0\0WEBP'), body, ...(exif ? [riffChunk('EXIF', exif)] : []), ...(xmp ? [riffChunk('XMP ', xmp)] : [])]);
+  new DataView(out.buffer).setUint32(4, out.length - 8, true);
+  return out;
+};
+
+/**
+ * Writes EXIF and provenance XMP into an encoded JPEG, PNG or WebP. Other
+ * formats, and blobs with nothing to add, come back unchanged.
+ */
+export const embedMetadata = async (blob: Blob, { exif, provenance }: ExportMetadata): Promise<Blob> => {
+  if (!exif && !provenance) return blob;
+  const xmp = provenance ? new TextEncoder().encode(buildXmp(provenance)) : null;
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let out: Uint8Array;
+  switch (blob.type) {
+    case 'image/jpeg':
+      out = embedInJpeg(bytes, exif, xmp);
+      break;
+    case 'image/png':
+      out = embedInPng(bytes, exif, xmp);
+      break;
+    case 'image/webp':
+      out = embedInWebp(bytes, exif, xmp);
+      break;
+    default:
+      return blob;
+  }
+  return new Blob([out], { type: blob.type });
+};
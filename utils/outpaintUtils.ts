@@ -0,0 +1,154 @@
+import { WorkingResolution } from '../types';
+import { createCanvas, get2dContext, getSourceSize } from './imageUtils';
+import { canvasToBase64 } from './maskUtils';
+
+/** Pixels added on each side of the image, in original pixels. */
+export interface CanvasExpansion {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/** Where the original sits along the axis that grows: at the start, centred, or at the end. */
+export type ExpansionAnchor = 'start' | 'center' | 'end';
+
+export interface PreparedOutpaint {
+  imageBase64: string;
+  maskBase64: string;
+  mimeType: string;
+  // The expanded canvas at full resolution, with the original in place and
+  // its edges smeared outwards; the result is composited onto this.
+  base: HTMLCanvasElement;
+  // White over the new area only, at full resolution.
+  mask: HTMLCanvasElement;
+}
+
+export const NO_EXPANSION: CanvasExpansion = { top: 0, right: 0, bottom: 0, left: 0 };
+
+// The expanded image may be at most this large on its longer side.
+export const MAX_OUTPAINT_DIMENSION = 8192;
+// The mask sent to the model reaches this far into the original, in request
+// pixels, so the seam is blended; the original is pasted back over it.
+const SEAM_OVERLAP_PX = 8;
+
+export const expandedSize = (width: number, height: number, expansion: CanvasExpansion): { width: number, height: number } => ({
+  width: width + expansion.left + expansion.right,
+  height: height + expansion.top + expansion.bottom,
+});
+
+export const hasExpansion = (expansion: CanvasExpansion): boolean =>
+  expansion.top > 0 || expansion.right > 0 || expansion.bottom > 0 || expansion.left > 0;
+
+const splitExtra = (extra: number, anchor: ExpansionAnchor): [number, number] => {
+  const before = anchor === 'start' ? 0 : anchor === 'end' ? extra : Math.floor(extra / 2);
+  return [before, extra - before];
+};
+
+/**
+ * The smallest expansion that brings the image to `aspect` (width / height).
+ * Only one axis ever grows; an image already at that ratio isn't expanded.
+ */
+export const expansionForAspect = (width: number, height: number, aspect: number, anchor: ExpansionAnchor): CanvasExpansion => {
+  const targetWidth = Math.round(height * aspect);
+  if (targetWidth > width) {
+    const [left, right] = splitExtra(targetWidth - width, anchor);
+    return { top: 0, right, bottom: 0, left };
+  }
+  const targetHeight = Math.round(width / aspect);
+  if (targetHeight > height) {
+    const [top, bottom] = splitExtra(targetHeight - height, anchor);
+    return { top, right: 0, bottom, left: 0 };
+  }
+  return NO_EXPANSION;
+};
+
+/**
+ * Fills the new area by stretching the original's outermost rows and columns
+ * across it, then blurs that so the model gets the scene's colours to continue
+ * from rather than hard streaks.
+ */
+const drawEdgeFill = (ctx: CanvasRenderingContext2D, source: CanvasImageSource, width: number, height: number, expansion: CanvasExpansion) => {
+  const { top, right, bottom, left } = expansion;
+  const outerWidth = width + left + right;
+  const outerHeight = height + top + bottom;
+  // Source strip (sx, sy, sw, sh) -> destination (dx, dy, dw, dh), skipping sides that don't grow.
+  const strips: [number, number, number, number, number, number, number, number][] = [
+    [0, 0, width, 1, left, 0, width, top],
+    [0, height - 1, width, 1, left, top + height, width, bottom],
+    [0, 0, 1, height, 0, top, left, height],
+    [width - 1, 0, 1, height, left + width, top, right, height],
+    [0, 0, 1, 1, 0, 0, left, top],
+    [width - 1, 0, 1, 1, left + width, 0, right, top],
+    [0, height - 1, 1, 1, 0, top + height, left, bottom],
+    [width - 1, height - 1, 1, 1, left + width, top + height, right, bottom],
+  ];
+  const smear = createCanvas(outerWidth, outerHeight);
+  const smearCtx = get2dContext(smear);
+  smearCtx.drawImage(source, left, top);
+  strips.forEach(([sx, sy, sw, sh, dx, dy, dw, dh]) => {
+    if (dw > 0 && dh > 0) smearCtx.drawImage(source, sx, sy, sw, sh, dx, dy, dw, dh);
+  });
+
+  ctx.filter = `blur(${Math.max(4, Math.round(Math.max(outerWidth, outerHeight) / 64))}px)`;
+  ctx.drawImage(smear, 0, 0);
+  ctx.filter = 'none';
+};
+
+/**
+ * Builds the expanded image and its mask for an outpainting request. The
+ * request pair is downscaled to the working resolution; `base` and `mask`
+ * stay at full resolution so the original can be composited back exactly.
+ */
+export const prepareOutpaintRequest = (
+  source: HTMLImageElement | HTMLCanvasElement,
+  expansion: CanvasExpansion,
+  resolution: WorkingResolution
+): PreparedOutpaint => {
+  const { width: sourceWidth, height: sourceHeight } = getSourceSize(source);
+  const { width, height } = expandedSize(sourceWidth, sourceHeight, expansion);
+
+  const base = createCanvas(width, height);
+  const baseCtx = get2dContext(base);
+  drawEdgeFill(baseCtx, source, sourceWidth, sourceHeight, expansion);
+  baseCtx.drawImage(source, expansion.left, expansion.top);
+
+  const mask = createCanvas(width, height);
+  const maskCtx = get2dContext(mask);
+  maskCtx.fillStyle = 'white';
+  maskCtx.fillRect(0, 0, width, height);
+  maskCtx.fillStyle = 'black';
+  maskCtx.fillRect(expansion.left, expansion.top, sourceWidth, sourceHeight);
+
+  const longestSide = Math.max(width, height);
+  const targetSide = resolution === 'original' ? longestSide : Math.min(longestSide, resolution);
+  const scale = targetSide / longestSide;
+  const requestWidth = Math.max(1, Math.round(width * scale));
+  const requestHeight = Math.max(1, Math.round(height * scale));
+
+  const requestImage = createCanvas(requestWidth, requestHeight);
+  const requestImageCtx = get2dContext(requestImage);
+  requestImageCtx.imageSmoothingQuality = 'high';
+  requestImageCtx.drawImage(base, 0, 0, requestWidth, requestHeight);
+
+  // The overlap only applies on sides that grew; elsewhere the original meets the image edge.
+  const inset = (grew: number) => grew > 0 ? SEAM_OVERLAP_PX : 0;
+  const keepLeft = expansion.left * scale + inset(expansion.left);
+  const keepTop = expansion.top * scale + inset(expansion.top);
+  const keepRight = (expansion.left + sourceWidth) * scale - inset(expansion.right);
+  const keepBottom = (expansion.top + sourceHeight) * scale - inset(expansion.bottom);
+  const requestMask = createCanvas(requestWidth, requestHeight);
+  const requestMaskCtx = get2dContext(requestMask);
+  requestMaskCtx.fillStyle = 'white';
+  requestMaskCtx.fillRect(0, 0, requestWidth, requestHeight);
+  requestMaskCtx.fillStyle = 'black';
+  requestMaskCtx.fillRect(keepLeft, keepTop, Math.max(0, keepRight - keepLeft), Math.max(0, keepBottom - keepTop));
+
+  return {
+    imageBase64: canvasToBase64(requestImage),
+    maskBase64: canvasToBase64(requestMask),
+    mimeType: 'image/png',
+    base,
+    mask,
+  };
+};
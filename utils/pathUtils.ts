@@ -0,0 +1,97 @@
+import { Point } from '../types';
+
+/** A path vertex. Handles are absolute positions; a missing handle makes that side of the segment straight. */
+export interface PathNode {
+  point: Point;
+  handleIn?: Point;
+  handleOut?: Point;
+}
+
+export interface VectorPath {
+  nodes: PathNode[];
+  closed: boolean;
+}
+
+export type PathHandle = 'point' | 'handleIn' | 'handleOut';
+
+export interface PathHit {
+  index: number;
+  handle: PathHandle;
+}
+
+const segments = (path: VectorPath): [PathNode, PathNode][] => {
+  const result: [PathNode, PathNode][] = [];
+  for (let i = 1; i < path.nodes.length; i++) result.push([path.nodes[i - 1], path.nodes[i]]);
+  if (path.closed && path.nodes.length > 2) result.push([path.nodes[path.nodes.length - 1], path.nodes[0]]);
+  return result;
+};
+
+/** SVG path data for the path, in the same coordinates as its nodes. */
+export const toSvgPathData = (path: VectorPath): string => {
+  if (path.nodes.length === 0) return '';
+  const { x, y } = path.nodes[0].point;
+  let data = `M ${x} ${y}`;
+  segments(path).forEach(([from, to]) => {
+    if (from.handleOut || to.handleIn) {
+      const c1 = from.handleOut ?? from.point;
+      const c2 = to.handleIn ?? to.point;
+      data += ` C ${c1.x} ${c1.y} ${c2.x} ${c2.y} ${to.point.x} ${to.point.y}`;
+    } else {
+      data += ` L ${to.point.x} ${to.point.y}`;
+    }
+  });
+  return path.closed ? `${data} Z` : data;
+};
+
+export const toPath2D = (path: VectorPath): Path2D => new Path2D(toSvgPathData(path));
+
+export const polygonPath = (points: Point[]): VectorPath => ({
+  nodes: points.map(point => ({ point })),
+  closed: true,
+});
+
+/** The node or handle within `radius` of `point`, preferring handles since they sit on top. */
+export const findPathHandle = (path: VectorPath, point: Point, radius: number): PathHit | null => {
+  const near = (p?: Point) => !!p && Math.hypot(p.x - point.x, p.y - point.y) <= radius;
+  for (let index = path.nodes.length - 1; index >= 0; index--) {
+    const node = path.nodes[index];
+    if (near(node.handleOut)) return { index, handle: 'handleOut' };
+    if (near(node.handleIn)) return { index, handle: 'handleIn' };
+  }
+  for (let index = path.nodes.length - 1; index >= 0; index--) {
+    if (near(path.nodes[index].point)) return { index, handle: 'point' };
+  }
+  return null;
+};
+
+const offset = (p: Point | undefined, dx: number, dy: number): Point | undefined =>
+  p ? { x: p.x + dx, y: p.y + dy } : undefined;
+
+/**
+ * Moves one node or handle to `to`. Moving a point carries its handles along;
+ * with `mirror`, moving a handle swings the opposite one to keep the curve smooth.
+ */
+export const moveHandle = (path: VectorPath, hit: PathHit, to: Point, mirror = false): VectorPath => {
+  const nodes = path.nodes.map((node, index) => {
+    if (index !== hit.index) return node;
+    if (hit.handle === 'point') {
+      const dx = to.x - node.point.x;
+      const dy = to.y - node.point.y;
+      return { point: to, handleIn: offset(node.handleIn, dx, dy), handleOut: offset(node.handleOut, dx, dy) };
+    }
+    const opposite = { x: 2 * node.point.x - to.x, y: 2 * node.point.y - to.y };
+    return hit.handle === 'handleOut'
+      ? { ...node, handleOut: to, handleIn: mirror ? opposite : node.handleIn }
+      : { ...node, handleIn: to, handleOut: mirror ? opposite : node.handleOut };
+  });
+  return { ...path, nodes };
+};
+
+export const translatePath = (path: VectorPath, dx: number, dy: number): VectorPath => ({
+  ...path,
+  nodes: path.nodes.map(node => ({
+    point: { x: node.point.x + dx, y: node.point.y + dy },
+    handleIn: offset(node.handleIn, dx, dy),
+    handleOut: offset(node.handleOut, dx, dy),
+  })),
+});
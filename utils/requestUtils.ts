@@ -0,0 +1,109 @@
+import { Point, Rect, RequestMapping, WorkingResolution } from '../types';
+import { createCanvas, get2dContext, getSourceSize } from './imageUtils';
+import { createSoftMask, getMaskBounds, canvasToBase64 } from './maskUtils';
+
+export interface PrepareRequestOptions {
+  resolution: WorkingResolution;
+  cropToMask: boolean;
+  // Extra context around the mask bounds when cropping, as a fraction of the larger bounds side.
+  paddingRatio?: number;
+}
+
+export interface PreparedRequest {
+  imageBase64: string;
+  maskBase64: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  mapping: RequestMapping;
+  // The greyscale mask at working-canvas size, reused when compositing the result.
+  maskCanvas: HTMLCanvasElement;
+}
+
+const DEFAULT_PADDING_RATIO = 0.25;
+const MIN_PADDING_PX = 32;
+
+export const toOriginalPoint = (mapping: RequestMapping, point: Point): Point => ({
+  x: mapping.region.x + point.x / mapping.scale,
+  y: mapping.region.y + point.y / mapping.scale,
+});
+
+export const toRequestPoint = (mapping: RequestMapping, point: Point): Point => ({
+  x: (point.x - mapping.region.x) * mapping.scale,
+  y: (point.y - mapping.region.y) * mapping.scale,
+});
+
+const expandRect = (rect: Rect, padding: number, maxWidth: number, maxHeight: number): Rect => {
+  const x = Math.max(0, Math.floor(rect.x - padding));
+  const y = Math.max(0, Math.floor(rect.y - padding));
+  const right = Math.min(maxWidth, Math.ceil(rect.x + rect.width + padding));
+  const bottom = Math.min(maxHeight, Math.ceil(rect.y + rect.height + padding));
+  return { x, y, width: right - x, height: bottom - y };
+};
+
+/**
+ * Produces an image/mask pair of identical dimensions for the model, taken
+ * from the full-resolution source rather than the downscaled editor canvas.
+ */
+export const prepareEditRequest = (
+  source: HTMLImageElement | HTMLCanvasElement,
+  drawingCanvas: HTMLCanvasElement,
+  options: PrepareRequestOptions
+): PreparedRequest => {
+  const { width: sourceWidth, height: sourceHeight } = getSourceSize(source);
+  const maskCanvas = createSoftMask(drawingCanvas);
+  // Editor canvas pixels -> original pixels.
+  const canvasScale = sourceWidth / drawingCanvas.width;
+
+  let region: Rect = { x: 0, y: 0, width: sourceWidth, height: sourceHeight };
+  if (options.cropToMask) {
+    const bounds = getMaskBounds(maskCanvas);
+    if (bounds) {
+      const scaled = {
+        x: bounds.x * canvasScale,
+        y: bounds.y * canvasScale,
+        width: bounds.width * canvasScale,
+        height: bounds.height * canvasScale,
+      };
+      const ratio = options.paddingRatio ?? DEFAULT_PADDING_RATIO;
+      const padding = Math.max(MIN_PADDING_PX, Math.max(scaled.width, scaled.height) * ratio);
+      region = expandRect(scaled, padding, sourceWidth, sourceHeight);
+    }
+  }
+
+  const longestSide = Math.max(region.width, region.height);
+  const targetSide = options.resolution === 'original' ? longestSide : Math.min(longestSide, options.resolution);
+  const scale = targetSide / longestSide;
+  const width = Math.max(1, Math.round(region.width * scale));
+  const height = Math.max(1, Math.round(region.height * scale));
+
+  const imageCanvas = createCanvas(width, height);
+  const imageCtx = get2dContext(imageCanvas);
+  imageCtx.imageSmoothingQuality = 'high';
+  imageCtx.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, width, height);
+
+  const requestMask = createCanvas(width, height);
+  const requestMaskCtx = get2dContext(requestMask);
+  requestMaskCtx.imageSmoothingEnabled = false;
+  requestMaskCtx.drawImage(
+    maskCanvas,
+    region.x / canvasScale,
+    region.y / canvasScale,
+    region.width / canvasScale,
+    region.height / canvasScale,
+    0,
+    0,
+    width,
+    height
+  );
+
+  return {
+    imageBase64: canvasToBase64(imageCanvas),
+    maskBase64: canvasToBase64(requestMask),
+    mimeType: 'image/png',
+    width,
+    height,
+    mapping: { region, scale },
+    maskCanvas,
+  };
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { segmentForeground } from './segmentation';
+
+const SIZE = 48;
+
+type Shape = { x: number, y: number, radius: number, color: [number, number, number] };
+
+/** A grey-blue backdrop with solid discs, plus a little deterministic noise so no colour model is degenerate. */
+const scene = (shapes: Shape[]): { pixels: Uint8ClampedArray, inside: (p: number) => Shape | undefined } => {
+  const inside = (p: number) => shapes.find(({ x, y, radius }) => (p % SIZE - x) ** 2 + (Math.floor(p / SIZE) - y) ** 2 <= radius ** 2);
+  const pixels = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let p = 0; p < SIZE * SIZE; p++) {
+    const color = inside(p)?.color ?? [70, 90, 130];
+    const noise = ((p * 7919) % 13) - 6;
+    pixels.set([color[0] + noise, color[1] + noise, color[2] + noise, 255], p * 4);
+  }
+  return { pixels, inside };
+};
+
+/** Intersection over union of the mask against the pixels `expected` accepts. */
+const overlap = (mask: Uint8ClampedArray, expected: (p: number) => boolean): number => {
+  let intersection = 0;
+  let union = 0;
+  mask.forEach((value, p) => {
+    const a = value > 0;
+    const b = expected(p);
+    if (a && b) intersection++;
+    if (a || b) union++;
+  });
+  return intersection / union;
+};
+
+describe('segmentForeground', () => {
+  it('finds a subject that stands out from the background', () => {
+    const subject: Shape = { x: 24, y: 24, radius: 12, color: [220, 60, 40] };
+    const { pixels, inside } = scene([subject]);
+    const mask = segmentForeground({ pixels, width: SIZE, height: SIZE, target: 'subject' });
+    expect(mask).toHaveLength(SIZE * SIZE);
+    expect(overlap(mask, p => inside(p) === subject)).toBeGreaterThan(0.9);
+  });
+
+  it('keeps only the object under the seed', () => {
+    const left: Shape = { x: 14, y: 24, radius: 8, color: [220, 60, 40] };
+    const right: Shape = { x: 34, y: 24, radius: 8, color: [230, 200, 40] };
+    const { pixels, inside } = scene([left, right]);
+    const mask = segmentForeground({ pixels, width: SIZE, height: SIZE, target: 'object', seed: { x: 34, y: 24 } });
+    expect(overlap(mask, p => inside(p) === right)).toBeGreaterThan(0.85);
+    mask.forEach((value, p) => {
+      if (inside(p) === left) expect(value).toBe(0);
+    });
+  });
+
+  it('only returns 0 or 255', () => {
+    const { pixels } = scene([{ x: 20, y: 26, radius: 10, color: [30, 200, 90] }]);
+    const mask = segmentForeground({ pixels, width: SIZE, height: SIZE, target: 'subject' });
+    expect(mask.every(value => value === 0 || value === 255)).toBe(true);
+  });
+
+  it('asks for a click when selecting an object without a seed', () => {
+    const { pixels } = scene([]);
+    expect(() => segmentForeground({ pixels, width: SIZE, height: SIZE, target: 'object' })).toThrow('Click on the object');
+  });
+});
@@ -0,0 +1,407 @@
+// On-device foreground segmentation in the style of GrabCut: colour models for
+// foreground and background are fitted as Gaussian mixtures, and a graph cut
+// picks the labelling that fits them best while keeping edges on colour
+// boundaries. Runs in a worker on a downscaled copy of the image.
+
+import { Point } from '../types';
+import { invertMask, keepMaskRegion, removeMaskIslands } from './maskOps';
+
+/** `subject` finds the main subject of the photo; `object` the object under `seed`. */
+export type SegmentationTarget = 'subject' | 'object';
+
+export interface SegmentationRequest {
+  pixels: Uint8ClampedArray;
+  width: number;
+  height: number;
+  target: SegmentationTarget;
+  seed?: Point;
+}
+
+const COMPONENTS = 5;
+const ITERATIONS = 4;
+// Weight of the edge term against the colour fit, as in the GrabCut paper.
+const SMOOTHNESS = 50;
+const HARD = 1e9;
+const EPSILON = 1e-9;
+
+// Trimap labels; definite pixels keep their label, probable ones are re-decided every iteration.
+const BACKGROUND = 0;
+const PROBABLY_BACKGROUND = 1;
+const PROBABLY_FOREGROUND = 2;
+const FOREGROUND = 3;
+
+interface Gaussian {
+  mean: Float64Array;
+  // Inverse covariance, row-major 3x3.
+  inverse: Float64Array;
+  // log(weight) - log(det)/2, the constant part of the log-likelihood.
+  logScale: number;
+}
+
+const colorAt = (pixels: Uint8ClampedArray, p: number, out: Float64Array) => {
+  out[0] = pixels[p * 4];
+  out[1] = pixels[p * 4 + 1];
+  out[2] = pixels[p * 4 + 2];
+};
+
+const componentLogLikelihood = (g: Gaussian, c: Float64Array): number => {
+  const d0 = c[0] - g.mean[0];
+  const d1 = c[1] - g.mean[1];
+  const d2 = c[2] - g.mean[2];
+  const m = g.inverse;
+  const mahalanobis =
+    d0 * (m[0] * d0 + m[1] * d1 + m[2] * d2) +
+    d1 * (m[3] * d0 + m[4] * d1 + m[5] * d2) +
+    d2 * (m[6] * d0 + m[7] * d1 + m[8] * d2);
+  return g.logScale - mahalanobis / 2;
+};
+
+/** Negative log-likelihood of colour `c` under a mixture. */
+const mixtureCost = (mixture: Gaussian[], c: Float64Array): number => {
+  let best = -Infinity;
+  const logs = mixture.map(g => {
+    const l = componentLogLikelihood(g, c);
+    if (l > best) best = l;
+    return l;
+  });
+  if (best === -Infinity) return HARD;
+  const sum = logs.reduce((acc, l) => acc + Math.exp(l - best), 0);
+  return -(best + Math.log(sum));
+};
+
+const bestComponent = (mixture: Gaussian[], c: Float64Array): number => {
+  let best = 0;
+  let bestLog = -Infinity;
+  mixture.forEach((g, k) => {
+    const l = componentLogLikelihood(g, c);
+    if (l > bestLog) {
+      bestLog = l;
+      best = k;
+    }
+  });
+  return best;
+};
+
+/** Fits one Gaussian per component from the samples assigned to it. */
+const fitMixture = (pixels: Uint8ClampedArray, samples: Int32Array, assignment: Uint8Array): Gaussian[] => {
+  const count = new Float64Array(COMPONENTS);
+  const sums = new Float64Array(COMPONENTS * 3);
+  const products = new Float64Array(COMPONENTS * 9);
+  const c = new Float64Array(3);
+  samples.forEach((p, i) => {
+    const k = assignment[i];
+    colorAt(pixels, p, c);
+    count[k]++;
+    for (let a = 0; a < 3; a++) {
+      sums[k * 3 + a] += c[a];
+      for (let b = 0; b < 3; b++) products[k * 9 + a * 3 + b] += c[a] * c[b];
+    }
+  });
+
+  const mixture: Gaussian[] = [];
+  for (let k = 0; k < COMPONENTS; k++) {
+    if (count[k] === 0) continue;
+    const mean = new Float64Array(3);
+    for (let a = 0; a < 3; a++) mean[a] = sums[k * 3 + a] / count[k];
+    const cov = new Float64Array(9);
+    for (let a = 0; a < 3; a++) {
+      for (let b = 0; b < 3; b++) cov[a * 3 + b] = products[k * 9 + a * 3 + b] / count[k] - mean[a] * mean[b];
+      // Keeps flat-coloured components (a white wall, say) from collapsing to a singular covariance.
+      cov[a * 3 + a] += 4;
+    }
+    const [a, b, cc, d, e, f, g, h, i] = cov;
+    const det = a * (e * i - f * h) - b * (d * i - f * g) + cc * (d * h - e * g);
+    const inverse = new Float64Array([
+      (e * i - f * h) / det, (cc * h - b * i) / det, (b * f - cc * e) / det,
+      (f * g - d * i) / det, (a * i - cc * g) / det, (cc * d - a * f) / det,
+      (d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det,
+    ]);
+    mixture.push({ mean, inverse, logScale: Math.log(count[k] / samples.length) - Math.log(det) / 2 });
+  }
+  return mixture;
+};
+
+/** Initial component assignment by a few rounds of k-means on colour. */
+const kMeansAssignment = (pixels: Uint8ClampedArray, samples: Int32Array): Uint8Array => {
+  const assignment = new Uint8Array(samples.length);
+  const centres = new Float64Array(COMPONENTS * 3);
+  const c = new Float64Array(3);
+  for (let k = 0; k < COMPONENTS; k++) {
+    colorAt(pixels, samples[Math.floor((k + 0.5) * samples.length / COMPONENTS)], c);
+    centres.set(c, k * 3);
+  }
+  for (let round = 0; round < 6; round++) {
+    const sums = new Float64Array(COMPONENTS * 4);
+    samples.forEach((p, i) => {
+      colorAt(pixels, p, c);
+      let best = 0;
+      let bestDistance = Infinity;
+      for (let k = 0; k < COMPONENTS; k++) {
+        const d0 = c[0] - centres[k * 3];
+        const d1 = c[1] - centres[k * 3 + 1];
+        const d2 = c[2] - centres[k * 3 + 2];
+        const distance = d0 * d0 + d1 * d1 + d2 * d2;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = k;
+        }
+      }
+      assignment[i] = best;
+      sums[best * 4] += c[0];
+      sums[best * 4 + 1] += c[1];
+      sums[best * 4 + 2] += c[2];
+      sums[best * 4 + 3]++;
+    });
+    for (let k = 0; k < COMPONENTS; k++) {
+      const n = sums[k * 4 + 3];
+      if (n > 0) centres.set([sums[k * 4] / n, sums[k * 4 + 1] / n, sums[k * 4 + 2] / n], k * 3);
+    }
+  }
+  return assignment;
+};
+
+/**
+ * Max-flow on the pixel grid (Dinic's algorithm) with a source linked to
+ * every pixel and every pixel linked to the sink. Returns which pixels stay
+ * reachable from the source, i.e. fall on the foreground side of the min cut.
+ */
+class GridGraph {
+  private readonly source: number;
+  private readonly sink: number;
+  private readonly head: Int32Array;
+  private readonly next: Int32Array;
+  private readonly to: Int32Array;
+  private readonly capacity: Float64Array;
+  private edgeCount = 0;
+
+  constructor(private readonly nodes: number, maxEdges: number) {
+    this.source = nodes;
+    this.sink = nodes + 1;
+    this.head = new Int32Array(nodes + 2).fill(-1);
+    this.next = new Int32Array(maxEdges * 2);
+    this.to = new Int32Array(maxEdges * 2);
+    this.capacity = new Float64Array(maxEdges * 2);
+  }
+
+  private addArc(from: number, to: number, capacity: number) {
+    const e = this.edgeCount++;
+    this.to[e] = to;
+    this.capacity[e] = capacity;
+    this.next[e] = this.head[from];
+    this.head[from] = e;
+  }
+
+  /** An edge with capacity `forward` from a to b and `backward` from b to a. */
+  addEdge(a: number, b: number, forward: number, backward: number) {
+    this.addArc(a, b, forward);
+    this.addArc(b, a, backward);
+  }
+
+  addTerminalEdges(node: number, fromSource: number, toSink: number) {
+    // Only the difference matters to the cut, and one-sided links keep the flow small.
+    const shared = Math.min(fromSource, toSink);
+    if (fromSource - shared > 0) this.addEdge(this.source, node, fromSource - shared, 0);
+    if (toSink - shared > 0) this.addEdge(node, this.sink, toSink - shared, 0);
+  }
+
+  private levels(level: Int32Array, queue: Int32Array): boolean {
+    level.fill(-1);
+    level[this.source] = 0;
+    let read = 0;
+    let write = 0;
+    queue[write++] = this.source;
+    while (read < write) {
+      const u = queue[read++];
+      for (let e = this.head[u]; e !== -1; e = this.next[e]) {
+        const v = this.to[e];
+        if (this.capacity[e] > EPSILON && level[v] < 0) {
+          level[v] = level[u] + 1;
+          queue[write++] = v;
+        }
+      }
+    }
+    return level[this.sink] >= 0;
+  }
+
+  /** Pushes flow along one shortest augmenting path; returns 0 when the level graph is exhausted. */
+  private augment(level: Int32Array, current: Int32Array, path: Int32Array): number {
+    let depth = 0;
+    let u = this.source;
+    for (;;) {
+      if (u === this.sink) {
+        let flow = Infinity;
+        for (let i = 0; i < depth; i++) flow = Math.min(flow, this.capacity[path[i]]);
+        for (let i = 0; i < depth; i++) {
+          this.capacity[path[i]] -= flow;
+          this.capacity[path[i] ^ 1] += flow;
+        }
+        return flow;
+      }
+      let e = current[u];
+      while (e !== -1 && !(this.capacity[e] > EPSILON && level[this.to[e]] === level[u] + 1)) e = this.next[e];
+      current[u] = e;
+      if (e !== -1) {
+        path[depth++] = e;
+        u = this.to[e];
+      } else {
+        if (u === this.source) return 0;
+        // Dead end: prune it from the level graph and step back.
+        level[u] = -1;
+        const back = path[--depth];
+        u = this.to[back ^ 1];
+        current[u] = this.next[current[u]];
+      }
+    }
+  }
+
+  minCut(): Uint8Array {
+    const total = this.nodes + 2;
+    const level = new Int32Array(total);
+    const queue = new Int32Array(total);
+    const current = new Int32Array(total);
+    const path = new Int32Array(total);
+    while (this.levels(level, queue)) {
+      current.set(this.head);
+      while (this.augment(level, current, path) > 0) { /* keep augmenting */ }
+    }
+    this.levels(level, queue);
+    const reachable = new Uint8Array(this.nodes);
+    for (let p = 0; p < this.nodes; p++) reachable[p] = level[p] >= 0 ? 1 : 0;
+    return reachable;
+  }
+}
+
+const initialTrimap = ({ width, height, target, seed }: SegmentationRequest): Uint8Array => {
+  const trimap = new Uint8Array(width * height);
+  // The image border is assumed to be background, as with GrabCut's initial rectangle.
+  const margin = Math.max(1, Math.round(Math.min(width, height) * 0.03));
+  if (target === 'subject') {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const inside = x >= margin && y >= margin && x < width - margin && y < height - margin;
+        trimap[y * width + x] = inside ? PROBABLY_FOREGROUND : BACKGROUND;
+      }
+    }
+    return trimap;
+  }
+
+  if (!seed) throw new Error('Click on the object to select it.');
+  const sx = Math.min(width - 1, Math.max(0, Math.round(seed.x)));
+  const sy = Math.min(height - 1, Math.max(0, Math.round(seed.y)));
+  const core = Math.max(2, Math.round(Math.min(width, height) * 0.02));
+  const reach = Math.round(Math.max(width, height) * 0.15);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dx = x - sx;
+      const dy = y - sy;
+      let label = PROBABLY_BACKGROUND;
+      if (x < margin || y < margin || x >= width - margin || y >= height - margin) label = BACKGROUND;
+      if (Math.abs(dx) <= reach && Math.abs(dy) <= reach) label = PROBABLY_FOREGROUND;
+      if (dx * dx + dy * dy <= core * core) label = FOREGROUND;
+      trimap[y * width + x] = label;
+    }
+  }
+  return trimap;
+};
+
+/**
+ * Separates foreground from background. Returns 255 for foreground pixels
+ * and 0 elsewhere, at the request's size.
+ */
+export const segmentForeground = (request: SegmentationRequest): Uint8ClampedArray => {
+  const { pixels, width, height, target, seed } = request;
+  const size = width * height;
+  const trimap = initialTrimap(request);
+  const c = new Float64Array(3);
+  const q = new Float64Array(3);
+
+  // Edge weights between right and lower neighbours, high where colours are alike.
+  const right = new Float64Array(size);
+  const down = new Float64Array(size);
+  let sumSquares = 0;
+  let pairs = 0;
+  const squaredDifference = (a: number, b: number): number => {
+    colorAt(pixels, a, c);
+    colorAt(pixels, b, q);
+    return (c[0] - q[0]) ** 2 + (c[1] - q[1]) ** 2 + (c[2] - q[2]) ** 2;
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (x + 1 < width) { right[p] = squaredDifference(p, p + 1); sumSquares += right[p]; pairs++; }
+      if (y + 1 < height) { down[p] = squaredDifference(p, p + width); sumSquares += down[p]; pairs++; }
+    }
+  }
+  const beta = sumSquares > 0 ? pairs / (2 * sumSquares) : 0;
+  for (let p = 0; p < size; p++) {
+    right[p] = SMOOTHNESS * Math.exp(-beta * right[p]);
+    down[p] = SMOOTHNESS * Math.exp(-beta * down[p]);
+  }
+
+  const samplesOf = (foreground: boolean): Int32Array => {
+    const indices: number[] = [];
+    for (let p = 0; p < size; p++) {
+      if ((trimap[p] >= PROBABLY_FOREGROUND) === foreground) indices.push(p);
+    }
+    return Int32Array.from(indices);
+  };
+  const reassign = (mixture: Gaussian[], samples: Int32Array): Uint8Array => {
+    const assignment = new Uint8Array(samples.length);
+    samples.forEach((p, i) => {
+      colorAt(pixels, p, c);
+      assignment[i] = bestComponent(mixture, c);
+    });
+    return assignment;
+  };
+
+  let foregroundSamples = samplesOf(true);
+  let backgroundSamples = samplesOf(false);
+  let foreground = fitMixture(pixels, foregroundSamples, kMeansAssignment(pixels, foregroundSamples));
+  let background = fitMixture(pixels, backgroundSamples, kMeansAssignment(pixels, backgroundSamples));
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const graph = new GridGraph(size, size * 4);
+    for (let p = 0; p < size; p++) {
+      colorAt(pixels, p, c);
+      const label = trimap[p];
+      if (label === FOREGROUND) {
+        graph.addTerminalEdges(p, HARD, 0);
+      } else if (label === BACKGROUND) {
+        graph.addTerminalEdges(p, 0, HARD);
+      } else {
+        // Cutting the source link labels the pixel background, so it costs the background fit.
+        graph.addTerminalEdges(p, mixtureCost(background, c), mixtureCost(foreground, c));
+      }
+      const x = p % width;
+      if (x + 1 < width) graph.addEdge(p, p + 1, right[p], right[p]);
+      if (p + width < size) graph.addEdge(p, p + width, down[p], down[p]);
+    }
+    const cut = graph.minCut();
+    let changed = false;
+    for (let p = 0; p < size; p++) {
+      if (trimap[p] === FOREGROUND || trimap[p] === BACKGROUND) continue;
+      const label = cut[p] ? PROBABLY_FOREGROUND : PROBABLY_BACKGROUND;
+      if (label !== trimap[p]) changed = true;
+      trimap[p] = label;
+    }
+    if (!changed || iteration === ITERATIONS - 1) break;
+
+    foregroundSamples = samplesOf(true);
+    backgroundSamples = samplesOf(false);
+    if (foregroundSamples.length === 0 || backgroundSamples.length === 0) break;
+    foreground = fitMixture(pixels, foregroundSamples, reassign(foreground, foregroundSamples));
+    background = fitMixture(pixels, backgroundSamples, reassign(background, backgroundSamples));
+  }
+
+  let mask = new Uint8ClampedArray(size);
+  for (let p = 0; p < size; p++) mask[p] = trimap[p] >= PROBABLY_FOREGROUND ? 255 : 0;
+  // Specks on either side are almost always colours that happened to match the other model.
+  const speck = Math.round(size * 0.005);
+  mask = invertMask(removeMaskIslands(invertMask(mask), width, height, speck));
+  if (target === 'object' && seed) {
+    const sx = Math.min(width - 1, Math.max(0, Math.round(seed.x)));
+    const sy = Math.min(height - 1, Math.max(0, Math.round(seed.y)));
+    return keepMaskRegion(mask, width, height, sy * width + sx);
+  }
+  return removeMaskIslands(mask, width, height, speck);
+};
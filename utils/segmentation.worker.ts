@@ -0,0 +1,4 @@
+import { segmentForeground } from './segmentation';
+import { serveWorkerTask } from './workerTask';
+
+serveWorkerTask(segmentForeground, mask => [mask.buffer], 'Segmentation failed.');
@@ -0,0 +1,46 @@
+import { createCanvas, get2dContext } from './imageUtils';
+import { writeOverlayMask } from './maskUtils';
+
+/** How a selection shape combines with the mask already painted. */
+export type SelectionMode = 'add' | 'subtract' | 'intersect';
+
+/**
+ * Shift adds, Alt subtracts and Shift+Alt intersects, matching the usual
+ * image-editor conventions; without a modifier the chosen default applies.
+ */
+export const selectionModeFromEvent = (e: { shiftKey: boolean, altKey: boolean }, fallback: SelectionMode): SelectionMode => {
+  if (e.shiftKey && e.altKey) return 'intersect';
+  if (e.altKey) return 'subtract';
+  if (e.shiftKey) return 'add';
+  return fallback;
+};
+
+const withSelectionMode = (ctx: CanvasRenderingContext2D, mode: SelectionMode, draw: () => void) => {
+  ctx.save();
+  if (mode === 'subtract') {
+    ctx.globalCompositeOperation = 'destination-out';
+  } else if (mode === 'intersect') {
+    // destination-in composites over the whole canvas, clearing everything outside the shape.
+    ctx.globalCompositeOperation = 'destination-in';
+  }
+  draw();
+  ctx.restore();
+};
+
+/** Fills `shape` into a mask overlay at full strength, combined according to `mode`. */
+export const applySelection = (drawingCanvas: HTMLCanvasElement, shape: Path2D, mode: SelectionMode, hex: string) => {
+  const ctx = get2dContext(drawingCanvas);
+  withSelectionMode(ctx, mode, () => {
+    ctx.fillStyle = hex;
+    ctx.fill(shape);
+  });
+};
+
+/** Like `applySelection`, for a per-pixel selection (0-255) the size of the canvas. */
+export const applySelectionMask = (drawingCanvas: HTMLCanvasElement, selection: Uint8ClampedArray, mode: SelectionMode, hex: string) => {
+  const { width, height } = drawingCanvas;
+  const shape = createCanvas(width, height);
+  writeOverlayMask(shape, selection, hex);
+  const ctx = get2dContext(drawingCanvas);
+  withSelectionMode(ctx, mode, () => ctx.drawImage(shape, 0, 0));
+};
@@ -0,0 +1,195 @@
+import { describe, expect, it } from 'vitest';
+import { decodeTiff, readTiffSize } from './tiff';
+
+const WIDTH = 37;
+const HEIGHT = 29;
+
+/** RGB samples with flat runs (for PackBits), repeats (for LZW) and noise. */
+const rgbSamples = (width: number, height: number): Uint8Array => {
+  const samples = new Uint8Array(width * height * 3);
+  for (let p = 0; p < width * height; p++) {
+    const x = p % width;
+    const y = Math.floor(p / width);
+    samples[p * 3] = x < 10 ? 200 : (x * 11 + y * 3) & 0xff;
+    samples[p * 3 + 1] = y < 5 ? 17 : (p * 2654435761) >>> 24;
+    samples[p * 3 + 2] = (x ^ y) & 0x3f;
+  }
+  return samples;
+};
+
+/** TIFF LZW as libtiff writes it: a leading Clear, MSB-first codes, widened one code early. */
+const encodeLzw = (input: Uint8Array): Uint8Array => {
+  const bits: number[] = [];
+  let width = 9;
+  const emit = (code: number) => {
+    for (let b = width - 1; b >= 0; b--) bits.push((code >> b) & 1);
+  };
+  let table = new Map<string, number>();
+  let next = 258;
+  let current = -1;
+  emit(256);
+  for (const byte of input) {
+    if (current === -1) {
+      current = byte;
+      continue;
+    }
+    const found = table.get(`${current},${byte}`);
+    if (found !== undefined) {
+      current = found;
+      continue;
+    }
+    emit(current);
+    table.set(`${current},${byte}`, next++);
+    current = byte;
+    if (next === 4094) {
+      emit(256);
+      table = new Map();
+      next = 258;
+      width = 9;
+    } else if (next >= 1 << width) {
+      width++;
+    }
+  }
+  if (current !== -1) {
+    emit(current);
+    if (++next >= 1 << width && width < 12) width++;
+  }
+  emit(257);
+  const out = new Uint8Array(Math.ceil(bits.length / 8));
+  bits.forEach((bit, i) => { out[i >> 3] |= bit << (7 - (i & 7)); });
+  return out;
+};
+
+/** PackBits with runs of two or more repeated, and a no-op byte in front as some writers add. */
+const packBits = (input: Uint8Array): Uint8Array => {
+  const out: number[] = [0x80];
+  let i = 0;
+  while (i < input.length) {
+    let run = 1;
+    while (i + run < input.length && run < 128 && input[i + run] === input[i]) run++;
+    if (run >= 2) {
+      out.push((1 - run) & 0xff, input[i]);
+      i += run;
+      continue;
+    }
+    const start = i;
+    while (i < input.length && i - start < 128 && !(i + 1 < input.length && input[i + 1] === input[i])) i++;
+    if (i === start) i++;
+    out.push(i - start - 1, ...input.subarray(start, i));
+  }
+  return Uint8Array.from(out);
+};
+
+const deflate = async (input: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([input]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** Horizontal differencing (predictor 2) of 8-bit RGB rows. */
+const applyPredictor = (samples: Uint8Array, width: number): Uint8Array => {
+  const out = samples.slice();
+  const rowBytes = width * 3;
+  for (let row = 0; row < samples.length; row += rowBytes) {
+    for (let i = rowBytes - 1; i >= 3; i--) out[row + i] = (samples[row + i] - samples[row + i - 3]) & 0xff;
+  }
+  return out;
+};
+
+type Entry = [tag: number, type: 3 | 4, values: number[]];
+
+/** A little-endian, single-page RGB TIFF with the given strips and tags. */
+const buildTiff = (width: number, height: number, rowsPerStrip: number, strips: Uint8Array[], tags: Entry[]): Uint8Array => {
+  const entries: Entry[] = [
+    [256, 4, [width]],
+    [257, 4, [height]],
+    [258, 3, [8, 8, 8]],
+    [262, 3, [2]],
+    [273, 4, strips.map(() => 0)],
+    [277, 3, [3]],
+    [278, 4, [rowsPerStrip]],
+    [279, 4, strips.map(strip => strip.length)],
+    ...tags,
+  ];
+  entries.sort((a, b) => a[0] - b[0]);
+  const size = ([, type, values]: Entry) => (type === 3 ? 2 : 4) * values.length;
+  const ifdEnd = 8 + 2 + entries.length * 12 + 4;
+  const outOfLine = entries.reduce((sum, entry) => sum + (size(entry) > 4 ? size(entry) : 0), 0);
+  let stripOffset = ifdEnd + outOfLine;
+  entries.find(([tag]) => tag === 273)![2] = strips.map(strip => (stripOffset += strip.length) - strip.length);
+
+  const bytes = new Uint8Array(stripOffset);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x49, 0x49, 42, 0]);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, entries.length, true);
+  let dataOffset = ifdEnd;
+  entries.forEach((entry, i) => {
+    const [tag, type, values] = entry;
+    const at = 10 + i * 12;
+    view.setUint16(at, tag, true);
+    view.setUint16(at + 2, type, true);
+    view.setUint32(at + 4, values.length, true);
+    let valueAt = at + 8;
+    if (size(entry) > 4) {
+      view.setUint32(at + 8, dataOffset, true);
+      valueAt = dataOffset;
+      dataOffset += size(entry);
+    }
+    values.forEach((value, v) => type === 3 ? view.setUint16(valueAt + v * 2, value, true) : view.setUint32(valueAt + v * 4, value, true));
+  });
+  strips.reduce((offset, strip) => { bytes.set(strip, offset); return offset + strip.length; }, dataOffset);
+  return bytes;
+};
+
+const stripsOf = (samples: Uint8Array, width: number, rowsPerStrip: number): Uint8Array[] => {
+  const strips: Uint8Array[] = [];
+  const stripBytes = width * 3 * rowsPerStrip;
+  for (let start = 0; start < samples.length; start += stripBytes) strips.push(samples.subarray(start, start + stripBytes));
+  return strips;
+};
+
+const toRgba = (samples: Uint8Array): Uint8ClampedArray => {
+  const rgba = new Uint8ClampedArray(samples.length / 3 * 4);
+  for (let p = 0; p < samples.length / 3; p++) rgba.set([samples[p * 3], samples[p * 3 + 1], samples[p * 3 + 2], 255], p * 4);
+  return rgba;
+};
+
+describe('decodeTiff', () => {
+  const samples = rgbSamples(WIDTH, HEIGHT);
+  const rowsPerStrip = 8;
+
+  const cases: [string, number, (strip: Uint8Array) => Uint8Array | Promise<Uint8Array>][] = [
+    ['uncompressed', 1, strip => strip],
+    ['LZW', 5, encodeLzw],
+    ['PackBits', 32773, packBits],
+    ['Deflate', 8, deflate],
+  ];
+
+  it.each(cases)('decodes %s strips back to the original samples', async (_, compression, encode) => {
+    const strips = await Promise.all(stripsOf(samples, WIDTH, rowsPerStrip).map(encode));
+    const tiff = buildTiff(WIDTH, HEIGHT, rowsPerStrip, strips, [[259, 3, [compression]]]);
+    expect(readTiffSize(tiff)).toEqual({ width: WIDTH, height: HEIGHT });
+    const decoded = await decodeTiff(tiff);
+    expect(decoded.width).toBe(WIDTH);
+    expect(decoded.height).toBe(HEIGHT);
+    expect(decoded.pixels).toEqual(toRgba(samples));
+  });
+
+  it('undoes the horizontal predictor', async () => {
+    const strips = stripsOf(applyPredictor(samples, WIDTH), WIDTH, rowsPerStrip).map(encodeLzw);
+    const tiff = buildTiff(WIDTH, HEIGHT, rowsPerStrip, strips, [[259, 3, [5]], [317, 3, [2]]]);
+    expect((await decodeTiff(tiff)).pixels).toEqual(toRgba(samples));
+  });
+
+  it('round-trips LZW past every code width and a dictionary reset', async () => {
+    // Enough varied data to fill the 4094-entry table more than once.
+    const big = rgbSamples(160, 120);
+    const tiff = buildTiff(160, 120, 120, [encodeLzw(big)], [[259, 3, [5]]]);
+    expect((await decodeTiff(tiff)).pixels).toEqual(toRgba(big));
+  });
+
+  it('names compression types it cannot read', async () => {
+    const tiff = buildTiff(WIDTH, HEIGHT, HEIGHT, [new Uint8Array(8)], [[259, 3, [7]]]);
+    await expect(decodeTiff(tiff)).rejects.toThrow('compression type 7 is not supported');
+  });
+});
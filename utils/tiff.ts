@@ -0,0 +1,270 @@
+// Baseline TIFF decoding for browsers that can't show TIFFs themselves: the
+// first page only, 8- or 16-bit greyscale, RGB(A) or palette samples, stored
+// in strips or tiles, uncompressed or with PackBits, LZW or Deflate.
+
+export interface DecodedTiff {
+  width: number;
+  height: number;
+  // Straight (not premultiplied) RGBA.
+  pixels: Uint8ClampedArray;
+}
+
+const TAG = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  planarConfig: 284,
+  predictor: 317,
+  colorMap: 320,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325,
+  extraSamples: 338,
+} as const;
+
+// Byte size of each TIFF field type that can hold the tags above.
+const TYPE_SIZES: Record<number, number> = { 1: 1, 3: 2, 4: 4 };
+
+type Tags = Map<number, number[]>;
+
+const readTags = (bytes: Uint8Array): { tags: Tags, littleEndian: boolean } => {
+  const littleEndian = bytes[0] === 0x49;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ifd = view.getUint32(4, littleEndian);
+  const count = view.getUint16(ifd, littleEndian);
+  const tags: Tags = new Map();
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const valueCount = view.getUint32(entry + 4, littleEndian);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+    const start = size * valueCount <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+    const values: number[] = [];
+    for (let v = 0; v < valueCount; v++) {
+      const at = start + v * size;
+      values.push(size === 1 ? view.getUint8(at) : size === 2 ? view.getUint16(at, littleEndian) : view.getUint32(at, littleEndian));
+    }
+    tags.set(tag, values);
+  }
+  return { tags, littleEndian };
+};
+
+/** The first page's pixel size, read from the header without decoding. */
+export const readTiffSize = (bytes: Uint8Array): { width: number, height: number } => {
+  const { tags } = readTags(bytes);
+  return { width: tags.get(TAG.width)?.[0] ?? 0, height: tags.get(TAG.height)?.[0] ?? 0 };
+};
+
+const unpackBits = (input: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  let i = 0;
+  let o = 0;
+  while (i < input.length && o < expected) {
+    const n = (input[i++] << 24) >> 24;
+    if (n >= 0) {
+      out.set(input.subarray(i, i + n + 1), o);
+      i += n + 1;
+      o += n + 1;
+    } else if (n !== -128) {
+      out.fill(input[i++], o, Math.min(expected, o + 1 - n));
+      o += 1 - n;
+    }
+  }
+  return out;
+};
+
+/** TIFF-flavoured LZW: MSB-first codes that widen one code early. */
+const decodeLzw = (input: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  const prefix = new Int32Array(4096);
+  const suffix = new Uint8Array(4096);
+  const length = new Int32Array(4096);
+  const first = new Uint8Array(4096);
+  for (let i = 0; i < 256; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+    length[i] = 1;
+    first[i] = i;
+  }
+  let next = 258;
+  let width = 9;
+  let previous = -1;
+  let bitPos = 0;
+  let o = 0;
+
+  const write = (code: number) => {
+    const end = o + length[code];
+    for (let c = code, p = end - 1; c >= 0; c = prefix[c], p--) {
+      if (p < expected) out[p] = suffix[c];
+    }
+    o = end;
+  };
+  const add = (base: number, byte: number) => {
+    if (next >= 4096) return;
+    prefix[next] = base;
+    suffix[next] = byte;
+    length[next] = length[base] + 1;
+    first[next] = first[base];
+    next++;
+  };
+
+  while (bitPos + width <= input.length * 8 && o < expected) {
+    let code = 0;
+    for (let b = 0; b < width; b++, bitPos++) {
+      code = (code << 1) | ((input[bitPos >> 3] >> (7 - (bitPos & 7))) & 1);
+    }
+    if (code === 257) break;
+    if (code === 256) {
+      next = 258;
+      width = 9;
+      previous = -1;
+      continue;
+    }
+    if (previous === -1) {
+      write(code);
+    } else if (code < next) {
+      write(code);
+      add(previous, first[code]);
+    } else {
+      add(previous, first[previous]);
+      write(code);
+    }
+    previous = code;
+    if (next >= (1 << width) - 1 && width < 12) width++;
+  }
+  return out;
+};
+
+const inflate = async (input: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([input]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decompress = async (input: Uint8Array, compression: number, expected: number): Promise<Uint8Array> => {
+  switch (compression) {
+    case 1:
+      return input;
+    case 5:
+      return decodeLzw(input, expected);
+    case 8:
+    case 32946:
+      return inflate(input);
+    case 32773:
+      return unpackBits(input, expected);
+    default:
+      throw new Error(`TIFF compression type ${compression} is not supported. Save it uncompressed or with LZW.`);
+  }
+};
+
+/** Undoes horizontal differencing (predictor 2) in one decoded block, in place. */
+const undoPredictor = (block: Uint8Array, blockWidth: number, rows: number, samples: number, bytesPerSample: number, littleEndian: boolean) => {
+  const rowBytes = blockWidth * samples * bytesPerSample;
+  if (bytesPerSample === 1) {
+    for (let y = 0; y < rows; y++) {
+      const row = y * rowBytes;
+      for (let i = samples; i < rowBytes; i++) block[row + i] = (block[row + i] + block[row + i - samples]) & 0xff;
+    }
+    return;
+  }
+  const view = new DataView(block.buffer, block.byteOffset, block.byteLength);
+  for (let y = 0; y < rows; y++) {
+    const row = y * rowBytes;
+    for (let i = samples; i < blockWidth * samples; i++) {
+      const at = row + i * 2;
+      if (at + 2 > block.length) return;
+      view.setUint16(at, (view.getUint16(at, littleEndian) + view.getUint16(at - samples * 2, littleEndian)) & 0xffff, littleEndian);
+    }
+  }
+};
+
+/** Decodes the first page of a TIFF file to RGBA. */
+export const decodeTiff = async (bytes: Uint8Array): Promise<DecodedTiff> => {
+  const { tags, littleEndian } = readTags(bytes);
+  const get = (tag: number, fallback: number) => tags.get(tag)?.[0] ?? fallback;
+  const width = get(TAG.width, 0);
+  const height = get(TAG.height, 0);
+  const samples = get(TAG.samplesPerPixel, 1);
+  const bits = get(TAG.bitsPerSample, 1);
+  const compression = get(TAG.compression, 1);
+  const photometric = get(TAG.photometric, 1);
+  const predictor = get(TAG.predictor, 1);
+
+  if (!width || !height) throw new Error('The TIFF file has no image size.');
+  if (bits !== 8 && bits !== 16) throw new Error(`${bits}-bit TIFFs are not supported; use 8 or 16 bits per channel.`);
+  if (get(TAG.planarConfig, 1) !== 1) throw new Error('TIFFs with separate colour planes are not supported.');
+  if (photometric === 3 && bits !== 8) throw new Error('Only 8-bit palette TIFFs are supported.');
+  const colorMap = tags.get(TAG.colorMap);
+  if (!((photometric === 2 && samples >= 3) || photometric === 0 || photometric === 1 || (photometric === 3 && colorMap))) {
+    throw new Error('This TIFF colour type is not supported. Save it as RGB or greyscale.');
+  }
+
+  const tiled = tags.has(TAG.tileOffsets);
+  const blockWidth = tiled ? get(TAG.tileWidth, width) : width;
+  const blockHeight = tiled ? get(TAG.tileLength, height) : Math.min(height, get(TAG.rowsPerStrip, height));
+  const offsets = tags.get(tiled ? TAG.tileOffsets : TAG.stripOffsets) ?? [];
+  const byteCounts = tags.get(tiled ? TAG.tileByteCounts : TAG.stripByteCounts) ?? [];
+  const bytesPerSample = bits / 8;
+  const pixelBytes = samples * bytesPerSample;
+  const blocksAcross = Math.ceil(width / blockWidth);
+
+  const raw = new Uint8Array(width * height * pixelBytes);
+  for (let index = 0; index < offsets.length; index++) {
+    const blockX = (index % blocksAcross) * blockWidth;
+    const blockY = Math.floor(index / blocksAcross) * blockHeight;
+    if (blockY >= height) break;
+    // Strips at the bottom may be short; tiles are always full size.
+    const rows = tiled ? blockHeight : Math.min(blockHeight, height - blockY);
+    const expected = blockWidth * rows * pixelBytes;
+    const block = await decompress(bytes.subarray(offsets[index], offsets[index] + (byteCounts[index] ?? 0)), compression, expected);
+    if (predictor === 2) undoPredictor(block, blockWidth, rows, samples, bytesPerSample, littleEndian);
+    const copyWidth = Math.min(blockWidth, width - blockX);
+    for (let y = 0; y < rows && blockY + y < height; y++) {
+      const from = y * blockWidth * pixelBytes;
+      raw.set(block.subarray(from, from + copyWidth * pixelBytes), ((blockY + y) * width + blockX) * pixelBytes);
+    }
+  }
+
+  // The high byte of each 16-bit sample, or the sample itself.
+  const sampleAt = bytesPerSample === 1
+    ? (i: number) => raw[i]
+    : (i: number) => raw[i * 2 + (littleEndian ? 1 : 0)];
+  const alphaAssociated = tags.get(TAG.extraSamples)?.[0] === 1;
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0; p < width * height; p++) {
+    const s = p * samples;
+    const out = p * 4;
+    let alpha = 255;
+    if (photometric === 2) {
+      pixels[out] = sampleAt(s);
+      pixels[out + 1] = sampleAt(s + 1);
+      pixels[out + 2] = sampleAt(s + 2);
+      if (samples >= 4) alpha = sampleAt(s + 3);
+    } else if (photometric !== 3) {
+      const grey = photometric === 0 ? 255 - sampleAt(s) : sampleAt(s);
+      pixels[out] = pixels[out + 1] = pixels[out + 2] = grey;
+      if (samples >= 2) alpha = sampleAt(s + 1);
+    } else {
+      const entry = raw[s];
+      const entries = colorMap!.length / 3;
+      pixels[out] = colorMap![entry] >> 8;
+      pixels[out + 1] = colorMap![entries + entry] >> 8;
+      pixels[out + 2] = colorMap![entries * 2 + entry] >> 8;
+    }
+    if (alphaAssociated && alpha > 0 && alpha < 255) {
+      pixels[out] = pixels[out] * 255 / alpha;
+      pixels[out + 1] = pixels[out + 1] * 255 / alpha;
+      pixels[out + 2] = pixels[out + 2] * 255 / alpha;
+    }
+    pixels[out + 3] = alpha;
+  }
+  return { width, height, pixels };
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { planTiles, sourcePatchFor, upscaleTile, upscaledSize } from './upscale';
+import { Rect } from '../types';
+
+/** A deterministic RGBA test card: gradients, a hard edge and some partly transparent pixels. */
+const testCard = (width: number, height: number): Uint8ClampedArray => {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      pixels[i] = (x * 37) % 256;
+      pixels[i + 1] = (y * 53) % 256;
+      pixels[i + 2] = x > width / 2 ? 230 : 20;
+      pixels[i + 3] = (x + y) % 7 === 0 ? 96 : 255;
+    }
+  }
+  return pixels;
+};
+
+const crop = (pixels: Uint8ClampedArray, width: number, { x, y, width: w, height: h }: Rect): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(w * h * 4);
+  for (let row = 0; row < h; row++) out.set(pixels.subarray(((y + row) * width + x) * 4, ((y + row) * width + x + w) * 4), row * w * 4);
+  return out;
+};
+
+/** Upscales `pixels` the way the hook does, tile by tile, into one RGBA buffer. */
+const upscaleInTiles = (pixels: Uint8ClampedArray, sourceWidth: number, sourceHeight: number, factor: number, sharpen: number, tileSize: number) => {
+  const { width: outputWidth, height: outputHeight } = upscaledSize(sourceWidth, sourceHeight, factor);
+  const output = new Uint8ClampedArray(outputWidth * outputHeight * 4);
+  for (const tile of planTiles(outputWidth, outputHeight, tileSize)) {
+    const patch = sourcePatchFor(tile, sourceWidth, sourceHeight, outputWidth, outputHeight);
+    const result = upscaleTile({ pixels: crop(pixels, sourceWidth, patch), patch, sourceWidth, sourceHeight, outputWidth, outputHeight, tile, sharpen });
+    for (let row = 0; row < tile.height; row++) {
+      output.set(result.subarray(row * tile.width * 4, (row + 1) * tile.width * 4), ((tile.y + row) * outputWidth + tile.x) * 4);
+    }
+  }
+  return output;
+};
+
+describe('planTiles', () => {
+  it('covers the output exactly once', () => {
+    const width = 1100;
+    const height = 530;
+    const covered = new Uint8Array(width * height);
+    for (const tile of planTiles(width, height)) {
+      for (let y = tile.y; y < tile.y + tile.height; y++) {
+        for (let x = tile.x; x < tile.x + tile.width; x++) covered[y * width + x]++;
+      }
+    }
+    expect(covered.every(count => count === 1)).toBe(true);
+  });
+});
+
+describe('sourcePatchFor', () => {
+  it('stays inside the source image', () => {
+    const patch = sourcePatchFor({ x: 0, y: 40, width: 16, height: 8 }, 30, 24, 60, 48);
+    expect(patch.x).toBe(0);
+    expect(patch.y).toBeGreaterThanOrEqual(0);
+    expect(patch.x + patch.width).toBeLessThanOrEqual(30);
+    expect(patch.y + patch.height).toBe(24);
+  });
+});
+
+describe('upscaleTile', () => {
+  const cases: [string, number, number, number, number][] = [
+    ['2x', 23, 17, 2, 0],
+    ['2x sharpened', 23, 17, 2, 0.8],
+    ['1.5x sharpened', 29, 19, 1.5, 0.5],
+    ['4x sharpened', 11, 9, 4, 1],
+  ];
+
+  it.each(cases)('joins tiles exactly as one whole-image pass would (%s)', (_, width, height, factor, sharpen) => {
+    const pixels = testCard(width, height);
+    const { width: outputWidth, height: outputHeight } = upscaledSize(width, height, factor);
+    const whole = upscaleInTiles(pixels, width, height, factor, sharpen, Math.max(outputWidth, outputHeight));
+    const tiled = upscaleInTiles(pixels, width, height, factor, sharpen, 7);
+    expect(tiled).toEqual(whole);
+  });
+
+  it('keeps a flat colour flat', () => {
+    const pixels = new Uint8ClampedArray(12 * 10 * 4);
+    for (let i = 0; i < pixels.length; i += 4) pixels.set([120, 60, 200, 255], i);
+    const output = upscaleInTiles(pixels, 12, 10, 2, 1, 8);
+    for (let i = 0; i < output.length; i += 4) {
+      expect(Array.from(output.subarray(i, i + 4))).toEqual([120, 60, 200, 255]);
+    }
+  });
+});
@@ -0,0 +1,198 @@
+// Deterministic upscaling: Lanczos resampling with an optional unsharp mask,
+// worked through in output tiles so no step holds more than a tile's worth of
+// floating-point pixels. Each tile is computed from a patch of the source with
+// enough margin that the tiles join up exactly as one whole-image pass would.
+import { Rect } from '../types';
+
+export interface UpscaleTileRequest {
+  // RGBA pixels of the source patch the tile is computed from.
+  pixels: Uint8ClampedArray;
+  // The patch's area of the source image, in source pixels.
+  patch: Rect;
+  sourceWidth: number;
+  sourceHeight: number;
+  outputWidth: number;
+  outputHeight: number;
+  // The tile to produce, in output pixels.
+  tile: Rect;
+  // Unsharp-mask strength, 0-1; 0 skips sharpening.
+  sharpen: number;
+}
+
+// Lanczos-3: three lobes either side of each sample.
+const LOBES = 3;
+// Output tiles are at most this many pixels square.
+export const UPSCALE_TILE_SIZE = 512;
+// Browsers refuse (or crash on) canvases much past these.
+export const MAX_UPSCALE_DIMENSION = 16384;
+export const MAX_UPSCALE_PIXELS = 64_000_000;
+
+export const upscaledSize = (width: number, height: number, factor: number) => ({
+  width: Math.round(width * factor),
+  height: Math.round(height * factor),
+});
+
+/** Blur radius of the unsharp mask, in output pixels; about half a source pixel. */
+const sharpenRadius = (outputWidth: number, sourceWidth: number) =>
+  Math.max(1, Math.round(outputWidth / sourceWidth / 2));
+
+const lanczos = (x: number): number => {
+  if (x === 0) return 1;
+  if (x <= -LOBES || x >= LOBES) return 0;
+  const px = Math.PI * x;
+  return LOBES * Math.sin(px) * Math.sin(px / LOBES) / (px * px);
+};
+
+/** Splits the output into tiles, row by row. */
+export const planTiles = (outputWidth: number, outputHeight: number, tileSize = UPSCALE_TILE_SIZE): Rect[] => {
+  const tiles: Rect[] = [];
+  for (let y = 0; y < outputHeight; y += tileSize) {
+    for (let x = 0; x < outputWidth; x += tileSize) {
+      tiles.push({ x, y, width: Math.min(tileSize, outputWidth - x), height: Math.min(tileSize, outputHeight - y) });
+    }
+  }
+  return tiles;
+};
+
+/** The source area, with margin for the filter and sharpening, that `tile` is computed from. */
+export const sourcePatchFor = (tile: Rect, sourceWidth: number, sourceHeight: number, outputWidth: number, outputHeight: number): Rect => {
+  const scaleX = outputWidth / sourceWidth;
+  const scaleY = outputHeight / sourceHeight;
+  const radius = sharpenRadius(outputWidth, sourceWidth);
+  const marginX = LOBES + 1 + Math.ceil(radius / scaleX);
+  const marginY = LOBES + 1 + Math.ceil(radius / scaleY);
+  const x0 = Math.max(0, Math.floor(tile.x / scaleX) - marginX);
+  const y0 = Math.max(0, Math.floor(tile.y / scaleY) - marginY);
+  const x1 = Math.min(sourceWidth, Math.ceil((tile.x + tile.width) / scaleX) + marginX);
+  const y1 = Math.min(sourceHeight, Math.ceil((tile.y + tile.height) / scaleY) + marginY);
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+};
+
+interface Taps {
+  // For each output position: the first patch index it reads and its weights.
+  start: Int32Array;
+  weights: Float32Array;
+}
+
+/**
+ * Lanczos weights for output positions `from` to `to` along one axis. Taps
+ * past the image edge are clamped to it, then made relative to the patch.
+ */
+const computeTaps = (from: number, to: number, scale: number, sourceSize: number, patchStart: number): Taps => {
+  const count = to - from;
+  const width = LOBES * 2;
+  const start = new Int32Array(count * width);
+  const weights = new Float32Array(count * width);
+  for (let i = 0; i < count; i++) {
+    const center = (from + i + 0.5) / scale - 0.5;
+    const first = Math.floor(center) - LOBES + 1;
+    let total = 0;
+    for (let k = 0; k < width; k++) {
+      const weight = lanczos(center - (first + k));
+      start[i * width + k] = Math.min(sourceSize - 1, Math.max(0, first + k)) - patchStart;
+      weights[i * width + k] = weight;
+      total += weight;
+    }
+    for (let k = 0; k < width; k++) weights[i * width + k] /= total;
+  }
+  return { start, weights };
+};
+
+/** Box-blurs `values` (4 channels) along one axis, clamping at the edges. */
+const boxBlur = (values: Float32Array, width: number, height: number, radius: number, horizontal: boolean): Float32Array => {
+  const out = new Float32Array(values.length);
+  const span = radius * 2 + 1;
+  const [lines, length] = horizontal ? [height, width] : [width, height];
+  for (let line = 0; line < lines; line++) {
+    const index = (p: number) => {
+      const q = Math.min(length - 1, Math.max(0, p));
+      return (horizontal ? line * width + q : q * width + line) * 4;
+    };
+    for (let c = 0; c < 4; c++) {
+      let sum = 0;
+      for (let p = -radius; p <= radius; p++) sum += values[index(p) + c];
+      for (let p = 0; p < length; p++) {
+        out[index(p) + c] = sum / span;
+        sum += values[index(p + radius + 1) + c] - values[index(p - radius) + c];
+      }
+    }
+  }
+  return out;
+};
+
+/**
+ * Produces one output tile: premultiplied Lanczos resampling of the patch,
+ * then an unsharp mask, over the tile plus the sharpening radius so its
+ * edges match its neighbours'.
+ */
+export const upscaleTile = ({ pixels, patch, sourceWidth, sourceHeight, outputWidth, outputHeight, tile, sharpen }: UpscaleTileRequest): Uint8ClampedArray => {
+  const scaleX = outputWidth / sourceWidth;
+  const scaleY = outputHeight / sourceHeight;
+  const radius = sharpen > 0 ? sharpenRadius(outputWidth, sourceWidth) : 0;
+  // The area actually resampled: the tile grown by the sharpening radius.
+  const x0 = Math.max(0, tile.x - radius);
+  const y0 = Math.max(0, tile.y - radius);
+  const x1 = Math.min(outputWidth, tile.x + tile.width + radius);
+  const y1 = Math.min(outputHeight, tile.y + tile.height + radius);
+  const areaWidth = x1 - x0;
+  const areaHeight = y1 - y0;
+  const taps = LOBES * 2;
+
+  const premultiplied = new Float32Array(patch.width * patch.height * 4);
+  for (let i = 0; i < premultiplied.length; i += 4) {
+    const alpha = pixels[i + 3] / 255;
+    premultiplied[i] = pixels[i] * alpha;
+    premultiplied[i + 1] = pixels[i + 1] * alpha;
+    premultiplied[i + 2] = pixels[i + 2] * alpha;
+    premultiplied[i + 3] = pixels[i + 3];
+  }
+
+  const columns = computeTaps(x0, x1, scaleX, sourceWidth, patch.x);
+  const horizontal = new Float32Array(patch.height * areaWidth * 4);
+  for (let y = 0; y < patch.height; y++) {
+    for (let x = 0; x < areaWidth; x++) {
+      const out = (y * areaWidth + x) * 4;
+      for (let k = 0; k < taps; k++) {
+        const weight = columns.weights[x * taps + k];
+        const src = (y * patch.width + columns.start[x * taps + k]) * 4;
+        horizontal[out] += premultiplied[src] * weight;
+        horizontal[out + 1] += premultiplied[src + 1] * weight;
+        horizontal[out + 2] += premultiplied[src + 2] * weight;
+        horizontal[out + 3] += premultiplied[src + 3] * weight;
+      }
+    }
+  }
+
+  const rows = computeTaps(y0, y1, scaleY, sourceHeight, patch.y);
+  let area = new Float32Array(areaWidth * areaHeight * 4);
+  for (let y = 0; y < areaHeight; y++) {
+    for (let k = 0; k < taps; k++) {
+      const weight = rows.weights[y * taps + k];
+      const srcRow = rows.start[y * taps + k] * areaWidth * 4;
+      const outRow = y * areaWidth * 4;
+      for (let i = 0; i < areaWidth * 4; i++) area[outRow + i] += horizontal[srcRow + i] * weight;
+    }
+  }
+
+  if (radius > 0) {
+    const blurred = boxBlur(boxBlur(area, areaWidth, areaHeight, radius, true), areaWidth, areaHeight, radius, false);
+    const sharpened = new Float32Array(area.length);
+    for (let i = 0; i < area.length; i++) sharpened[i] = area[i] + (area[i] - blurred[i]) * sharpen;
+    area = sharpened;
+  }
+
+  const result = new Uint8ClampedArray(tile.width * tile.height * 4);
+  for (let y = 0; y < tile.height; y++) {
+    for (let x = 0; x < tile.width; x++) {
+      const src = ((tile.y - y0 + y) * areaWidth + (tile.x - x0 + x)) * 4;
+      const out = (y * tile.width + x) * 4;
+      const alpha = Math.min(255, Math.max(0, area[src + 3]));
+      const unpremultiply = alpha > 0 ? 255 / alpha : 0;
+      result[out] = area[src] * unpremultiply;
+      result[out + 1] = area[src + 1] * unpremultiply;
+      result[out + 2] = area[src + 2] * unpremultiply;
+      result[out + 3] = alpha;
+    }
+  }
+  return result;
+};
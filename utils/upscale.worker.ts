@@ -0,0 +1,4 @@
+import { upscaleTile } from './upscale';
+import { serveWorkerTask } from './workerTask';
+
+serveWorkerTask(upscaleTile, tile => [tile.buffer], 'Upscaling failed.');
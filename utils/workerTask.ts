@@ -0,0 +1,30 @@
+// Message protocol shared by the editor's Web Workers: each request carries an
+// id that its reply echoes, so several jobs can be in flight on one worker.
+
+export interface WorkerJob<Request> {
+  id: number;
+  request: Request;
+}
+
+export interface WorkerReply<Result> {
+  id: number;
+  result?: Result;
+  error?: string;
+}
+
+/** Answers jobs posted to this worker with `run`, transferring the buffers `transferables` picks from each result. */
+export const serveWorkerTask = <Request, Result>(
+  run: (request: Request) => Result,
+  transferables: (result: Result) => Transferable[],
+  failureMessage: string
+) => {
+  self.addEventListener('message', (e: MessageEvent<WorkerJob<Request>>) => {
+    const { id, request } = e.data;
+    try {
+      const result = run(request);
+      self.postMessage({ id, result }, { transfer: transferables(result) });
+    } catch (err) {
+      self.postMessage({ id, error: err instanceof Error ? err.message : failureMessage });
+    }
+  });
+};